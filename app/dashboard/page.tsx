@@ -114,8 +114,7 @@ const Dashboard = () => {
         "parse-resume",
         {
           body: {
-            resumeId: resumeData.id,
-            filePath: filePath,
+            resumeIds: [resumeData.id],
           },
         }
       );
@@ -4,9 +4,13 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, PieChart, Pie, Cell, LineChart, Line } from "recharts";
 import { Users, FileText, TrendingUp, Search, MapPin } from "lucide-react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Skeleton } from "@/components/ui/skeleton";
+import { fromParsedDetailsColumns, hasDatedExperience, totalExperienceMonths } from "@/types/candidate";
+import { useDebouncedCallback, useResumeRealtime } from "@/hooks/useResumeRealtime";
+import { useSkillTaxonomy } from "@/hooks/useSkillTaxonomy";
+import { skillKey } from "@/lib/skillTaxonomy";
 
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8', '#82CA9D'];
 
@@ -17,6 +21,15 @@ const chartConfig = {
   },
 };
 
+// Years of experience, with overlapping roles counted once
+const EXPERIENCE_BANDS: { name: string; maxYears: number }[] = [
+  { name: '0-2 yrs', maxYears: 2 },
+  { name: '3-5 yrs', maxYears: 5 },
+  { name: '6-10 yrs', maxYears: 10 },
+  { name: '11-15 yrs', maxYears: 15 },
+  { name: '15+ yrs', maxYears: Infinity },
+];
+
 // Helper function to normalize location names
 const normalizeLocation = (location: string): string => {
   if (!location) return 'Unknown';
@@ -62,43 +75,52 @@ const fetchAnalyticsData = async () => {
 
   const { data: parsedDetails, error: parsedDetailsError } = await supabase
     .from('parsed_resume_details')
-    .select('skills_json, location');
+    .select('skills_json, experience_json, location');
   if (parsedDetailsError) throw new Error(parsedDetailsError.message);
 
-  return { resumes, parsedDetails };
+  const { count: candidateCount, error: candidatesError } = await supabase
+    .from('candidates')
+    .select('id', { count: 'exact', head: true });
+  if (candidatesError) throw new Error(candidatesError.message);
+
+  return { resumes, parsedDetails, candidateCount: candidateCount ?? 0 };
 };
 
 const AnalyticsDashboard = () => {
+  const { taxonomy } = useSkillTaxonomy();
   const { data, isLoading, error } = useQuery({
     queryKey: ['analyticsData'],
     queryFn: fetchAnalyticsData,
   });
 
+  // Uploads and finished parses show up in the charts without a reload
+  const queryClient = useQueryClient();
+  const refreshAnalytics = useDebouncedCallback(() => queryClient.invalidateQueries({ queryKey: ['analyticsData'] }), 1000);
+  useResumeRealtime(() => refreshAnalytics());
+
   const analyticsData = useMemo(() => {
     if (!data?.resumes || !data?.parsedDetails) return null;
 
-    const { resumes, parsedDetails } = data;
+    const { resumes, parsedDetails, candidateCount } = data;
 
-    const totalCandidates = resumes.length;
+    const totalUploads = resumes.length;
+    const totalCandidates = candidateCount;
     const resumesParsed = resumes.filter(r => r.parsing_status === 'completed').length;
 
-    const skillsCount = parsedDetails
-      .flatMap(d => {
-        if (!d.skills_json || !Array.isArray(d.skills_json)) return [];
-        return d.skills_json;
-      })
+    const profiles = parsedDetails.map(d => fromParsedDetailsColumns(d));
+
+    // Counted by canonical name, so "JS" and "JavaScript" are one bar
+    const skillsCount = profiles
+      .flatMap(profile => taxonomy.canonicalize(profile.skills))
       .reduce((acc, skill) => {
-        if (skill && typeof skill === 'string') {
-          const skillName = skill.trim().toLowerCase();
-          acc[skillName] = (acc[skillName] || 0) + 1;
-        }
+        const key = skillKey(skill);
+        acc[key] = { name: acc[key]?.name ?? skill, value: (acc[key]?.value || 0) + 1 };
         return acc;
-      }, {} as Record<string, number>);
-    
-    const topSkills = Object.entries(skillsCount)
-      .sort(([, a], [, b]) => b - a)
-      .slice(0, 6)
-      .map(([name, value]) => ({ name: name.charAt(0).toUpperCase() + name.slice(1), value }));
+      }, {} as Record<string, { name: string; value: number }>);
+
+    const topSkills = Object.values(skillsCount)
+      .sort((a, b) => b.value - a.value)
+      .slice(0, 6);
 
     const locationsCount = parsedDetails
       .reduce((acc, detail) => {
@@ -113,6 +135,18 @@ const AnalyticsDashboard = () => {
       .slice(0, 6)
       .map(([name, count]) => ({ name, count }));
 
+    // Candidates without dated roles would all land in the lowest band, so they are left out
+    const experienceYears = profiles
+      .filter(profile => hasDatedExperience(profile.experience))
+      .map(profile => Math.floor(totalExperienceMonths(profile.experience) / 12));
+    const experienceLevels = EXPERIENCE_BANDS.map((band, index) => ({
+      name: band.name,
+      value: experienceYears.filter(years => years <= band.maxYears && (index === 0 || years > EXPERIENCE_BANDS[index - 1].maxYears)).length,
+    }));
+    const averageExperience = experienceYears.length > 0
+      ? experienceYears.reduce((sum, years) => sum + years, 0) / experienceYears.length
+      : null;
+
     const uploadsByMonth = resumes.reduce((acc, resume) => {
       const month = new Date(resume.uploaded_at).toLocaleString('default', { month: 'short' });
       acc[month] = (acc[month] || 0) + 1;
@@ -126,8 +160,8 @@ const AnalyticsDashboard = () => {
 
     const monthlyTrends = sortedMonths.map(month => ({ month, uploads: uploadsByMonth[month] || 0 }));
 
-    return { totalCandidates, resumesParsed, topSkills, topLocations, monthlyTrends };
-  }, [data]);
+    return { totalUploads, totalCandidates, resumesParsed, topSkills, topLocations, experienceLevels, averageExperience, monthlyTrends };
+  }, [data, taxonomy]);
 
   if (isLoading) {
     return <AnalyticsSkeleton />;
@@ -137,7 +171,7 @@ const AnalyticsDashboard = () => {
     return <div className="text-red-500">Error loading analytics data: {error.message}</div>;
   }
 
-  if (!analyticsData || analyticsData.totalCandidates === 0) {
+  if (!analyticsData || analyticsData.totalUploads === 0) {
     return (
         <Card className="border-0 shadow-lg bg-white/60 backdrop-blur-sm">
             <CardHeader>
@@ -242,7 +276,28 @@ const AnalyticsDashboard = () => {
           </CardContent>
         </Card>
         
-        <Card className="border-0 shadow-lg bg-white/60 backdrop-blur-sm lg:col-span-2">
+        <Card className="border-0 shadow-lg bg-white/60 backdrop-blur-sm">
+          <CardHeader>
+            <CardTitle>Experience Levels</CardTitle>
+            <CardDescription>
+              Total years of experience from dated roles
+              {analyticsData.averageExperience !== null && ` · average ${analyticsData.averageExperience.toFixed(1)} years`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={chartConfig} className="h-[300px]">
+              <BarChart data={analyticsData.experienceLevels}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="name" />
+                <YAxis allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="value" fill="#8b5cf6" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card className="border-0 shadow-lg bg-white/60 backdrop-blur-sm">
           <CardHeader>
             <CardTitle>Monthly Uploads</CardTitle>
             <CardDescription>Resume upload activity over time</CardDescription>
@@ -278,7 +333,7 @@ const AnalyticsSkeleton = () => (
             ))}
         </div>
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-            {[...Array(2)].map((_, i) => (
+            {[...Array(4)].map((_, i) => (
                 <Card key={i} className="border-0 shadow-lg bg-white/60 backdrop-blur-sm">
                     <CardHeader>
                         <Skeleton className="h-6 w-3/4 mb-2" />
@@ -287,13 +342,6 @@ const AnalyticsSkeleton = () => (
                     <CardContent><Skeleton className="h-[300px] w-full" /></CardContent>
                 </Card>
             ))}
-            <Card className="border-0 shadow-lg bg-white/60 backdrop-blur-sm lg:col-span-2">
-                <CardHeader>
-                    <Skeleton className="h-6 w-1/4 mb-2" />
-                    <Skeleton className="h-4 w-1/3" />
-                </CardHeader>
-                <CardContent><Skeleton className="h-[300px] w-full" /></CardContent>
-            </Card>
         </div>
     </div>
 );
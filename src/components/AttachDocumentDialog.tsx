@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Paperclip } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useResumeParser } from "@/hooks/useResumeParser";
+import { toast } from "@/hooks/use-toast";
+import { DOCUMENT_TYPE_LABELS, DocumentType } from "@/lib/documentTypes";
+import { sha256Hex } from "@/lib/fileHash";
+import { inspectUpload } from "@/lib/fileSniffing";
+
+interface AttachDocumentDialogProps {
+  candidateId: string | null;
+  candidateName?: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAttached?: () => void;
+}
+
+const AttachDocumentDialog = ({ candidateId, candidateName, open, onOpenChange, onAttached }: AttachDocumentDialogProps) => {
+  const { user } = useAuth();
+  const { enqueueParsing } = useResumeParser();
+  const [file, setFile] = useState<File | null>(null);
+  const [documentType, setDocumentType] = useState<DocumentType>("resume");
+  const [uploading, setUploading] = useState(false);
+
+  const handleAttach = async () => {
+    if (!user || !candidateId || !file) return;
+
+    setUploading(true);
+    const documentId = crypto.randomUUID();
+    // Same "user_id/fileId.ext" layout as ResumeUpload, so storage policies apply unchanged
+    const filePath = `${user.id}/${documentId}.${file.name.split('.').pop()}`;
+
+    try {
+      const isResume = documentType === 'resume';
+      // Portfolios and other attachments may be any format, but never executables or macros
+      const { rejection } = await inspectUpload(file);
+      if (rejection && (isResume || rejection.code === 'executable' || rejection.code === 'macro_enabled')) {
+        toast({
+          title: "File rejected",
+          description: rejection.message,
+          variant: "destructive"
+        });
+        return;
+      }
+
+      const contentHash = await sha256Hex(file);
+      const { data: existing } = await supabase
+        .from('resumes')
+        .select('file_name')
+        .eq('user_id', user.id)
+        .eq('content_sha256', contentHash)
+        .limit(1)
+        .maybeSingle();
+
+      if (existing) {
+        toast({
+          title: "Already uploaded",
+          description: `${file.name} is identical to ${existing.file_name}, which is already in your library.`,
+          variant: "destructive"
+        });
+        return;
+      }
+
+      const { error: uploadError } = await supabase.storage
+        .from('resumes')
+        .upload(filePath, file, { cacheControl: '3600', upsert: false });
+      if (uploadError) throw uploadError;
+
+      const { error: insertError } = await supabase
+        .from('resumes')
+        .insert({
+          id: documentId,
+          user_id: user.id,
+          candidate_id: candidateId,
+          document_type: documentType,
+          file_name: file.name,
+          file_size: file.size,
+          file_type: file.type,
+          supabase_storage_path: filePath,
+          content_sha256: contentHash,
+          // Only resumes go through the parser
+          parsing_status: isResume ? 'queued' : null,
+        });
+
+      if (insertError) {
+        await supabase.storage.from('resumes').remove([filePath]);
+        throw insertError;
+      }
+
+      if (isResume) {
+        await enqueueParsing([documentId]);
+      }
+
+      toast({
+        title: "Document attached",
+        description: `${file.name} was added to ${candidateName || 'the candidate'}.`,
+      });
+      setFile(null);
+      onAttached?.();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error attaching document:', error);
+      toast({
+        title: "Upload failed",
+        description: `Failed to attach ${file.name}. Please try again.`,
+        variant: "destructive"
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Attach Document</DialogTitle>
+          <DialogDescription>
+            Add an updated resume, cover letter or portfolio to {candidateName || 'this candidate'}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Document type</label>
+            <Select value={documentType} onValueChange={(value) => setDocumentType(value as DocumentType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(DOCUMENT_TYPE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">File</label>
+            <Input type="file" onChange={(e) => setFile(e.target.files?.[0] ?? null)} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={handleAttach}
+            disabled={!file || uploading}
+            className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+          >
+            <Paperclip className="w-4 h-4 mr-2" />
+            {uploading ? "Uploading..." : "Attach"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AttachDocumentDialog;
@@ -0,0 +1,109 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { toast } from "@/hooks/use-toast";
+
+interface CandidateNotesProps {
+  candidateId: string;
+}
+
+const CandidateNotes = ({ candidateId }: CandidateNotesProps) => {
+  const { user } = useAuth();
+  const [notes, setNotes] = useState<Tables<"candidate_notes">[]>([]);
+  const [draft, setDraft] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchNotes();
+  }, [candidateId]);
+
+  const fetchNotes = async () => {
+    const { data, error } = await supabase
+      .from('candidate_notes')
+      .select('*')
+      .eq('candidate_id', candidateId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching notes:', error);
+      return;
+    }
+    setNotes(data || []);
+  };
+
+  const handleAdd = async () => {
+    if (!user || !draft.trim()) return;
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from('candidate_notes')
+        .insert({ candidate_id: candidateId, user_id: user.id, body: draft.trim() })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error adding note:', error);
+        toast({
+          title: "Error",
+          description: "Failed to save the note. Please try again.",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      setNotes(prev => [data, ...prev]);
+      setDraft("");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (noteId: string) => {
+    const { error } = await supabase.from('candidate_notes').delete().eq('id', noteId);
+    if (error) {
+      console.error('Error deleting note:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete the note.",
+        variant: "destructive"
+      });
+      return;
+    }
+    setNotes(prev => prev.filter(note => note.id !== noteId));
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-gray-700">Notes:</p>
+      {notes.map(note => (
+        <div key={note.id} className="flex justify-between items-start gap-2 p-2 rounded-lg bg-white/50 border text-sm">
+          <div>
+            <p className="text-gray-800 whitespace-pre-wrap">{note.body}</p>
+            <p className="text-xs text-gray-500">{new Date(note.created_at).toLocaleString()}</p>
+          </div>
+          <Button size="sm" variant="ghost" onClick={() => handleDelete(note.id)} aria-label="Delete note">
+            <Trash2 className="w-4 h-4 text-red-600" />
+          </Button>
+        </div>
+      ))}
+      <div className="flex items-end gap-2">
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Add a note about this candidate..."
+          className="min-h-[60px]"
+        />
+        <Button size="sm" variant="outline" onClick={handleAdd} disabled={saving || !draft.trim()}>
+          {saving ? "Saving..." : "Add"}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default CandidateNotes;
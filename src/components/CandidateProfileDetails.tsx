@@ -0,0 +1,124 @@
+import { Award, BookOpen, FolderGit, Github, Globe, Languages, Linkedin } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import type { Candidate, CandidateLink } from "@/types/candidate";
+
+type ProfileDetails = Pick<Candidate, "links" | "certifications" | "languages" | "projects" | "publications">;
+
+interface CandidateProfileDetailsProps {
+  candidate: ProfileDetails;
+}
+
+const MAX_PROJECTS = 3;
+const MAX_CERTIFICATIONS = 5;
+
+const LINK_ICONS: Record<CandidateLink["type"], typeof Globe> = {
+  linkedin: Linkedin,
+  github: Github,
+  portfolio: Globe,
+  website: Globe,
+  other: Globe,
+};
+
+const linkLabel = (link: CandidateLink) => link.url.replace(/^https?:\/\/(www\.)?/i, '').replace(/\/$/, '');
+
+const linkHref = (url: string) => (/^https?:\/\//i.test(url) ? url : `https://${url}`);
+
+// Links, certifications, languages, projects and publications on a candidate card
+const CandidateProfileDetails = ({ candidate }: CandidateProfileDetailsProps) => {
+  const { links, certifications, languages, projects, publications } = candidate;
+  if (links.length + certifications.length + languages.length + projects.length + publications.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-4 space-y-3 text-sm">
+      {links.length > 0 && (
+        <div className="flex flex-wrap gap-3">
+          {links.map(link => {
+            const Icon = LINK_ICONS[link.type];
+            return (
+              <a
+                key={link.url}
+                href={linkHref(link.url)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center space-x-1 text-blue-600 hover:underline"
+              >
+                <Icon className="w-4 h-4" />
+                <span className="truncate max-w-[220px]">{linkLabel(link)}</span>
+              </a>
+            );
+          })}
+        </div>
+      )}
+
+      {certifications.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Award className="w-4 h-4 text-gray-500" />
+          {certifications.slice(0, MAX_CERTIFICATIONS).map((certification, index) => (
+            <Badge
+              key={index}
+              variant="outline"
+              className="bg-green-50 text-green-700 border-green-200"
+              title={[certification.issuer, certification.year].filter(Boolean).join(', ') || undefined}
+            >
+              {certification.name}
+            </Badge>
+          ))}
+          {certifications.length > MAX_CERTIFICATIONS && (
+            <span className="text-gray-500">+{certifications.length - MAX_CERTIFICATIONS} more</span>
+          )}
+        </div>
+      )}
+
+      {languages.length > 0 && (
+        <div className="flex items-center space-x-2 text-gray-700">
+          <Languages className="w-4 h-4 text-gray-500" />
+          <span>
+            {languages
+              .map(language => (language.proficiency ? `${language.language} (${language.proficiency})` : language.language))
+              .join(', ')}
+          </span>
+        </div>
+      )}
+
+      {projects.length > 0 && (
+        <div className="space-y-1">
+          <p className="font-medium text-gray-700">Projects:</p>
+          {projects.slice(0, MAX_PROJECTS).map((project, index) => (
+            <div key={index} className="flex items-start space-x-2 text-gray-700">
+              <FolderGit className="w-4 h-4 mt-0.5 text-gray-500 flex-shrink-0" />
+              <span>
+                {project.url ? (
+                  <a href={linkHref(project.url)} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                    {project.name}
+                  </a>
+                ) : (
+                  project.name
+                )}
+                {project.technologies.length > 0 && (
+                  <span className="text-gray-500"> · {project.technologies.slice(0, 5).join(', ')}</span>
+                )}
+              </span>
+            </div>
+          ))}
+          {projects.length > MAX_PROJECTS && (
+            <p className="text-gray-500">+{projects.length - MAX_PROJECTS} more</p>
+          )}
+        </div>
+      )}
+
+      {publications.length > 0 && (
+        <div className="flex items-start space-x-2 text-gray-700">
+          <BookOpen className="w-4 h-4 mt-0.5 text-gray-500 flex-shrink-0" />
+          <span>
+            {publications.length} publication{publications.length === 1 ? '' : 's'}
+            <span className="text-gray-500"> · {publications[0].title}</span>
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CandidateProfileDetails;
@@ -0,0 +1,92 @@
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { CustomFieldDefinitionRow } from "@/hooks/useCustomFields";
+import { CustomFieldFilter, EMPTY_CUSTOM_FIELD_FILTER } from "@/lib/customFields";
+
+interface CustomFieldFiltersProps {
+  definitions: CustomFieldDefinitionRow[];
+  filters: Record<string, CustomFieldFilter>;
+  onChange: (key: string, filter: CustomFieldFilter) => void;
+}
+
+const ANY = "any";
+
+// One filter per workspace custom field: a choice for lists and yes/no, a range for
+// numbers and dates, and a contains-match for text
+const CustomFieldFilters = ({ definitions, filters, onChange }: CustomFieldFiltersProps) => {
+  if (definitions.length === 0) return null;
+
+  const renderFilter = (definition: CustomFieldDefinitionRow) => {
+    const filter = filters[definition.key] ?? EMPTY_CUSTOM_FIELD_FILTER;
+    const update = (changes: Partial<CustomFieldFilter>) => onChange(definition.key, { ...filter, ...changes });
+
+    switch (definition.field_type) {
+      case 'select':
+      case 'multi_select':
+      case 'boolean': {
+        const options = definition.field_type === 'boolean'
+          ? [{ value: 'true', label: 'Yes' }, { value: 'false', label: 'No' }]
+          : definition.allowed_values.map(option => ({ value: option, label: option }));
+        return (
+          <Select value={filter.value || ANY} onValueChange={(value) => update({ value: value === ANY ? "" : value })}>
+            <SelectTrigger aria-label={definition.name}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any</SelectItem>
+              {options.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      }
+      case 'number':
+      case 'date': {
+        const type = definition.field_type === 'number' ? 'number' : 'date';
+        return (
+          <div className="flex space-x-2">
+            <Input
+              type={type}
+              value={filter.min}
+              onChange={(e) => update({ min: e.target.value })}
+              placeholder="From"
+              aria-label={`${definition.name} from`}
+            />
+            <Input
+              type={type}
+              value={filter.max}
+              onChange={(e) => update({ max: e.target.value })}
+              placeholder="To"
+              aria-label={`${definition.name} to`}
+            />
+          </div>
+        );
+      }
+      default:
+        return (
+          <Input
+            value={filter.value}
+            onChange={(e) => update({ value: e.target.value })}
+            placeholder="Contains..."
+            aria-label={definition.name}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="grid md:grid-cols-3 gap-3 mt-4">
+      {definitions.map(definition => (
+        <div key={definition.id} className="space-y-1">
+          <label className="text-sm font-medium text-gray-700" title={definition.description ?? undefined}>
+            {definition.name}
+          </label>
+          {renderFilter(definition)}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default CustomFieldFilters;
@@ -0,0 +1,240 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { ListPlus, Plus, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { toast } from "@/hooks/use-toast";
+import { CUSTOM_FIELDS_QUERY_KEY, CustomFieldDefinitionRow, useCustomFields } from "@/hooks/useCustomFields";
+import {
+  CUSTOM_FIELD_TYPES,
+  CUSTOM_FIELD_TYPE_LABELS,
+  CustomFieldType,
+  customFieldKey,
+  hasAllowedValues,
+  isCustomFieldType,
+} from "@/lib/customFields";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface FieldDraft {
+  name: string;
+  field_type: CustomFieldType;
+  description: string;
+  allowed_values: string;
+}
+
+const EMPTY_DRAFT: FieldDraft = { name: "", field_type: "text", description: "", allowed_values: "" };
+
+const parseAllowedValues = (value: string) =>
+  [...new Set(value.split(',').map(option => option.trim()).filter(Boolean))];
+
+// Extra fields the parser extracts for this workspace (security clearance, visa status,
+// notice period...). Everyone sees them; workspace owners and admins define them.
+const CustomFieldSettings = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { definitions, workspaceId, canManage, isLoading, error } = useCustomFields();
+  const [draft, setDraft] = useState<FieldDraft>(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const key = customFieldKey(draft.name);
+  const needsOptions = hasAllowedValues(draft.field_type);
+
+  const refreshDefinitions = () => queryClient.invalidateQueries({ queryKey: [CUSTOM_FIELDS_QUERY_KEY] });
+
+  const handleAdd = async () => {
+    if (!user || !workspaceId) return;
+    const allowedValues = needsOptions ? parseAllowedValues(draft.allowed_values) : [];
+    if (!key) {
+      toast({
+        title: "Name is required",
+        description: "Give the field a name made of letters or digits.",
+        variant: "destructive"
+      });
+      return;
+    }
+    if (needsOptions && allowedValues.length === 0) {
+      toast({
+        title: "Options are required",
+        description: "List the values the field can take, separated by commas.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error: insertError } = await supabase.from('custom_field_definitions').insert({
+        workspace_id: workspaceId,
+        key,
+        name: draft.name.trim(),
+        field_type: draft.field_type,
+        description: draft.description.trim() || null,
+        allowed_values: allowedValues,
+        created_by: user.id,
+      });
+
+      if (insertError) {
+        console.error('Error adding custom field:', insertError);
+        toast({
+          title: "Error",
+          description: insertError.code === '23505'
+            ? `A field stored as "${key}" already exists in this workspace.`
+            : "Failed to add the field. Please try again.",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      setDraft(EMPTY_DRAFT);
+      await refreshDefinitions();
+      toast({
+        title: "Field added",
+        description: `"${draft.name.trim()}" will be extracted from resumes parsed from now on.`,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (definition: CustomFieldDefinitionRow) => {
+    if (!confirm(`Delete the field "${definition.name}"? Values already extracted for it will no longer be shown.`)) {
+      return;
+    }
+
+    setDeletingId(definition.id);
+    try {
+      const { error: deleteError } = await supabase.from('custom_field_definitions').delete().eq('id', definition.id);
+      if (deleteError) {
+        console.error('Error deleting custom field:', deleteError);
+        toast({
+          title: "Error",
+          description: "Failed to delete the field. Please try again.",
+          variant: "destructive"
+        });
+        return;
+      }
+      await refreshDefinitions();
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <Card className="border-0 shadow-lg bg-white/60 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ListPlus className="w-5 h-5" />
+          <span>Custom Fields</span>
+        </CardTitle>
+        <CardDescription>
+          Extra data to extract from every resume, such as security clearance, visa status or notice period.
+          Values can be corrected in the candidate editor and used as filters in Talent Search.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          <h3 className="text-sm font-medium">Fields ({definitions.length})</h3>
+          {isLoading && <Skeleton className="h-16 w-full" />}
+          {error && <p className="text-sm text-red-600">Failed to load custom fields. Please try again.</p>}
+          {!isLoading && !error && definitions.length === 0 && (
+            <p className="text-sm text-gray-500">No custom fields yet; resumes are parsed with the standard fields only.</p>
+          )}
+          {definitions.map(definition => (
+            <div key={definition.id} className="flex flex-wrap items-start justify-between gap-2 p-3 rounded-lg bg-white/50 border">
+              <div className="space-y-1 text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium text-gray-800">{definition.name}</span>
+                  <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">
+                    {isCustomFieldType(definition.field_type) ? CUSTOM_FIELD_TYPE_LABELS[definition.field_type] : definition.field_type}
+                  </Badge>
+                  <code className="text-xs text-gray-500">{definition.key}</code>
+                </div>
+                {definition.description && <p className="text-gray-600">{definition.description}</p>}
+                {definition.allowed_values.length > 0 && (
+                  <p className="text-gray-500">Options: {definition.allowed_values.join(', ')}</p>
+                )}
+              </div>
+              {canManage && (
+                <Button
+                  onClick={() => handleDelete(definition)}
+                  disabled={deletingId === definition.id}
+                  size="sm"
+                  variant="outline"
+                  className="text-red-600 border-red-200 hover:bg-red-50"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {canManage ? (
+          <div className="pt-4 border-t space-y-3">
+            <h3 className="text-sm font-medium">Add a field</h3>
+            <div className="grid md:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Input
+                  value={draft.name}
+                  onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="Name, e.g. Notice period (weeks)"
+                  maxLength={100}
+                />
+                {key && <p className="text-xs text-gray-500">Stored as <code>{key}</code></p>}
+              </div>
+              <Select
+                value={draft.field_type}
+                onValueChange={(value) => setDraft(prev => ({ ...prev, field_type: value as CustomFieldType }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {CUSTOM_FIELD_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{CUSTOM_FIELD_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Textarea
+                className="md:col-span-2"
+                value={draft.description}
+                onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value }))}
+                placeholder="What the parser should look for, e.g. Highest active government security clearance"
+                maxLength={1000}
+              />
+              {needsOptions && (
+                <Input
+                  className="md:col-span-2"
+                  value={draft.allowed_values}
+                  onChange={(e) => setDraft(prev => ({ ...prev, allowed_values: e.target.value }))}
+                  placeholder="Options, comma-separated, e.g. None, Secret, Top Secret"
+                />
+              )}
+            </div>
+            <Button
+              onClick={handleAdd}
+              disabled={saving || !workspaceId}
+              className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              {saving ? "Adding..." : "Add Field"}
+            </Button>
+          </div>
+        ) : (
+          !isLoading && (
+            <p className="pt-4 border-t text-sm text-gray-500">Only workspace owners and admins can change custom fields.</p>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CustomFieldSettings;
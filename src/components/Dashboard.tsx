@@ -3,19 +3,25 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Users, Search, Upload, BarChart, FileText, User, Settings, Lock, ArrowLeft } from "lucide-react";
+import { Users, Search, Upload, BarChart, FileText, User, Settings, Lock, ArrowLeft, ClipboardCheck } from "lucide-react";
 import ResumeUpload from "@/components/ResumeUpload";
 import TalentSearch from "@/components/TalentSearch";
 import AnalyticsDashboard from "@/components/AnalyticsDashboard";
 import ResumeList from "@/components/ResumeList";
+import ReviewQueue from "@/components/ReviewQueue";
 import PeopleGPT from "@/components/PeopleGPT";
+import UsageLimits from "@/components/UsageLimits";
+import SkillTaxonomySettings from "@/components/SkillTaxonomySettings";
+import CustomFieldSettings from "@/components/CustomFieldSettings";
 import { useAuth } from "@/hooks/useAuth";
+import { useActiveParsingCount } from "@/hooks/useResumeRealtime";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/hooks/use-toast";
 import { useNavigate, useSearchParams } from "react-router-dom";
 
 const Dashboard = () => {
   const { user, signOut } = useAuth();
+  const activeParsingCount = useActiveParsingCount();
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const tabFromUrl = searchParams.get('tab');
@@ -119,6 +125,16 @@ const Dashboard = () => {
               </div>
             </div>
             <div className="flex items-center space-x-4">
+              {activeParsingCount > 0 && (
+                <button
+                  type="button"
+                  onClick={() => setActiveTab("resumes")}
+                  className="flex items-center space-x-2 px-3 py-1 rounded-full bg-yellow-50 text-yellow-800 text-sm"
+                >
+                  <div className="w-3 h-3 border-2 border-yellow-600 border-t-transparent rounded-full animate-spin" />
+                  <span>Parsing {activeParsingCount} resume{activeParsingCount === 1 ? '' : 's'}</span>
+                </button>
+              )}
               <div className="flex items-center space-x-2">
                 <User className="w-5 h-5 text-gray-600" />
                 <span className="text-sm text-gray-600">{user?.email}</span>
@@ -134,7 +150,7 @@ const Dashboard = () => {
       {/* Main Content */}
       <div className="container mx-auto px-6 py-8">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-6 bg-white/60 backdrop-blur-sm">
+          <TabsList className="grid w-full grid-cols-7 bg-white/60 backdrop-blur-sm">
             <TabsTrigger value="peoplegpt" className="flex items-center space-x-2">
               <Users className="w-4 h-4" />
               <span className="hidden sm:inline">PeopleGPT</span>
@@ -147,6 +163,10 @@ const Dashboard = () => {
               <FileText className="w-4 h-4" />
               <span className="hidden sm:inline">Resumes</span>
             </TabsTrigger>
+            <TabsTrigger value="review" className="flex items-center space-x-2">
+              <ClipboardCheck className="w-4 h-4" />
+              <span className="hidden sm:inline">Needs Review</span>
+            </TabsTrigger>
             <TabsTrigger value="search" className="flex items-center space-x-2">
               <Search className="w-4 h-4" />
               <span className="hidden sm:inline">Search</span>
@@ -177,6 +197,10 @@ const Dashboard = () => {
             <ResumeList />
           </TabsContent>
 
+          <TabsContent value="review">
+            <ReviewQueue />
+          </TabsContent>
+
           <TabsContent value="search">
             <TalentSearch />
           </TabsContent>
@@ -246,6 +270,15 @@ const Dashboard = () => {
                 </div>
               </CardContent>
             </Card>
+            <div className="mt-6">
+              <UsageLimits />
+            </div>
+            <div className="mt-6">
+              <SkillTaxonomySettings />
+            </div>
+            <div className="mt-6">
+              <CustomFieldSettings />
+            </div>
           </TabsContent>
         </Tabs>
       </div>
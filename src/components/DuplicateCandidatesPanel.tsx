@@ -0,0 +1,79 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Copy, GitMerge } from "lucide-react";
+import type { Tables } from "@/integrations/supabase/types";
+import { DedupeCandidate, DuplicateMatch, findDuplicates } from "@/lib/candidateDedupe";
+import MergeCandidatesDialog from "@/components/MergeCandidatesDialog";
+
+type CandidatePair = [Tables<"candidates">, Tables<"candidates">];
+
+interface DuplicateCandidatesPanelProps {
+  candidates: Tables<"candidates">[];
+  // Employers per candidate id, taken from their parsed resumes
+  employers: Record<string, string[]>;
+  onMerged?: () => void;
+}
+
+const DuplicateCandidatesPanel = ({ candidates, employers, onMerged }: DuplicateCandidatesPanelProps) => {
+  const [merging, setMerging] = useState<{ match: DuplicateMatch; pair: CandidatePair } | null>(null);
+
+  const matches = findDuplicates(candidates.map<DedupeCandidate>(candidate => ({
+    id: candidate.id,
+    full_name: candidate.full_name,
+    email: candidate.email,
+    phone: candidate.phone,
+    employers: employers[candidate.id] ?? [],
+  })));
+
+  if (matches.length === 0) return null;
+
+  const candidatesById = new Map(candidates.map(candidate => [candidate.id, candidate]));
+  const pairFor = (match: DuplicateMatch): CandidatePair =>
+    [candidatesById.get(match.a.id)!, candidatesById.get(match.b.id)!];
+
+  return (
+    <Card className="border-0 shadow-lg bg-white/60 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Copy className="w-5 h-5" />
+          <span>Possible Duplicates ({matches.length})</span>
+        </CardTitle>
+        <CardDescription>
+          These candidates look like the same person uploaded more than once.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {matches.map(match => (
+          <div key={`${match.a.id}:${match.b.id}`} className="flex flex-wrap justify-between items-center gap-2 p-3 rounded-lg bg-white/50 border">
+            <div className="space-y-1">
+              <p className="text-sm font-medium text-gray-800">
+                {match.a.full_name || match.a.email || 'Unnamed'} ↔ {match.b.full_name || match.b.email || 'Unnamed'}
+              </p>
+              <div className="flex flex-wrap gap-1">
+                <Badge className="bg-amber-100 text-amber-800">{match.score}% match</Badge>
+                {match.reasons.map(reason => (
+                  <Badge key={reason} variant="outline">{reason}</Badge>
+                ))}
+              </div>
+            </div>
+            <Button size="sm" variant="outline" onClick={() => setMerging({ match, pair: pairFor(match) })}>
+              <GitMerge className="w-4 h-4 mr-1" />
+              Review & merge
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+
+      <MergeCandidatesDialog
+        pair={merging?.pair ?? null}
+        reasons={merging?.match.reasons}
+        onOpenChange={(open) => !open && setMerging(null)}
+        onMerged={onMerged}
+      />
+    </Card>
+  );
+};
+
+export default DuplicateCandidatesPanel;
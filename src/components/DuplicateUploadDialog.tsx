@@ -0,0 +1,75 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Copy } from "lucide-react";
+
+export type DuplicateUploadDecision = "skip" | "replace" | "new_version";
+
+export interface DuplicateUploadPrompt {
+  fileName: string;
+  existingFileName: string;
+  existingUploadedAt: string;
+  existingVersion: number;
+}
+
+interface DuplicateUploadDialogProps {
+  prompt: DuplicateUploadPrompt | null;
+  onDecide: (decision: DuplicateUploadDecision, applyToAll: boolean) => void;
+}
+
+const DuplicateUploadDialog = ({ prompt, onDecide }: DuplicateUploadDialogProps) => {
+  const [applyToAll, setApplyToAll] = useState(false);
+
+  useEffect(() => {
+    if (prompt) setApplyToAll(false);
+  }, [prompt]);
+
+  return (
+    // Dismissing the dialog is the safe choice: nothing is stored or parsed
+    <Dialog open={!!prompt} onOpenChange={(open) => !open && onDecide("skip", false)}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Copy className="w-5 h-5" />
+            <span>File Already Uploaded</span>
+          </DialogTitle>
+          <DialogDescription>
+            {prompt && (
+              <>
+                <span className="font-medium text-gray-800">{prompt.fileName}</span> is identical to{" "}
+                <span className="font-medium text-gray-800">{prompt.existingFileName}</span>, uploaded{" "}
+                {new Date(prompt.existingUploadedAt).toLocaleDateString()}
+                {prompt.existingVersion > 1 && ` (version ${prompt.existingVersion})`}.
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 text-sm text-gray-600">
+          <p><span className="font-medium text-gray-800">Skip</span> leaves your library unchanged.</p>
+          <p><span className="font-medium text-gray-800">Replace</span> renames the existing upload and marks it as uploaded now, without parsing it again.</p>
+          <p><span className="font-medium text-gray-800">Keep as new version</span> adds another copy to the same candidate and parses it.</p>
+        </div>
+
+        <label className="flex items-center space-x-2 text-sm">
+          <Checkbox checked={applyToAll} onCheckedChange={(checked) => setApplyToAll(checked === true)} />
+          <span>Apply to all remaining duplicates in this upload</span>
+        </label>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onDecide("skip", applyToAll)}>Skip</Button>
+          <Button variant="outline" onClick={() => onDecide("replace", applyToAll)}>Replace</Button>
+          <Button
+            onClick={() => onDecide("new_version", applyToAll)}
+            className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+          >
+            Keep as new version
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DuplicateUploadDialog;
@@ -0,0 +1,156 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { GitMerge } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { toast } from "@/hooks/use-toast";
+
+type Candidate = Tables<"candidates">;
+type MergeField = "full_name" | "email" | "phone" | "location";
+type FieldChoice = "primary" | "duplicate";
+
+interface MergeCandidatesDialogProps {
+  pair: [Candidate, Candidate] | null;
+  reasons?: string[];
+  onOpenChange: (open: boolean) => void;
+  onMerged?: () => void;
+}
+
+const MERGE_FIELDS: { field: MergeField; label: string }[] = [
+  { field: "full_name", label: "Name" },
+  { field: "email", label: "Email" },
+  { field: "phone", label: "Phone" },
+  { field: "location", label: "Location" },
+];
+
+const MergeCandidatesDialog = ({ pair, reasons = [], onOpenChange, onMerged }: MergeCandidatesDialogProps) => {
+  const [primaryIndex, setPrimaryIndex] = useState<0 | 1>(0);
+  const [choices, setChoices] = useState<Record<MergeField, 0 | 1>>({ full_name: 0, email: 0, phone: 0, location: 0 });
+  const [merging, setMerging] = useState(false);
+
+  // Default every field to whichever side has a value, preferring the first candidate
+  useEffect(() => {
+    if (!pair) return;
+    setPrimaryIndex(0);
+    setChoices(Object.fromEntries(
+      MERGE_FIELDS.map(({ field }) => [field, !pair[0][field] && pair[1][field] ? 1 : 0])
+    ) as Record<MergeField, 0 | 1>);
+  }, [pair]);
+
+  const handleMerge = async () => {
+    if (!pair) return;
+    const primary = pair[primaryIndex];
+    const duplicate = pair[primaryIndex === 0 ? 1 : 0];
+
+    // Choices are stored per side (0/1); the RPC wants them relative to the primary
+    const fieldChoices = Object.fromEntries(
+      MERGE_FIELDS.map(({ field }) => [field, (choices[field] === primaryIndex ? 'primary' : 'duplicate') as FieldChoice])
+    );
+
+    setMerging(true);
+    try {
+      const { error } = await supabase.rpc('merge_candidates', {
+        primary_id: primary.id,
+        duplicate_id: duplicate.id,
+        field_choices: fieldChoices,
+      });
+
+      if (error) {
+        console.error('Error merging candidates:', error);
+        toast({
+          title: "Merge failed",
+          description: error.message,
+          variant: "destructive"
+        });
+        return;
+      }
+
+      toast({
+        title: "Candidates merged",
+        description: "Documents, notes and history were consolidated into one candidate.",
+      });
+      onMerged?.();
+      onOpenChange(false);
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!pair} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Merge Candidates</DialogTitle>
+          <DialogDescription>
+            Pick the value to keep for each field. All documents and notes move to the kept candidate.
+          </DialogDescription>
+        </DialogHeader>
+
+        {pair && (
+          <div className="space-y-4">
+            {reasons.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {reasons.map(reason => (
+                  <Badge key={reason} variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">{reason}</Badge>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-[7rem_1fr_1fr] gap-3 items-center text-sm">
+              <span className="font-medium text-gray-700">Keep record</span>
+              <RadioGroup
+                value={String(primaryIndex)}
+                onValueChange={(value) => setPrimaryIndex(Number(value) as 0 | 1)}
+                className="contents"
+              >
+                {[0, 1].map(index => (
+                  <label key={index} className="flex items-center space-x-2">
+                    <RadioGroupItem value={String(index)} />
+                    <span>{index === 0 ? 'First' : 'Second'} candidate</span>
+                  </label>
+                ))}
+              </RadioGroup>
+
+              {MERGE_FIELDS.map(({ field, label }) => (
+                <div key={field} className="contents">
+                  <span className="font-medium text-gray-700">{label}</span>
+                  <RadioGroup
+                    value={String(choices[field])}
+                    onValueChange={(value) => setChoices(prev => ({ ...prev, [field]: Number(value) as 0 | 1 }))}
+                    className="contents"
+                  >
+                    {pair.map((candidate, index) => (
+                      <label key={candidate.id} className="flex items-center space-x-2 p-2 rounded-lg bg-white/50 border">
+                        <RadioGroupItem value={String(index)} />
+                        <span className={candidate[field] ? 'text-gray-800 break-all' : 'text-gray-400'}>
+                          {candidate[field] || '—'}
+                        </span>
+                      </label>
+                    ))}
+                  </RadioGroup>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={handleMerge}
+            disabled={merging}
+            className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+          >
+            <GitMerge className="w-4 h-4 mr-2" />
+            {merging ? "Merging..." : "Merge"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MergeCandidatesDialog;
@@ -0,0 +1,175 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { toast } from "@/hooks/use-toast";
+import { Candidate, normalizeCandidate, PROFICIENCY_LABELS } from "@/types/candidate";
+
+type ParseVersion = Tables<"parsed_resume_versions">;
+
+interface ParseVersionsDialogProps {
+  resumeId: string | null;
+  fileName?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Each candidate field rendered as a list of lines, so lists can be diffed entry by entry
+const DIFF_ROWS: { label: string; lines: (candidate: Candidate) => string[] }[] = [
+  { label: "Name", lines: (c) => (c.full_name ? [c.full_name] : []) },
+  { label: "Email", lines: (c) => (c.email ? [c.email] : []) },
+  { label: "Phone", lines: (c) => (c.phone ? [c.phone] : []) },
+  { label: "Location", lines: (c) => (c.location ? [c.location] : []) },
+  { label: "Skills", lines: (c) => c.skills },
+  { label: "Skill levels", lines: (c) => c.skill_levels.map(({ skill, level }) => `${skill}: ${PROFICIENCY_LABELS[level]}`) },
+  {
+    label: "Experience",
+    lines: (c) => c.experience.map(exp =>
+      [exp.title, exp.company].filter(Boolean).join(' at ') + (exp.duration ? ` (${exp.duration})` : '')
+    ),
+  },
+  {
+    label: "Education",
+    lines: (c) => c.education.map(edu => [edu.degree, edu.field, edu.institution, edu.year].filter(Boolean).join(', ')),
+  },
+  { label: "Links", lines: (c) => c.links.map(link => link.url) },
+  { label: "Certifications", lines: (c) => c.certifications.map(cert => [cert.name, cert.issuer].filter(Boolean).join(' — ')) },
+  { label: "Publications", lines: (c) => c.publications.map(pub => [pub.title, pub.venue, pub.year].filter(Boolean).join(', ')) },
+  { label: "Projects", lines: (c) => c.projects.map(project => [project.name, project.technologies.join(', ')].filter(Boolean).join(' — ')) },
+  { label: "Languages", lines: (c) => c.languages.map(lang => [lang.language, lang.proficiency].filter(Boolean).join(' — ')) },
+];
+
+const describeVersion = (version: ParseVersion) =>
+  `v${version.version} · ${new Date(version.created_at).toLocaleString()}`;
+
+const ParseVersionsDialog = ({ resumeId, fileName, open, onOpenChange }: ParseVersionsDialogProps) => {
+  const [versions, setVersions] = useState<ParseVersion[]>([]);
+  const [leftId, setLeftId] = useState<string>("");
+  const [rightId, setRightId] = useState<string>("");
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (open && resumeId) {
+      fetchVersions(resumeId);
+    }
+  }, [open, resumeId]);
+
+  const fetchVersions = async (id: string) => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('parsed_resume_versions')
+        .select('*')
+        .eq('resume_id', id)
+        .order('version', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching parse versions:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load parse history.",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      const history = data || [];
+      setVersions(history);
+      // Compare the latest parse against the one before it by default
+      setRightId(history[0]?.id ?? "");
+      setLeftId(history[1]?.id ?? history[0]?.id ?? "");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const left = versions.find(version => version.id === leftId);
+  const right = versions.find(version => version.id === rightId);
+  const leftCandidate = left ? normalizeCandidate(left.candidate) : null;
+  const rightCandidate = right ? normalizeCandidate(right.candidate) : null;
+
+  const renderVersionPicker = (value: string, onChange: (id: string) => void, version?: ParseVersion) => (
+    <div className="space-y-2">
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger>
+          <SelectValue placeholder="Select a version" />
+        </SelectTrigger>
+        <SelectContent>
+          {versions.map(option => (
+            <SelectItem key={option.id} value={option.id}>{describeVersion(option)}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {version && (
+        <div className="flex flex-wrap gap-1">
+          <Badge variant="outline">{version.provider ?? 'unknown parser'}</Badge>
+          {version.model && <Badge variant="outline">{version.model}</Badge>}
+          {version.prompt_version && <Badge variant="outline">prompt {version.prompt_version}</Badge>}
+          {version.extraction_method && <Badge variant="outline">{version.extraction_method}</Badge>}
+        </div>
+      )}
+    </div>
+  );
+
+  const renderLines = (lines: string[], otherLines: string[], changedClass: string) => (
+    lines.length === 0 ? (
+      <span className="text-gray-400">—</span>
+    ) : (
+      <ul className="space-y-1">
+        {lines.map((line, index) => (
+          <li key={index} className={otherLines.includes(line) ? '' : changedClass}>{line}</li>
+        ))}
+      </ul>
+    )
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Parse History{fileName ? ` — ${fileName}` : ''}</DialogTitle>
+          <DialogDescription>
+            Compare two parses of the same file side by side. Differences are highlighted.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="p-8 text-center">
+            <div className="w-8 h-8 border-2 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto mb-4" />
+            <p className="text-gray-600">Loading parse history...</p>
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-gray-600 text-center py-6">This resume has not been parsed yet.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-[8rem_1fr_1fr] gap-4 items-start">
+              <div />
+              {renderVersionPicker(leftId, setLeftId, left)}
+              {renderVersionPicker(rightId, setRightId, right)}
+            </div>
+
+            {leftCandidate && rightCandidate && DIFF_ROWS.map(({ label, lines }) => {
+              const leftLines = lines(leftCandidate);
+              const rightLines = lines(rightCandidate);
+              const changed = JSON.stringify(leftLines) !== JSON.stringify(rightLines);
+              return (
+                <div
+                  key={label}
+                  className={`grid grid-cols-[8rem_1fr_1fr] gap-4 p-3 rounded-lg text-sm ${changed ? 'bg-amber-50' : 'bg-white/50'}`}
+                >
+                  <span className="font-medium text-gray-700">{label}</span>
+                  <div className="break-words">{renderLines(leftLines, rightLines, 'text-red-600 line-through')}</div>
+                  <div className="break-words">{renderLines(rightLines, leftLines, 'text-green-700 font-medium')}</div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ParseVersionsDialog;
@@ -0,0 +1,613 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2, History, RotateCcw, Save } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables, TablesUpdate } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { toast } from "@/hooks/use-toast";
+import { CustomFieldDefinitionRow, useCustomFields } from "@/hooks/useCustomFields";
+import { coerceCustomFields } from "@/lib/customFields";
+import {
+  Candidate,
+  CONFIDENCE_FIELDS,
+  Certification,
+  ConfidenceField,
+  Education,
+  Experience,
+  FieldConfidenceMap,
+  Language,
+  Project,
+  fromParsedDetailsColumns,
+  getFlaggedFields,
+  normalizeCandidate,
+  readFieldConfidence,
+  readSecurityFlags,
+  ReviewStatus,
+  toParsedDetailsColumns,
+} from "@/types/candidate";
+
+type Revision = Tables<"parsed_resume_detail_revisions">;
+type DetailsUpdate = TablesUpdate<"parsed_resume_details">;
+
+interface ParsedDetailsEditorProps {
+  parsedDetailId: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: (candidate: Candidate, reviewStatus: ReviewStatus) => void;
+}
+
+interface DetailsDraft {
+  full_name: string;
+  email: string;
+  phone: string;
+  location: string;
+  skills: string;
+  links: string;
+  experience: Experience[];
+  education: Education[];
+  certifications: Certification[];
+  projects: Project[];
+  languages: Language[];
+  custom_fields: Record<string, string>; // edited as text, typed again on save
+}
+
+type EntryList = 'experience' | 'education' | 'certifications' | 'projects' | 'languages';
+
+// Columns tracked in parsed_resume_detail_revisions, with their display labels
+const COLUMN_LABELS: Record<string, string> = {
+  full_name: "Name",
+  email: "Email",
+  phone: "Phone",
+  location: "Location",
+  skills_json: "Skills",
+  experience_json: "Experience",
+  education_json: "Education",
+  links_json: "Links",
+  certifications_json: "Certifications",
+  publications_json: "Publications",
+  skill_levels_json: "Skill levels",
+  projects_json: "Projects",
+  languages_json: "Languages",
+  custom_fields: "Custom fields",
+};
+
+const EMPTY_EXPERIENCE: Experience = {
+  title: null, company: null, location: null, start_date: null, end_date: null, duration: null, description: null, skills: []
+};
+const EMPTY_EDUCATION: Education = { degree: null, field: null, institution: null, year: null, grade: null };
+const EMPTY_CERTIFICATION: Certification = { name: null, issuer: null, year: null };
+const EMPTY_PROJECT: Project = { name: null, description: null, url: null, technologies: [], year: null };
+const EMPTY_LANGUAGE: Language = { language: null, proficiency: null };
+
+const NOT_STATED = "not_stated";
+
+const storedCustomFields = (value: Json): Record<string, Json> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, Json> : {};
+
+const toDraft = (candidate: Candidate, customFields: Json): DetailsDraft => ({
+  full_name: candidate.full_name ?? "",
+  email: candidate.email ?? "",
+  phone: candidate.phone ?? "",
+  location: candidate.location ?? "",
+  skills: candidate.skills.join(", "),
+  links: candidate.links.map(link => link.url).join("\n"),
+  experience: candidate.experience,
+  education: candidate.education,
+  certifications: candidate.certifications,
+  projects: candidate.projects,
+  languages: candidate.languages,
+  custom_fields: Object.fromEntries(
+    Object.entries(storedCustomFields(customFields)).map(([key, value]) => [
+      key,
+      value === null ? '' : Array.isArray(value) ? value.join(',') : String(value),
+    ])
+  ),
+});
+
+const entryValue = (entry: object, key: string) => {
+  const value = (entry as Record<string, string | string[] | null>)[key];
+  return Array.isArray(value) ? value.join(',') : value ?? '';
+};
+
+// Column names in the revisions table map onto candidate fields by dropping the _json suffix
+const confidenceFieldForColumn = (column: string) => {
+  const field = column.replace(/_json$/, '');
+  return (CONFIDENCE_FIELDS as readonly string[]).includes(field) ? field as ConfidenceField : null;
+};
+
+const summarizeValue = (value: Json | undefined): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return `${value.length} item(s)`;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const ParsedDetailsEditor = ({ parsedDetailId, open, onOpenChange, onSaved }: ParsedDetailsEditorProps) => {
+  const { user } = useAuth();
+  const { definitions: customFieldDefinitions } = useCustomFields();
+  const [row, setRow] = useState<Tables<"parsed_resume_details"> | null>(null);
+  const [draft, setDraft] = useState<DetailsDraft | null>(null);
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open && parsedDetailId) {
+      loadDetails(parsedDetailId);
+    }
+  }, [open, parsedDetailId]);
+
+  const loadDetails = async (id: string) => {
+    try {
+      setLoading(true);
+      const { data: details, error: detailsError } = await supabase
+        .from('parsed_resume_details')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (detailsError || !details) {
+        console.error('Error loading parsed details:', detailsError);
+        toast({
+          title: "Error",
+          description: "Could not load the parsed details for editing.",
+          variant: "destructive"
+        });
+        onOpenChange(false);
+        return;
+      }
+
+      setRow(details);
+      setDraft(toDraft(fromParsedDetailsColumns(details), details.custom_fields));
+      await loadRevisions(id);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Writes the given columns and marks the touched candidate fields as manually confirmed
+  const saveColumns = async (columns: DetailsUpdate, touched: ConfidenceField[]) => {
+    if (!row || !user) return false;
+
+    const confidence: FieldConfidenceMap = { ...readFieldConfidence(row.field_confidence) };
+    touched.forEach(field => {
+      confidence[field] = { confidence: 1, source: 'manual' };
+    });
+
+    const candidate = fromParsedDetailsColumns({ ...row, ...columns });
+    // Suspicious content needs an explicit confirmation in the review queue
+    const resolvesReview = row.review_status === 'pending'
+      && getFlaggedFields(candidate, confidence).length === 0
+      && readSecurityFlags(row.security_flags).length === 0;
+
+    const { data, error } = await supabase
+      .from('parsed_resume_details')
+      .update({
+        ...columns,
+        field_confidence: confidence,
+        ...(resolvesReview ? { review_status: 'confirmed' as const, reviewed_at: new Date().toISOString(), reviewed_by: user.id } : {}),
+      })
+      .eq('id', row.id)
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      console.error('Error saving parsed details:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save changes. Please try again.",
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    setRow(data);
+    setDraft(toDraft(fromParsedDetailsColumns(data), data.custom_fields));
+    onSaved?.(fromParsedDetailsColumns(data), data.review_status);
+    await loadRevisions(data.id);
+    return true;
+  };
+
+  const loadRevisions = async (id: string) => {
+    const { data, error } = await supabase
+      .from('parsed_resume_detail_revisions')
+      .select('*')
+      .eq('parsed_detail_id', id)
+      .order('changed_at', { ascending: false });
+    if (error) {
+      console.error('Error loading revision history:', error);
+      return;
+    }
+    setRevisions(data || []);
+  };
+
+  const handleSave = async () => {
+    if (!row || !draft) return;
+
+    const original = fromParsedDetailsColumns(row);
+    const existingLinks = new Map(original.links.map(link => [link.url, link]));
+    const candidate = normalizeCandidate({
+      full_name: draft.full_name,
+      email: draft.email,
+      phone: draft.phone,
+      location: draft.location,
+      skills: draft.skills.split(',').map(skill => skill.trim()),
+      links: draft.links.split('\n').map(url => url.trim()).filter(Boolean).map(url => existingLinks.get(url) ?? url),
+      experience: draft.experience,
+      education: draft.education,
+      certifications: draft.certifications,
+      projects: draft.projects,
+      languages: draft.languages,
+      // Not editable here; kept as parsed
+      publications: original.publications,
+      skill_levels: original.skill_levels,
+    });
+
+    if (draft.email.trim() && !candidate.email) {
+      toast({
+        title: "Invalid email",
+        description: "Please enter a valid email address or leave it empty.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const touched = CONFIDENCE_FIELDS.filter(field =>
+      JSON.stringify(candidate[field]) !== JSON.stringify(original[field])
+    );
+
+    setSaving(true);
+    try {
+      const saved = await saveColumns({
+        ...toParsedDetailsColumns(candidate),
+        // Values of fields deleted since the parse are kept as they were
+        custom_fields: {
+          ...storedCustomFields(row.custom_fields),
+          ...coerceCustomFields(draft.custom_fields, customFieldDefinitions),
+        },
+      }, touched);
+      if (saved) {
+        toast({
+          title: "Changes saved",
+          description: "The parsed details have been updated.",
+        });
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevert = async (revision: Revision) => {
+    const oldValues = revision.old_values as Record<string, Json>;
+    const columns: DetailsUpdate = Object.fromEntries(
+      Object.entries(oldValues).filter(([column]) => column in COLUMN_LABELS)
+    );
+    const touched = Object.keys(columns)
+      .map(confidenceFieldForColumn)
+      .filter((field): field is ConfidenceField => !!field);
+
+    setSaving(true);
+    try {
+      const saved = await saveColumns(columns, touched);
+      if (saved) {
+        toast({
+          title: "Change reverted",
+          description: `Restored ${revision.changed_fields.map(column => COLUMN_LABELS[column] ?? column).join(', ')}.`,
+        });
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateDraft = <K extends keyof DetailsDraft>(field: K, value: DetailsDraft[K]) => {
+    setDraft(prev => (prev ? { ...prev, [field]: value } : prev));
+  };
+
+  const updateEntry = <K extends EntryList>(
+    list: K,
+    index: number,
+    key: string,
+    value: string
+  ) => {
+    if (!draft) return;
+    const entries = draft[list].map((entry, i) => {
+      if (i !== index) return entry;
+      // List fields such as the skills used in a role are edited as comma-separated text
+      const isList = Array.isArray((entry as Record<string, unknown>)[key]);
+      return { ...entry, [key]: isList ? value.split(',') : value };
+    });
+    updateDraft(list, entries as DetailsDraft[K]);
+  };
+
+  const removeEntry = <K extends EntryList>(list: K, index: number) => {
+    if (!draft) return;
+    updateDraft(list, draft[list].filter((_, i) => i !== index) as DetailsDraft[K]);
+  };
+
+  const updateCustomField = (key: string, value: string) => {
+    setDraft(prev => (prev ? { ...prev, custom_fields: { ...prev.custom_fields, [key]: value } } : prev));
+  };
+
+  const renderCustomField = (definition: CustomFieldDefinitionRow) => {
+    const value = draft?.custom_fields[definition.key] ?? '';
+    const options = definition.field_type === 'boolean' ? ['true', 'false'] : definition.allowed_values;
+
+    switch (definition.field_type) {
+      case 'select':
+      case 'boolean':
+        return (
+          <Select
+            value={value || NOT_STATED}
+            onValueChange={(selected) => updateCustomField(definition.key, selected === NOT_STATED ? '' : selected)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NOT_STATED}>Not stated</SelectItem>
+              {options.map(option => (
+                <SelectItem key={option} value={option}>
+                  {definition.field_type === 'boolean' ? (option === 'true' ? 'Yes' : 'No') : option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'multi_select': {
+        const selected = value.split(',').filter(Boolean);
+        return (
+          <div className="flex flex-wrap gap-3 pt-1">
+            {definition.allowed_values.map(option => (
+              <label key={option} className="flex items-center space-x-2 text-sm">
+                <Checkbox
+                  checked={selected.includes(option)}
+                  onCheckedChange={(checked) => updateCustomField(
+                    definition.key,
+                    (checked ? [...selected, option] : selected.filter(entry => entry !== option)).join(',')
+                  )}
+                />
+                <span>{option}</span>
+              </label>
+            ))}
+          </div>
+        );
+      }
+      default:
+        return (
+          <Input
+            type={definition.field_type === 'number' ? 'number' : definition.field_type === 'date' ? 'date' : 'text'}
+            value={value}
+            onChange={(e) => updateCustomField(definition.key, e.target.value)}
+            placeholder={definition.description ?? undefined}
+          />
+        );
+    }
+  };
+
+  const describeAuthor = (revision: Revision) => {
+    if (!revision.changed_by) return 'Parser';
+    return revision.changed_by === user?.id ? 'You' : 'Teammate';
+  };
+
+  const renderEntryFields = <K extends EntryList>(
+    list: K,
+    fields: { key: string; label: string }[],
+    empty: DetailsDraft[K][number],
+    title: string
+  ) => (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium">{title}</h4>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => draft && updateDraft(list, [...draft[list], empty] as DetailsDraft[K])}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add
+        </Button>
+      </div>
+      {draft?.[list].map((entry, index) => (
+        <div key={index} className="p-3 border rounded-lg space-y-2 bg-white/50">
+          <div className="grid md:grid-cols-2 gap-2">
+            {fields.map(({ key, label }) => (
+              key === 'description' ? (
+                <Textarea
+                  key={key}
+                  className="md:col-span-2"
+                  placeholder={label}
+                  value={entryValue(entry, key)}
+                  onChange={(e) => updateEntry(list, index, key, e.target.value)}
+                />
+              ) : (
+                <Input
+                  key={key}
+                  placeholder={label}
+                  value={entryValue(entry, key)}
+                  onChange={(e) => updateEntry(list, index, key, e.target.value)}
+                />
+              )
+            ))}
+          </div>
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => removeEntry(list, index)}
+              className="text-red-600 border-red-200 hover:bg-red-50"
+            >
+              <Trash2 className="w-4 h-4 mr-1" />
+              Remove
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Parsed Details</DialogTitle>
+          <DialogDescription>
+            Correct anything the parser got wrong. Every change is kept in the history and can be reverted.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || !draft ? (
+          <div className="p-8 text-center">
+            <div className="w-8 h-8 border-2 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto mb-4" />
+            <p className="text-gray-600">Loading details...</p>
+          </div>
+        ) : (
+          <Tabs defaultValue="details" className="space-y-4">
+            <TabsList>
+              <TabsTrigger value="details">Details</TabsTrigger>
+              <TabsTrigger value="history" className="flex items-center space-x-1">
+                <History className="w-4 h-4" />
+                <span>History ({revisions.length})</span>
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="details" className="space-y-6">
+              <div className="grid md:grid-cols-2 gap-4">
+                {(['full_name', 'email', 'phone', 'location'] as const).map(field => (
+                  <div key={field} className="space-y-1">
+                    <label className="text-sm font-medium">{COLUMN_LABELS[field]}</label>
+                    <Input value={draft[field]} onChange={(e) => updateDraft(field, e.target.value)} />
+                  </div>
+                ))}
+                <div className="space-y-1 md:col-span-2">
+                  <label className="text-sm font-medium">Skills</label>
+                  <Textarea
+                    value={draft.skills}
+                    onChange={(e) => updateDraft('skills', e.target.value)}
+                    placeholder="Comma-separated skills"
+                  />
+                </div>
+                <div className="space-y-1 md:col-span-2">
+                  <label className="text-sm font-medium">Links</label>
+                  <Textarea
+                    value={draft.links}
+                    onChange={(e) => updateDraft('links', e.target.value)}
+                    placeholder="One URL per line"
+                  />
+                </div>
+              </div>
+
+              {renderEntryFields('experience', [
+                { key: 'title', label: 'Title' },
+                { key: 'company', label: 'Company' },
+                { key: 'location', label: 'Location' },
+                { key: 'duration', label: 'Duration' },
+                { key: 'start_date', label: 'Start (YYYY-MM)' },
+                { key: 'end_date', label: 'End (YYYY-MM, empty if current)' },
+                { key: 'skills', label: 'Skills used (comma-separated)' },
+                { key: 'description', label: 'Description' },
+              ], EMPTY_EXPERIENCE, 'Experience')}
+
+              {renderEntryFields('education', [
+                { key: 'degree', label: 'Degree' },
+                { key: 'field', label: 'Field of study' },
+                { key: 'institution', label: 'Institution' },
+                { key: 'year', label: 'Year' },
+                { key: 'grade', label: 'Grade' },
+              ], EMPTY_EDUCATION, 'Education')}
+
+              {renderEntryFields('certifications', [
+                { key: 'name', label: 'Name' },
+                { key: 'issuer', label: 'Issuer' },
+                { key: 'year', label: 'Year' },
+              ], EMPTY_CERTIFICATION, 'Certifications')}
+
+              {renderEntryFields('projects', [
+                { key: 'name', label: 'Name' },
+                { key: 'url', label: 'URL' },
+                { key: 'year', label: 'Year' },
+                { key: 'technologies', label: 'Technologies (comma-separated)' },
+                { key: 'description', label: 'Description' },
+              ], EMPTY_PROJECT, 'Projects')}
+
+              {renderEntryFields('languages', [
+                { key: 'language', label: 'Language' },
+                { key: 'proficiency', label: 'Proficiency, e.g. Native or B2' },
+              ], EMPTY_LANGUAGE, 'Languages')}
+
+              {customFieldDefinitions.length > 0 && (
+                <div className="space-y-3">
+                  <h4 className="text-sm font-medium">Custom fields</h4>
+                  <div className="grid md:grid-cols-2 gap-4">
+                    {customFieldDefinitions.map(definition => (
+                      <div key={definition.id} className="space-y-1">
+                        <label className="text-sm font-medium" title={definition.description ?? undefined}>
+                          {definition.name}
+                        </label>
+                        {renderCustomField(definition)}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <DialogFooter>
+                <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+                <Button
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+                >
+                  <Save className="w-4 h-4 mr-2" />
+                  {saving ? "Saving..." : "Save Changes"}
+                </Button>
+              </DialogFooter>
+            </TabsContent>
+
+            <TabsContent value="history" className="space-y-3">
+              {revisions.length === 0 && (
+                <p className="text-sm text-gray-600 text-center py-6">No changes have been made yet.</p>
+              )}
+              {revisions.map(revision => {
+                const oldValues = revision.old_values as Record<string, Json>;
+                const newValues = revision.new_values as Record<string, Json>;
+                return (
+                  <div key={revision.id} className="p-3 border rounded-lg bg-white/50 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <div className="text-sm text-gray-600">
+                        <span className="font-medium text-gray-800">{describeAuthor(revision)}</span>
+                        {' · '}
+                        {new Date(revision.changed_at).toLocaleString()}
+                      </div>
+                      <Button size="sm" variant="outline" disabled={saving} onClick={() => handleRevert(revision)}>
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        Revert
+                      </Button>
+                    </div>
+                    {revision.changed_fields.map(column => (
+                      <div key={column} className="flex flex-wrap items-center gap-2 text-sm">
+                        <Badge variant="outline">{COLUMN_LABELS[column] ?? column}</Badge>
+                        <span className="text-red-600 line-through break-all">{summarizeValue(oldValues[column])}</span>
+                        <span className="text-gray-400">→</span>
+                        <span className="text-green-700 break-all">{summarizeValue(newValues[column])}</span>
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ParsedDetailsEditor;
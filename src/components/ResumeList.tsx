@@ -3,33 +3,111 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
-import { FileText, User, MapPin, Briefcase, Mail, Search, Eye, Trash2, Send } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { FileText, User, MapPin, Briefcase, Mail, Search, Eye, Trash2, Send, Pencil, RefreshCw, GitCompare, Paperclip, StickyNote, AlertTriangle, ShieldAlert } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { toast } from "@/hooks/use-toast";
+import { useResumeParser } from "@/hooks/useResumeParser";
+import ParsedDetailsEditor from "@/components/ParsedDetailsEditor";
+import ParseVersionsDialog from "@/components/ParseVersionsDialog";
+import AttachDocumentDialog from "@/components/AttachDocumentDialog";
+import DuplicateCandidatesPanel from "@/components/DuplicateCandidatesPanel";
+import CandidateNotes from "@/components/CandidateNotes";
+import CandidateProfileDetails from "@/components/CandidateProfileDetails";
+import type { Tables } from "@/integrations/supabase/types";
+import {
+  Candidate,
+  describeSecurityFlag,
+  Experience,
+  formatTenure,
+  fromParsedDetailsColumns,
+  hasDatedExperience,
+  readSecurityFlags,
+  ReviewStatus,
+  SecurityFlag,
+  totalExperienceMonths,
+} from "@/types/candidate";
+import {
+  isParsingActive,
+  isParsingFailed,
+  PARSE_ERROR_HINTS,
+  PARSE_ERROR_LABELS,
+  ParseErrorCode,
+  PARSING_STATUS_BADGE_CLASSES,
+  PARSING_STATUS_LABELS,
+  ParsingStatus,
+} from "@/lib/parsingStatus";
+import { DOCUMENT_TYPE_LABELS, DocumentType } from "@/lib/documentTypes";
+import { useDebouncedCallback, useResumeRealtime } from "@/hooks/useResumeRealtime";
 
 interface ResumeWithDetails {
   id: string;
   file_name: string;
   file_size: number | null;
   uploaded_at: string;
-  parsing_status: string | null;
+  parsing_status: ParsingStatus | null;
   supabase_storage_path?: string | null;
-  parsed_details?: {
-    full_name: string | null;
-    email: string | null;
-    phone: string | null;
-    location: string | null;
-    skills_json: any;
-    experience_json: any;
-  };
+  candidate_id: string | null;
+  document_type: DocumentType;
+  content_version: number;
+  rejection_reason: string | null;
+  parsing_error: string | null;
+  parsing_error_code: ParseErrorCode | null;
+  parsed_detail_id?: string;
+  parsed_details?: Candidate;
+  parse_warnings: string[];
+  security_flags: SecurityFlag[];
+  ocr_confidence: number | null;
+  needs_review: boolean;
+}
+
+// A candidate with all of their documents. Files not linked to a candidate yet
+// (still being parsed) are shown as a group of their own.
+interface CandidateGroup {
+  key: string;
+  candidate: Tables<"candidates"> | null;
+  latest?: ResumeWithDetails;
+  documents: ResumeWithDetails[];
 }
 
+const groupByCandidate = (resumes: ResumeWithDetails[], candidates: Tables<"candidates">[]): CandidateGroup[] => {
+  const candidatesById = new Map(candidates.map(candidate => [candidate.id, candidate]));
+  const groups = new Map<string, CandidateGroup>();
+
+  // resumes arrive newest first, so groups end up ordered by their most recent upload
+  resumes.forEach(resume => {
+    const key = resume.candidate_id ?? resume.id;
+    const group = groups.get(key) ?? {
+      key,
+      candidate: resume.candidate_id ? candidatesById.get(resume.candidate_id) ?? null : null,
+      documents: [],
+    };
+    group.documents.push(resume);
+    groups.set(key, group);
+  });
+
+  groups.forEach(group => {
+    group.latest = group.documents.find(document => document.id === group.candidate?.latest_resume_id)
+      ?? group.documents.find(document => document.document_type === 'resume');
+  });
+
+  return [...groups.values()];
+};
+
 const ResumeList = () => {
   const { user } = useAuth();
   const [searchTerm, setSearchTerm] = useState("");
   const [resumes, setResumes] = useState<ResumeWithDetails[]>([]);
+  const [candidates, setCandidates] = useState<Tables<"candidates">[]>([]);
   const [loading, setLoading] = useState(true);
+  const [editingResumeId, setEditingResumeId] = useState<string | null>(null);
+  const [historyResumeId, setHistoryResumeId] = useState<string | null>(null);
+  const [attachingGroup, setAttachingGroup] = useState<CandidateGroup | null>(null);
+  const [notesCandidateId, setNotesCandidateId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [reparsing, setReparsing] = useState(false);
+  const { enqueueParsing } = useResumeParser();
 
   useEffect(() => {
     if (user) {
@@ -37,28 +115,51 @@ const ResumeList = () => {
     }
   }, [user]);
 
-  const fetchResumes = async () => {
+  // Realtime refreshes run in the background, keeping the list on screen
+  const refreshResumes = useDebouncedCallback(() => fetchResumes({ background: true }));
+  useResumeRealtime(() => refreshResumes());
+
+  const fetchResumes = async ({ background = false } = {}) => {
     if (!user) {
       setLoading(false);
       return;
     }
 
     try {
-      setLoading(true);
+      if (!background) setLoading(true);
       console.log('Fetching resumes for user:', user.id);
       
+      const { data: candidatesData, error: candidatesError } = await supabase
+        .from('candidates')
+        .select('*')
+        .eq('user_id', user.id);
+
+      if (candidatesError) {
+        console.error('Error fetching candidates:', candidatesError);
+      }
+
       // Fetch resumes with their parsed details
       const { data: resumesData, error: resumesError } = await supabase
         .from('resumes')
         .select(`
           *,
           parsed_resume_details (
+            id,
             full_name,
             email,
             phone,
             location,
             skills_json,
-            experience_json
+            experience_json,
+            links_json,
+            certifications_json,
+            projects_json,
+            languages_json,
+            publications_json,
+            review_status,
+            parse_warnings,
+            security_flags,
+            ocr_confidence
           )
         `)
         .eq('user_id', user.id)
@@ -84,10 +185,24 @@ const ResumeList = () => {
         uploaded_at: resume.uploaded_at,
         parsing_status: resume.parsing_status,
         supabase_storage_path: resume.supabase_storage_path,
-        parsed_details: resume.parsed_resume_details?.[0] || undefined
+        candidate_id: resume.candidate_id,
+        document_type: resume.document_type,
+        content_version: resume.content_version,
+        rejection_reason: resume.rejection_reason,
+        parsing_error: resume.parsing_error,
+        parsing_error_code: resume.parsing_error_code,
+        parsed_detail_id: resume.parsed_resume_details?.id,
+        parsed_details: resume.parsed_resume_details
+          ? fromParsedDetailsColumns(resume.parsed_resume_details)
+          : undefined,
+        parse_warnings: resume.parsed_resume_details?.parse_warnings ?? [],
+        security_flags: readSecurityFlags(resume.parsed_resume_details?.security_flags),
+        ocr_confidence: resume.parsed_resume_details?.ocr_confidence ?? null,
+        needs_review: resume.parsed_resume_details?.review_status === 'pending'
       })) || [];
 
       setResumes(transformedResumes);
+      setCandidates(candidatesData || []);
       console.log('Transformed resumes:', transformedResumes);
     } catch (error) {
       console.error('Error in fetchResumes:', error);
@@ -179,9 +294,9 @@ const ResumeList = () => {
     }
   };
 
-  const handleOutreach = (resume: ResumeWithDetails) => {
-    const email = resume.parsed_details?.email;
-    const candidateName = resume.parsed_details?.full_name;
+  const handleOutreach = (group: CandidateGroup) => {
+    const email = getEmail(group);
+    const candidateName = getName(group);
 
     if (!email) {
       toast({
@@ -213,20 +328,108 @@ Best regards,
     });
   };
 
-  const filteredResumes = resumes.filter(resume => {
+  const toggleSelected = (groupKey: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(groupKey); else next.delete(groupKey);
+      return next;
+    });
+  };
+
+  // Re-parsing a candidate re-parses every resume attached to them
+  const resumeIdsOf = (groupKeys: string[]) =>
+    groups
+      .filter(group => groupKeys.includes(group.key))
+      .flatMap(group => group.documents.filter(document => document.document_type === 'resume'))
+      .map(document => document.id);
+
+  const failedResumeIds = resumes
+    .filter(resume => resume.document_type === 'resume' && isParsingFailed(resume.parsing_status))
+    .map(resume => resume.id);
+
+  const handleReparse = async (resumeIds: string[]) => {
+    const idsToParse = resumeIds.filter(id => !isParsingActive(resumes.find(resume => resume.id === id)?.parsing_status ?? null));
+    if (idsToParse.length === 0) return;
+
+    setReparsing(true);
+    try {
+      const queued = await enqueueParsing(idsToParse);
+      if (!queued) return;
+
+      // The parse_jobs trigger flips resumes.parsing_status; mirror it locally
+      setResumes(prev => prev.map(resume =>
+        idsToParse.includes(resume.id) ? { ...resume, parsing_status: 'queued' } : resume
+      ));
+      setSelectedIds(new Set());
+      toast({
+        title: "Re-parse queued",
+        description: `${idsToParse.length} resume(s) will be parsed again. Previous results are kept in the parse history.`,
+      });
+    } finally {
+      setReparsing(false);
+    }
+  };
+
+  const handleDetailsSaved = (candidate: Candidate, reviewStatus: ReviewStatus) => {
+    setResumes(prev => prev.map(resume =>
+      resume.id === editingResumeId
+        ? { ...resume, parsed_details: candidate, needs_review: reviewStatus === 'pending' }
+        : resume
+    ));
+    // The database mirrors the latest resume's contact details onto its candidate, except
+    // fields chosen or edited on the candidate itself (see sync_candidate_contact)
+    const previous = resumes.find(resume => resume.id === editingResumeId)?.parsed_details;
+    const follow = (current: string | null, before: string | null | undefined, next: string | null) =>
+      current === null || current === (before ?? null) ? next : current;
+    setCandidates(prev => prev.map(entry =>
+      entry.latest_resume_id === editingResumeId
+        ? {
+            ...entry,
+            full_name: follow(entry.full_name, previous?.full_name, candidate.full_name),
+            email: follow(entry.email, previous?.email, candidate.email),
+            phone: follow(entry.phone, previous?.phone, candidate.phone),
+            location: follow(entry.location, previous?.location, candidate.location),
+          }
+        : entry
+    ));
+  };
+
+  const getName = (group: CandidateGroup) => group.candidate?.full_name || group.latest?.parsed_details?.full_name || null;
+  const getEmail = (group: CandidateGroup) => group.candidate?.email || group.latest?.parsed_details?.email || null;
+  const getLocation = (group: CandidateGroup) => group.candidate?.location || group.latest?.parsed_details?.location || null;
+
+  const groups = groupByCandidate(resumes, candidates);
+
+  const employersByCandidate = Object.fromEntries(groups
+    .filter(group => group.candidate)
+    .map(group => [
+      group.candidate!.id,
+      group.documents.flatMap(document => document.parsed_details?.experience ?? [])
+        .map(experience => experience.company)
+        .filter((company): company is string => !!company),
+    ]));
+
+  const filteredGroups = groups.filter(group => {
     const searchLower = searchTerm.toLowerCase();
-    const candidateName = resume.parsed_details?.full_name?.toLowerCase() || '';
-    const fileName = resume.file_name.toLowerCase();
-    const email = resume.parsed_details?.email?.toLowerCase() || '';
-    const skills = resume.parsed_details?.skills_json ? 
-      (Array.isArray(resume.parsed_details.skills_json) ? 
-        resume.parsed_details.skills_json.join(' ').toLowerCase() : 
-        String(resume.parsed_details.skills_json).toLowerCase()) : '';
+    const candidateName = getName(group)?.toLowerCase() || '';
+    const fileNames = group.documents.map(document => document.file_name).join(' ').toLowerCase();
+    const email = getEmail(group)?.toLowerCase() || '';
+    const skills = group.latest?.parsed_details?.skills.join(' ').toLowerCase() || '';
+    const profile = group.latest?.parsed_details;
+    const extras = profile
+      ? [
+          ...profile.certifications.map(cert => cert.name),
+          ...profile.languages.map(lang => lang.language),
+          ...profile.projects.flatMap(project => [project.name, ...project.technologies]),
+          ...profile.publications.map(pub => pub.title),
+        ].join(' ').toLowerCase()
+      : '';
     
     return candidateName.includes(searchLower) || 
-           fileName.includes(searchLower) || 
+           fileNames.includes(searchLower) || 
            email.includes(searchLower) ||
-           skills.includes(searchLower);
+           skills.includes(searchLower) ||
+           extras.includes(searchLower);
   });
 
   const formatDate = (dateString: string) => {
@@ -246,33 +449,11 @@ Best regards,
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
-  const getSkillsArray = (skillsJson: any): string[] => {
-    if (!skillsJson) return [];
-    if (Array.isArray(skillsJson)) return skillsJson;
-    if (typeof skillsJson === 'string') {
-      try {
-        const parsed = JSON.parse(skillsJson);
-        return Array.isArray(parsed) ? parsed : [];
-      } catch {
-        return [skillsJson];
-      }
-    }
-    return [];
-  };
-
-  const getExperienceYears = (experienceJson: any): string => {
-    if (!experienceJson) return 'Not specified';
-    
-    if (typeof experienceJson === 'object') {
-      // Try to extract years from experience object
-      if (experienceJson.total_years) return `${experienceJson.total_years} years`;
-      if (experienceJson.years) return `${experienceJson.years} years`;
-      if (Array.isArray(experienceJson) && experienceJson.length > 0) {
-        return `${experienceJson.length} positions`;
-      }
-    }
-    
-    return 'Experience available';
+  const getExperienceYears = (experience: Experience[]): string => {
+    if (experience.length === 0) return 'Not specified';
+    const positions = `${experience.length} position${experience.length === 1 ? '' : 's'}`;
+    if (!hasDatedExperience(experience)) return positions;
+    return `${formatTenure(totalExperienceMonths(experience))} (${positions})`;
   };
 
   if (!user) {
@@ -306,159 +487,326 @@ Best regards,
         <CardHeader>
           <CardTitle className="flex items-center space-x-2">
             <FileText className="w-5 h-5" />
-            <span>Resume Library ({resumes.length})</span>
+            <span>Candidates ({groups.length})</span>
           </CardTitle>
           <CardDescription>
-            Browse and manage all uploaded resumes in your talent pool.
+            Browse and manage the candidates in your talent pool and all of their documents.
           </CardDescription>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
           <div className="flex items-center space-x-2">
             <Search className="w-4 h-4 text-gray-400" />
             <Input
-              placeholder="Search by name, filename, email, or skills..."
+              placeholder="Search by name, filename, email, skills, certifications or languages..."
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               className="flex-1"
             />
           </div>
+          {filteredGroups.length > 0 && (
+            <div className="flex items-center justify-between">
+              <label className="flex items-center space-x-2 text-sm text-gray-600">
+                <Checkbox
+                  checked={filteredGroups.every(group => selectedIds.has(group.key))}
+                  onCheckedChange={(checked) =>
+                    setSelectedIds(checked ? new Set(filteredGroups.map(group => group.key)) : new Set())
+                  }
+                />
+                <span>Select all</span>
+              </label>
+              <div className="flex space-x-2">
+                {failedResumeIds.length > 0 && (
+                  <Button
+                    onClick={() => handleReparse(failedResumeIds)}
+                    size="sm"
+                    variant="outline"
+                    disabled={reparsing}
+                    className="text-red-600 border-red-200 hover:bg-red-50"
+                  >
+                    <RefreshCw className={`w-4 h-4 mr-1 ${reparsing ? 'animate-spin' : ''}`} />
+                    Retry all failed ({failedResumeIds.length})
+                  </Button>
+                )}
+                <Button
+                  onClick={() => handleReparse(resumeIdsOf([...selectedIds]))}
+                  size="sm"
+                  variant="outline"
+                  disabled={selectedIds.size === 0 || reparsing}
+                >
+                  <RefreshCw className={`w-4 h-4 mr-1 ${reparsing ? 'animate-spin' : ''}`} />
+                  Re-parse selected ({selectedIds.size})
+                </Button>
+              </div>
+            </div>
+          )}
         </CardContent>
       </Card>
 
+      <DuplicateCandidatesPanel
+        candidates={candidates}
+        employers={employersByCandidate}
+        onMerged={fetchResumes}
+      />
+
       <div className="space-y-4">
-        {filteredResumes.map((resume) => (
-          <Card key={resume.id} className="border-0 shadow-lg bg-white/60 backdrop-blur-sm hover:shadow-xl transition-all duration-300">
+        {filteredGroups.map((group) => {
+          const latest = group.latest;
+          return (
+          <Card key={group.key} className="border-0 shadow-lg bg-white/60 backdrop-blur-sm hover:shadow-xl transition-all duration-300">
             <CardContent className="p-6">
               <div className="flex justify-between items-start mb-4">
                 <div className="flex items-center space-x-3">
+                  <Checkbox
+                    checked={selectedIds.has(group.key)}
+                    onCheckedChange={(checked) => toggleSelected(group.key, checked === true)}
+                    aria-label={`Select ${getName(group) || group.documents[0].file_name}`}
+                  />
                   <div className="w-12 h-12 bg-gradient-to-r from-blue-500 to-purple-500 rounded-full flex items-center justify-center">
                     <User className="w-6 h-6 text-white" />
                   </div>
                   <div>
                     <h4 className="text-xl font-semibold text-gray-800">
-                      {resume.parsed_details?.full_name || 'Name not parsed yet'}
+                      {getName(group) || 'Name not parsed yet'}
                     </h4>
-                    <p className="text-blue-600 font-medium text-sm">{resume.file_name}</p>
+                    <p className="text-blue-600 font-medium text-sm">
+                      {group.documents.length} document{group.documents.length === 1 ? '' : 's'}
+                    </p>
                   </div>
                 </div>
                 <div className="flex items-center space-x-2">
-                  <Badge 
-                    variant={resume.parsing_status === 'completed' ? 'default' : 'secondary'}
-                    className={
-                      resume.parsing_status === 'completed' 
-                        ? 'bg-green-100 text-green-800' 
-                        : resume.parsing_status === 'processing'
-                        ? 'bg-yellow-100 text-yellow-800'
-                        : resume.parsing_status === 'failed'
-                        ? 'bg-red-100 text-red-800'
-                        : 'bg-gray-100 text-gray-800'
-                    }
-                  >
-                    {resume.parsing_status === 'completed' ? 'Parsed' : 
-                     resume.parsing_status === 'processing' ? 'Processing' :
-                     resume.parsing_status === 'failed' ? 'Failed' : 'Pending'}
-                  </Badge>
-                  <Button 
-                    onClick={() => handleView(resume)}
-                    size="sm"
-                    variant="outline"
-                    className="text-green-600 border-green-200 hover:bg-green-50"
-                  >
-                    <Eye className="w-4 h-4 mr-1" />
-                    View
-                  </Button>
+                  {latest?.needs_review && (
+                    <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">
+                      Needs review
+                    </Badge>
+                  )}
+                  {latest && (
+                    <Badge 
+                      variant={latest.parsing_status === 'completed' ? 'default' : 'secondary'}
+                      className={PARSING_STATUS_BADGE_CLASSES[latest.parsing_status ?? 'queued']}
+                    >
+                      {PARSING_STATUS_LABELS[latest.parsing_status ?? 'queued']}
+                    </Badge>
+                  )}
                 </div>
               </div>
 
-              {resume.parsed_details && (
+              {(getEmail(group) || latest?.parsed_details) && (
                 <div className="grid md:grid-cols-3 gap-4 mb-4">
-                  {resume.parsed_details.email && (
+                  {getEmail(group) && (
                     <div className="flex items-center space-x-2 text-gray-600">
                       <Mail className="w-4 h-4" />
-                      <span className="text-sm">{resume.parsed_details.email}</span>
+                      <span className="text-sm">{getEmail(group)}</span>
                     </div>
                   )}
-                  {resume.parsed_details.location && (
+                  {getLocation(group) && (
                     <div className="flex items-center space-x-2 text-gray-600">
                       <MapPin className="w-4 h-4" />
-                      <span className="text-sm">{resume.parsed_details.location}</span>
+                      <span className="text-sm">{getLocation(group)}</span>
+                    </div>
+                  )}
+                  {latest?.parsed_details && (
+                    <div className="flex items-center space-x-2 text-gray-600">
+                      <Briefcase className="w-4 h-4" />
+                      <span className="text-sm">{getExperienceYears(latest.parsed_details.experience)}</span>
                     </div>
                   )}
-                  <div className="flex items-center space-x-2 text-gray-600">
-                    <Briefcase className="w-4 h-4" />
-                    <span className="text-sm">{getExperienceYears(resume.parsed_details.experience_json)}</span>
-                  </div>
                 </div>
               )}
 
-              {resume.parsed_details?.skills_json && (
+              {latest?.parsed_details && latest.parsed_details.skills.length > 0 && (
                 <div className="mb-4">
                   <p className="text-sm font-medium text-gray-700 mb-2">Skills:</p>
                   <div className="flex flex-wrap gap-2">
-                    {getSkillsArray(resume.parsed_details.skills_json).slice(0, 8).map((skill, index) => (
+                    {latest.parsed_details.skills.slice(0, 8).map((skill, index) => (
                       <Badge key={index} variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">
                         {skill}
                       </Badge>
                     ))}
-                    {getSkillsArray(resume.parsed_details.skills_json).length > 8 && (
+                    {latest.parsed_details.skills.length > 8 && (
                       <Badge variant="outline" className="bg-gray-50 text-gray-600">
-                        +{getSkillsArray(resume.parsed_details.skills_json).length - 8} more
+                        +{latest.parsed_details.skills.length - 8} more
                       </Badge>
                     )}
                   </div>
                 </div>
               )}
 
-              <div className="flex justify-between items-center">
-                <div className="flex items-center space-x-2 text-sm text-gray-600">
-                  <FileText className="w-4 h-4" />
-                  <span>{resume.file_name}</span>
-                  <span>({formatFileSize(resume.file_size)})</span>
-                  <span>• Uploaded {formatDate(resume.uploaded_at)}</span>
-                </div>
-                
-                <div className="flex space-x-2">
-                  <Button 
-                    onClick={() => handleView(resume)}
-                    size="sm"
-                    variant="outline"
-                    className="text-green-600 border-green-200 hover:bg-green-50"
-                  >
-                    <Eye className="w-4 h-4 mr-1" />
-                    View
-                  </Button>
-                  <Button 
-                    onClick={() => handleOutreach(resume)}
-                    size="sm"
-                    variant="outline"
-                    disabled={!resume.parsed_details?.email}
-                    className="text-blue-600 border-blue-200 hover:bg-blue-50"
-                  >
-                    <Send className="w-4 h-4 mr-1" />
-                    Outreach
-                  </Button>
-                  <Button 
-                    onClick={() => handleDelete(resume.id, resume.file_name)}
-                    size="sm"
-                    variant="outline"
-                    className="text-red-600 border-red-200 hover:bg-red-50"
-                  >
-                    <Trash2 className="w-4 h-4 mr-1" />
-                    Delete
-                  </Button>
+              {latest?.parsed_details && <CandidateProfileDetails candidate={latest.parsed_details} />}
+
+              <div className="mb-4 space-y-2">
+                <p className="text-sm font-medium text-gray-700">Documents:</p>
+                {group.documents.map((resume) => (
+                  <div key={resume.id} className="flex flex-wrap justify-between items-center gap-2 p-3 rounded-lg bg-white/50 border">
+                    <div className="flex items-center space-x-2 text-sm text-gray-600">
+                      <FileText className="w-4 h-4" />
+                      <Badge variant="outline">{DOCUMENT_TYPE_LABELS[resume.document_type]}</Badge>
+                      {resume.id === latest?.id && group.documents.length > 1 && (
+                        <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">Latest</Badge>
+                      )}
+                      <span className="font-medium text-gray-800">{resume.file_name}</span>
+                      {resume.content_version > 1 && (
+                        <Badge variant="outline">v{resume.content_version}</Badge>
+                      )}
+                      <span>({formatFileSize(resume.file_size)})</span>
+                      <span>• Uploaded {formatDate(resume.uploaded_at)}</span>
+                      {resume.document_type === 'resume' && resume.id !== latest?.id && (
+                        <Badge
+                          variant="secondary"
+                          className={PARSING_STATUS_BADGE_CLASSES[resume.parsing_status ?? 'queued']}
+                        >
+                          {PARSING_STATUS_LABELS[resume.parsing_status ?? 'queued']}
+                        </Badge>
+                      )}
+                      {resume.ocr_confidence !== null && (
+                        <Badge
+                          variant="outline"
+                          className="bg-blue-50 text-blue-700 border-blue-200"
+                          title="Text was read from a scan or photo"
+                        >
+                          OCR {Math.round(resume.ocr_confidence * 100)}%
+                        </Badge>
+                      )}
+                      {resume.parse_warnings.length > 0 && (
+                        <Badge
+                          variant="secondary"
+                          className="bg-amber-100 text-amber-800"
+                          title={resume.parse_warnings.join('\n')}
+                        >
+                          <AlertTriangle className="w-3 h-3 mr-1" />
+                          {resume.parse_warnings.length} parse warning{resume.parse_warnings.length === 1 ? '' : 's'}
+                        </Badge>
+                      )}
+                      {resume.security_flags.length > 0 && (
+                        <Badge
+                          variant="secondary"
+                          className="bg-red-100 text-red-800"
+                          title={resume.security_flags.map(describeSecurityFlag).join('\n')}
+                        >
+                          <ShieldAlert className="w-3 h-3 mr-1" />
+                          Suspicious content
+                        </Badge>
+                      )}
+                      {resume.parsing_status === 'rejected' && resume.rejection_reason && (
+                        <span className="text-orange-700">{resume.rejection_reason}</span>
+                      )}
+                      {isParsingFailed(resume.parsing_status) && (
+                        <>
+                          <Badge variant="secondary" className="bg-red-100 text-red-800" title={resume.parsing_error ?? undefined}>
+                            {PARSE_ERROR_LABELS[resume.parsing_error_code ?? 'unknown']}
+                          </Badge>
+                          <span className="text-red-700">{PARSE_ERROR_HINTS[resume.parsing_error_code ?? 'unknown']}</span>
+                        </>
+                      )}
+                    </div>
+
+                    <div className="flex space-x-2">
+                      <Button 
+                        onClick={() => handleView(resume)}
+                        size="sm"
+                        variant="outline"
+                        className="text-green-600 border-green-200 hover:bg-green-50"
+                      >
+                        <Eye className="w-4 h-4 mr-1" />
+                        View
+                      </Button>
+                      {resume.document_type === 'resume' && (
+                        <>
+                          <Button 
+                            onClick={() => setEditingResumeId(resume.id)}
+                            size="sm"
+                            variant="outline"
+                            disabled={!resume.parsed_detail_id}
+                            className="text-purple-600 border-purple-200 hover:bg-purple-50"
+                          >
+                            <Pencil className="w-4 h-4 mr-1" />
+                            Edit
+                          </Button>
+                          <Button 
+                            onClick={() => handleReparse([resume.id])}
+                            size="sm"
+                            variant="outline"
+                            disabled={reparsing || isParsingActive(resume.parsing_status)}
+                            className="text-indigo-600 border-indigo-200 hover:bg-indigo-50"
+                          >
+                            <RefreshCw className="w-4 h-4 mr-1" />
+                            {isParsingFailed(resume.parsing_status) ? 'Retry' : 'Re-parse'}
+                          </Button>
+                          <Button 
+                            onClick={() => setHistoryResumeId(resume.id)}
+                            size="sm"
+                            variant="outline"
+                            disabled={!resume.parsed_detail_id}
+                            className="text-gray-600 border-gray-200 hover:bg-gray-50"
+                          >
+                            <GitCompare className="w-4 h-4 mr-1" />
+                            History
+                          </Button>
+                        </>
+                      )}
+                      <Button 
+                        onClick={() => handleDelete(resume.id, resume.file_name)}
+                        size="sm"
+                        variant="outline"
+                        className="text-red-600 border-red-200 hover:bg-red-50"
+                      >
+                        <Trash2 className="w-4 h-4 mr-1" />
+                        Delete
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {group.candidate && notesCandidateId === group.candidate.id && (
+                <div className="mb-4">
+                  <CandidateNotes candidateId={group.candidate.id} />
                 </div>
+              )}
+
+              <div className="flex justify-end space-x-2">
+                <Button 
+                  onClick={() => setNotesCandidateId(notesCandidateId === group.candidate?.id ? null : group.candidate?.id ?? null)}
+                  size="sm"
+                  variant="outline"
+                  disabled={!group.candidate}
+                  className="text-gray-600 border-gray-200 hover:bg-gray-50"
+                >
+                  <StickyNote className="w-4 h-4 mr-1" />
+                  Notes
+                </Button>
+                <Button 
+                  onClick={() => setAttachingGroup(group)}
+                  size="sm"
+                  variant="outline"
+                  disabled={!group.candidate}
+                  className="text-gray-600 border-gray-200 hover:bg-gray-50"
+                >
+                  <Paperclip className="w-4 h-4 mr-1" />
+                  Attach document
+                </Button>
+                <Button 
+                  onClick={() => handleOutreach(group)}
+                  size="sm"
+                  variant="outline"
+                  disabled={!getEmail(group)}
+                  className="text-blue-600 border-blue-200 hover:bg-blue-50"
+                >
+                  <Send className="w-4 h-4 mr-1" />
+                  Outreach
+                </Button>
               </div>
             </CardContent>
           </Card>
-        ))}
+          );
+        })}
       </div>
 
-      {filteredResumes.length === 0 && !loading && (
+      {filteredGroups.length === 0 && !loading && (
         <Card className="border-0 shadow-lg bg-white/60 backdrop-blur-sm">
           <CardContent className="p-8 text-center">
             <FileText className="w-12 h-12 text-gray-400 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-gray-800 mb-2">
-              {resumes.length === 0 ? "No resumes uploaded yet" : "No resumes found"}
+              {resumes.length === 0 ? "No resumes uploaded yet" : "No candidates found"}
             </h3>
             <p className="text-gray-600">
               {resumes.length === 0 
@@ -468,6 +816,28 @@ Best regards,
           </CardContent>
         </Card>
       )}
+
+      <ParsedDetailsEditor
+        parsedDetailId={resumes.find(resume => resume.id === editingResumeId)?.parsed_detail_id ?? null}
+        open={!!editingResumeId}
+        onOpenChange={(open) => !open && setEditingResumeId(null)}
+        onSaved={handleDetailsSaved}
+      />
+
+      <ParseVersionsDialog
+        resumeId={historyResumeId}
+        fileName={resumes.find(resume => resume.id === historyResumeId)?.file_name}
+        open={!!historyResumeId}
+        onOpenChange={(open) => !open && setHistoryResumeId(null)}
+      />
+
+      <AttachDocumentDialog
+        candidateId={attachingGroup?.candidate?.id ?? null}
+        candidateName={attachingGroup ? getName(attachingGroup) : null}
+        open={!!attachingGroup}
+        onOpenChange={(open) => !open && setAttachingGroup(null)}
+        onAttached={fetchResumes}
+      />
     </div>
   );
 };
@@ -1,11 +1,20 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useRef } from "react";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Upload, FileText, Check, AlertCircle, X } from "lucide-react";
+import { Upload, FileText, Check, AlertCircle, X, Copy, RotateCcw, ShieldAlert } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { useResumeParser } from "@/hooks/useResumeParser";
+import type { Tables } from "@/integrations/supabase/types";
+import { sha256Hex } from "@/lib/fileHash";
+import { inspectUpload } from "@/lib/fileSniffing";
+import { isParsingActive, isParsingFailed, PARSING_STATUS_BADGE_CLASSES, PARSING_STATUS_LABELS, ParsingStatus } from "@/lib/parsingStatus";
+import { useResumeRealtime } from "@/hooks/useResumeRealtime";
+import { UploadCancelledError, uploadResumable } from "@/lib/resumableUpload";
+import { CollectedFiles, SkippedEntry, collectDroppedEntries, collectFiles } from "@/lib/uploadSources";
+import DuplicateUploadDialog, { DuplicateUploadDecision, DuplicateUploadPrompt } from "@/components/DuplicateUploadDialog";
 
 interface UploadedFile {
   id: string;
@@ -13,17 +22,78 @@ interface UploadedFile {
   size: number;
   type: string;
   uploadedAt: Date;
-  status: 'uploading' | 'processing' | 'completed' | 'error';
+  status: 'pending' | 'uploading' | 'queued' | 'skipped' | 'replaced' | 'rejected' | 'cancelled' | 'error';
   progress?: number;
+  rejectionReason?: string;
+  // Live parse status once the file is queued; the file id doubles as the resume id
+  parsingStatus?: ParsingStatus;
 }
 
+interface BatchSummary {
+  uploaded: number;
+  duplicates: number;
+  failed: number;
+  rejected: number;
+  cancelled: number;
+  skipped: SkippedEntry[];
+}
+
+interface FileResult {
+  outcome: 'uploaded' | 'duplicate' | 'rejected' | 'failed' | 'cancelled';
+  // Set when the file (or the upload it replaced) should go through the parser
+  parseResumeId?: string;
+}
+
+// Enough to keep the connection busy without starving other tabs
+const UPLOAD_CONCURRENCY = 3;
+
+const formatBatchSummary = ({ uploaded, duplicates, failed, rejected, cancelled, skipped }: BatchSummary) =>
+  `${uploaded} uploaded and queued for parsing, ${duplicates} duplicate(s), ${failed} failed` +
+  (rejected > 0 ? `, ${rejected} rejected` : '') +
+  (cancelled > 0 ? `, ${cancelled} cancelled` : '') +
+  (skipped.length > 0 ? `, ${skipped.length} skipped` : '') + '.';
+
+const runWithConcurrency = async <T,>(items: T[], limit: number, worker: (item: T) => Promise<void>) => {
+  let next = 0;
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await worker(items[next++]);
+    }
+  });
+  await Promise.all(runners);
+};
+
+type ExistingUpload = Pick<
+  Tables<"resumes">,
+  'id' | 'file_name' | 'uploaded_at' | 'parsing_status' | 'supabase_storage_path' | 'candidate_id' | 'content_version'
+>;
+
+type DuplicateDecider = (file: File, existing: ExistingUpload) => Promise<DuplicateUploadDecision>;
+
 const ResumeUpload = () => {
   const { user } = useAuth();
-  const { triggerParsing } = useResumeParser();
+  const { enqueueParsing } = useResumeParser();
   const [isDragOver, setIsDragOver] = useState(false);
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [parsingError, setParsingError] = useState<string | null>(null);
+  const [batchSummary, setBatchSummary] = useState<BatchSummary | null>(null);
+  const [duplicatePrompt, setDuplicatePrompt] = useState<DuplicateUploadPrompt | null>(null);
+  // Kept outside state so cancel and retry can reach them while uploads are running
+  const abortControllers = useRef(new Map<string, AbortController>());
+  const selectedFiles = useRef(new Map<string, File>());
+  const duplicateResolver = useRef<((result: { decision: DuplicateUploadDecision; applyToAll: boolean }) => void) | null>(null);
+
+  // Follow each queued file through parsing as the worker picks it up
+  useResumeRealtime(({ table, payload }) => {
+    if (table !== 'resumes' || payload.eventType !== 'UPDATE') return;
+    const { id, parsing_status, rejection_reason } = payload.new;
+    setUploadedFiles(prev => prev.map(f =>
+      f.id === id && f.status === 'queued'
+        ? { ...f, parsingStatus: parsing_status ?? undefined, rejectionReason: rejection_reason ?? f.rejectionReason }
+        : f
+    ));
+  });
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -39,43 +109,129 @@ const ResumeUpload = () => {
     e.preventDefault();
     setIsDragOver(false);
     
-    const files = Array.from(e.dataTransfer.files);
-    handleFiles(files);
+    // Entries are only readable during the drop event, so grab them before anything async
+    const entries = Array.from(e.dataTransfer.items)
+      .map(item => item.webkitGetAsEntry())
+      .filter((entry): entry is FileSystemEntry => !!entry);
+    if (entries.length > 0) {
+      handleFiles(() => collectDroppedEntries(entries));
+    } else {
+      const files = Array.from(e.dataTransfer.files);
+      handleFiles(() => collectFiles(files));
+    }
   }, []);
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
       const files = Array.from(e.target.files);
-      handleFiles(files);
+      handleFiles(() => collectFiles(files));
+      // Allow picking the same file or archive again
+      e.target.value = '';
     }
   };
 
-const uploadToSupabase = async (file: File, fileId: string) => {
+// Resolves once the user picks what to do with a file that is already uploaded
+const askDuplicateDecision = (file: File, existing: ExistingUpload) =>
+  new Promise<{ decision: DuplicateUploadDecision; applyToAll: boolean }>(resolve => {
+    duplicateResolver.current = resolve;
+    setDuplicatePrompt({
+      fileName: file.name,
+      existingFileName: existing.file_name,
+      existingUploadedAt: existing.uploaded_at,
+      existingVersion: existing.content_version,
+    });
+  });
+
+const handleDuplicateDecision = (decision: DuplicateUploadDecision, applyToAll: boolean) => {
+  setDuplicatePrompt(null);
+  duplicateResolver.current?.({ decision, applyToAll });
+  duplicateResolver.current = null;
+};
+
+// Latest upload of identical content, if any
+const findExistingUpload = async (contentHash: string): Promise<ExistingUpload | null> => {
+  if (!user) return null;
+
+  const { data, error } = await supabase
+    .from('resumes')
+    .select('id, file_name, uploaded_at, parsing_status, supabase_storage_path, candidate_id, content_version')
+    .eq('user_id', user.id)
+    .eq('content_sha256', contentHash)
+    .order('content_version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    // A failed lookup should not block uploads; the unique index still guards the table
+    console.error('Error checking for duplicate upload:', error);
+    return null;
+  }
+  return data;
+};
+
+// Identical bytes need neither a second copy in storage nor another parse
+const replaceExistingUpload = async (file: File, existing: ExistingUpload) => {
+  const { error } = await supabase
+    .from('resumes')
+    .update({
+      file_name: file.name,
+      file_type: file.type,
+      uploaded_at: new Date().toISOString(),
+    })
+    .eq('id', existing.id);
+
+  if (error) {
+    console.error('Error replacing upload:', error);
+    throw error;
+  }
+};
+
+const setFileState = (fileId: string, changes: Partial<UploadedFile>) => {
+  setUploadedFiles(prev => prev.map(f => f.id === fileId ? { ...f, ...changes } : f));
+};
+
+const uploadToSupabase = async (
+  file: File,
+  fileId: string,
+  contentHash: string,
+  signal: AbortSignal,
+  previous?: ExistingUpload
+) => {
   if (!user) {
     throw new Error('User not authenticated');
   }
 
   console.log('Starting upload for file:', file.name, 'User ID:', user.id);
 
-  // Create file path with user folder structure
-  const fileExt = file.name.split('.').pop();
-  // Path format: "user_id/fileId.ext"
-  const filePath = `${user.id}/${fileId}.${fileExt}`;
-
-  // Upload file to Supabase Storage (bucket: 'resumes')
-  const { data: uploadData, error: uploadError } = await supabase.storage
-    .from('resumes')
-    .upload(filePath, file, {
-      cacheControl: '3600',
-      upsert: false
+  // A new version of an identical file shares the stored object of the previous version
+  const reuseStoredFile = !!previous?.supabase_storage_path;
+  // Path format: "user_id/fileId.ext". Retries reuse the fileId, which lets an
+  // interrupted upload resume from its last chunk.
+  const filePath = previous?.supabase_storage_path || `${user.id}/${fileId}.${file.name.split('.').pop()}`;
+
+  if (!reuseStoredFile) {
+    let lastProgress = 0;
+    await uploadResumable({
+      bucket: 'resumes',
+      path: filePath,
+      file,
+      signal,
+      onProgress: (bytesUploaded, bytesTotal) => {
+        const progress = Math.floor((bytesUploaded / bytesTotal) * 100);
+        if (progress === lastProgress) return;
+        lastProgress = progress;
+        setFileState(fileId, { progress });
+      },
     });
 
-  if (uploadError) {
-    console.error('Upload error:', uploadError);
-    throw uploadError;
+    console.log('File uploaded successfully:', filePath);
   }
 
-  console.log('File uploaded successfully:', uploadData);
+  // Cancelling after the bytes landed still has to undo the stored object
+  if (signal.aborted) {
+    if (!reuseStoredFile) await supabase.storage.from('resumes').remove([filePath]);
+    throw new UploadCancelledError();
+  }
 
   // Insert record into resumes table
   const { data: resumeData, error: resumeError } = await supabase
@@ -88,7 +244,10 @@ const uploadToSupabase = async (file: File, fileId: string) => {
         file_size: file.size,
         file_type: file.type,
         supabase_storage_path: filePath, // Critical: <--- use EXACT file path as stored
-        parsing_status: 'pending'
+        parsing_status: 'queued',
+        content_sha256: contentHash,
+        content_version: previous ? previous.content_version + 1 : 1,
+        candidate_id: previous?.candidate_id ?? null
       }
     ])
     .select()
@@ -97,7 +256,9 @@ const uploadToSupabase = async (file: File, fileId: string) => {
   if (resumeError) {
     console.error('Database error:', resumeError);
     // Clean up uploaded file if the database insert fails
-    await supabase.storage.from('resumes').remove([filePath]);
+    if (!reuseStoredFile) {
+      await supabase.storage.from('resumes').remove([filePath]);
+    }
     throw resumeError;
   }
 
@@ -105,7 +266,73 @@ const uploadToSupabase = async (file: File, fileId: string) => {
   return resumeData;
 };
 
-const handleFiles = async (files: File[]) => {
+// Files upload in parallel but duplicate prompts are shown one at a time, and an
+// "apply to all" answer holds for the rest of the batch
+const createDuplicateDecider = (): DuplicateDecider => {
+  let remembered: DuplicateUploadDecision | null = null;
+  let pendingPrompt: Promise<unknown> = Promise.resolve();
+
+  return (file, existing) => {
+    const decision = pendingPrompt.then(async () => {
+      if (remembered) return remembered;
+      const answer = await askDuplicateDecision(file, existing);
+      if (answer.applyToAll) remembered = answer.decision;
+      return answer.decision;
+    });
+    pendingPrompt = decision;
+    return decision;
+  };
+};
+
+const processFile = async (file: File, fileId: string, decideDuplicate: DuplicateDecider): Promise<FileResult> => {
+  const controller = abortControllers.current.get(fileId) ?? new AbortController();
+  abortControllers.current.set(fileId, controller);
+
+  try {
+    if (controller.signal.aborted) throw new UploadCancelledError();
+    setFileState(fileId, { status: 'uploading', progress: 0 });
+
+    const { rejection } = await inspectUpload(file);
+    if (rejection) {
+      setFileState(fileId, { status: 'rejected', rejectionReason: rejection.message });
+      return { outcome: 'rejected' };
+    }
+
+    const contentHash = await sha256Hex(file);
+    const existing = await findExistingUpload(contentHash);
+    const decision = existing ? await decideDuplicate(file, existing) : null;
+    if (controller.signal.aborted) throw new UploadCancelledError();
+
+    if (existing && decision === 'skip') {
+      setFileState(fileId, { status: 'skipped' });
+      return { outcome: 'duplicate' };
+    }
+
+    if (existing && decision === 'replace') {
+      await replaceExistingUpload(file, existing);
+      setFileState(fileId, { status: 'replaced', progress: 100 });
+      // Only an upload whose parse failed is worth parsing again
+      return { outcome: 'duplicate', parseResumeId: isParsingFailed(existing.parsing_status) ? existing.id : undefined };
+    }
+
+    // Upload file to Supabase storage and database
+    await uploadToSupabase(file, fileId, contentHash, controller.signal, existing ?? undefined);
+    setFileState(fileId, { status: 'queued', progress: 100 });
+    return { outcome: 'uploaded', parseResumeId: fileId };
+  } catch (error) {
+    if (error instanceof UploadCancelledError) {
+      setFileState(fileId, { status: 'cancelled' });
+      return { outcome: 'cancelled' };
+    }
+    console.error('Error uploading file:', file.name, error);
+    setFileState(fileId, { status: 'error' });
+    return { outcome: 'failed' };
+  } finally {
+    abortControllers.current.delete(fileId);
+  }
+};
+
+const handleFiles = async (collect: () => Promise<CollectedFiles>) => {
   if (!user) {
     toast({
       title: "Authentication required",
@@ -115,128 +342,96 @@ const handleFiles = async (files: File[]) => {
     return;
   }
 
-    // Remove ALL filtering for file type. Accept every file type, do no filtering.
-    // Only check for the 25MB size limit.
-    const oversizedFiles = files.filter(file => file.size > 25 * 1024 * 1024);
-    if (oversizedFiles.length > 0) {
-      toast({
-        title: "File too large",
-        description: "Please upload files smaller than 25MB.",
-        variant: "destructive"
-      });
-      return;
-    }
-
   setIsUploading(true);
   setParsingError(null);
+  setBatchSummary(null);
+
+  // Loose files of any type are accepted; archives and folders are unpacked and
+  // filtered down to resume formats, and anything over 25MB is left out
+  let files: File[];
+  let skippedEntries: SkippedEntry[];
+  try {
+    ({ files, skipped: skippedEntries } = await collect());
+  } catch (error) {
+    console.error('Error reading dropped files:', error);
+    toast({
+      title: "Upload failed",
+      description: "The selected files or folders could not be read.",
+      variant: "destructive"
+    });
+    setIsUploading(false);
+    return;
+  }
 
-  for (const file of files) {
-    const fileId = crypto.randomUUID();
-    const uploadFile: UploadedFile = {
+  const batch = files.map(file => ({ file, fileId: crypto.randomUUID() }));
+  batch.forEach(({ file, fileId }) => {
+    selectedFiles.current.set(fileId, file);
+    abortControllers.current.set(fileId, new AbortController());
+  });
+  setUploadedFiles(prev => [
+    ...prev,
+    ...batch.map<UploadedFile>(({ file, fileId }) => ({
       id: fileId,
       name: file.name,
       size: file.size,
       type: file.type,
       uploadedAt: new Date(),
-      status: 'uploading',
+      status: 'pending',
       progress: 0
-    };
-
-    setUploadedFiles(prev => [...prev, uploadFile]);
-
-    try {
-      setUploadedFiles(prev => 
-        prev.map(f => 
-          f.id === fileId 
-            ? { ...f, progress: 30 }
-            : f
-        )
-      );
-
-      // Upload file to Supabase storage and database
-      const resumeData = await uploadToSupabase(file, fileId);
-
-      setUploadedFiles(prev => 
-        prev.map(f => 
-          f.id === fileId 
-            ? { ...f, progress: 60 }
-            : f
-        )
-      );
-
-      setUploadedFiles(prev => 
-        prev.map(f => 
-          f.id === fileId 
-            ? { ...f, status: 'processing', progress: 80 }
-            : f
-        )
-      );
-
-        try {
-          const parseSuccess = await triggerParsing(fileId);
-
-          if (parseSuccess) {
-            setUploadedFiles(prev => 
-              prev.map(f => 
-                f.id === fileId 
-                  ? { ...f, status: 'completed', progress: 100 }
-                  : f
-              )
-            );
-
-            toast({
-              title: "Resume uploaded and parsed",
-              description: `${file.name} has been uploaded and parsed successfully.`,
-            });
-
-          } else {
-            setUploadedFiles(prev => 
-              prev.map(f => 
-                f.id === fileId 
-                  ? { ...f, status: 'completed', progress: 100 }
-                  : f
-              )
-            );
-            toast({
-              title: "Resume uploaded",
-              description: `${file.name} has been uploaded. Parsing finished.`,
-            });
-          }
-        } catch (err) {
-          setUploadedFiles(prev => 
-            prev.map(f => 
-              f.id === fileId 
-                ? { ...f, status: 'completed', progress: 100 }
-                : f
-            )
-          );
-          toast({
-            title: "Resume uploaded",
-            description: `${file.name} has been uploaded. Parsing finished.`,
-          });
-        }
-
-      } catch (error) {
-        setUploadedFiles(prev => 
-          prev.map(f => 
-            f.id === fileId 
-              ? { ...f, status: 'error' }
-              : f
-          )
-        );
-        
-        toast({
-          title: "Upload failed",
-          description: `Failed to upload ${file.name}. Please try again.`,
-          variant: "destructive"
-        });
-      }
+    }))
+  ]);
+
+  const summary: BatchSummary = { uploaded: 0, duplicates: 0, failed: 0, rejected: 0, cancelled: 0, skipped: skippedEntries };
+  const parseResumeIds: string[] = [];
+  const decideDuplicate = createDuplicateDecider();
+
+  await runWithConcurrency(batch, UPLOAD_CONCURRENCY, async ({ file, fileId }) => {
+    const { outcome, parseResumeId } = await processFile(file, fileId, decideDuplicate);
+    if (parseResumeId) parseResumeIds.push(parseResumeId);
+    if (outcome === 'uploaded') summary.uploaded++;
+    else if (outcome === 'duplicate') summary.duplicates++;
+    else if (outcome === 'rejected') summary.rejected++;
+    else if (outcome === 'cancelled') summary.cancelled++;
+    else summary.failed++;
+  });
+
+    // Parsing runs in the background job queue, so the batch survives tab closes
+    if (parseResumeIds.length > 0) {
+      await enqueueParsing(parseResumeIds);
     }
 
+    // One summary per batch rather than a toast per file
+    setBatchSummary(summary);
+    toast({
+      title: summary.failed > 0 ? "Upload finished with errors" : "Upload finished",
+      description: formatBatchSummary(summary),
+      variant: summary.failed > 0 ? "destructive" : undefined
+    });
+
     setIsUploading(false);
   };
 
+  const cancelFile = (fileId: string) => {
+    abortControllers.current.get(fileId)?.abort();
+    // Files still waiting for a slot never reach processFile's own status update
+    setUploadedFiles(prev => prev.map(f => f.id === fileId && f.status === 'pending' ? { ...f, status: 'cancelled' } : f));
+  };
+
+  const retryFile = async (fileId: string) => {
+    const file = selectedFiles.current.get(fileId);
+    if (!file) return;
+
+    abortControllers.current.set(fileId, new AbortController());
+    const { parseResumeId } = await processFile(file, fileId, createDuplicateDecider());
+    if (parseResumeId) {
+      await enqueueParsing([parseResumeId]);
+    }
+  };
+
   const removeFile = (fileId: string) => {
+    abortControllers.current.get(fileId)?.abort();
+    abortControllers.current.delete(fileId);
+    selectedFiles.current.delete(fileId);
     setUploadedFiles(prev => prev.filter(f => f.id !== fileId));
   };
 
@@ -290,7 +485,7 @@ const handleFiles = async (files: File[]) => {
             <span>Upload Resumes</span>
           </CardTitle>
           <CardDescription>
-            Upload your resume in any format (PDF, Word, text, image, etc.) up to 25MB.
+            Upload resumes as PDF, Word, RTF, text or image files up to 25MB each, or a ZIP archive of them.
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -307,12 +502,13 @@ const handleFiles = async (files: File[]) => {
             <Upload className="w-12 h-12 text-gray-400 mx-auto mb-4" />
             <h3 className="text-lg font-medium mb-2">Drop files here or click to browse</h3>
             <p className="text-gray-600 mb-4">
-              Any resume file up to 25MB is accepted.
+              Files are checked before upload: executables, macro-enabled and password-protected documents are rejected.
+              ZIP archives and dropped folders are unpacked automatically.
             </p>
             <input
               type="file"
               multiple
-              accept="*"
+              accept=".pdf,.doc,.docx,.odt,.rtf,.txt,.md,.html,.htm,.png,.jpg,.jpeg,.gif,.webp,.tif,.tiff,.zip"
               onChange={handleFileSelect}
               className="hidden"
               id="file-upload"
@@ -331,6 +527,51 @@ const handleFiles = async (files: File[]) => {
         </CardContent>
       </Card>
       {/* Remove all parsingError UI */}
+      {batchSummary && (
+        <Card className="border-0 shadow-lg bg-white/60 backdrop-blur-sm">
+          <CardHeader>
+            <CardTitle>Last Upload</CardTitle>
+            <CardDescription>{formatBatchSummary(batchSummary)}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-center">
+              <div className="p-3 rounded-lg bg-green-50">
+                <p className="text-2xl font-bold text-green-700">{batchSummary.uploaded}</p>
+                <p className="text-sm text-green-700">Uploaded</p>
+              </div>
+              <div className="p-3 rounded-lg bg-gray-50">
+                <p className="text-2xl font-bold text-gray-700">{batchSummary.duplicates}</p>
+                <p className="text-sm text-gray-700">Duplicates</p>
+              </div>
+              <div className="p-3 rounded-lg bg-red-50">
+                <p className="text-2xl font-bold text-red-700">{batchSummary.failed}</p>
+                <p className="text-sm text-red-700">Failed</p>
+              </div>
+              <div className="p-3 rounded-lg bg-orange-50">
+                <p className="text-2xl font-bold text-orange-700">{batchSummary.rejected}</p>
+                <p className="text-sm text-orange-700">Rejected</p>
+              </div>
+              <div className="p-3 rounded-lg bg-yellow-50">
+                <p className="text-2xl font-bold text-yellow-700">{batchSummary.skipped.length}</p>
+                <p className="text-sm text-yellow-700">Skipped</p>
+              </div>
+            </div>
+            {batchSummary.skipped.length > 0 && (
+              <details className="text-sm text-gray-600">
+                <summary className="cursor-pointer">Show skipped entries</summary>
+                <ul className="mt-2 space-y-1 max-h-48 overflow-y-auto">
+                  {batchSummary.skipped.map((entry, index) => (
+                    <li key={`${entry.path}-${index}`} className="flex justify-between gap-2">
+                      <span className="truncate">{entry.path}</span>
+                      <span className="text-gray-500 shrink-0">{entry.reason}</span>
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+          </CardContent>
+        </Card>
+      )}
       {uploadedFiles.length > 0 && (
         <Card className="border-0 shadow-lg bg-white/60 backdrop-blur-sm">
           <CardHeader>
@@ -348,6 +589,9 @@ const handleFiles = async (files: File[]) => {
                     <div className="flex-1">
                       <p className="font-medium">{file.name}</p>
                       <p className="text-sm text-gray-600">{formatFileSize(file.size)}</p>
+                      {file.rejectionReason && (
+                        <p className="text-sm text-orange-700">{file.rejectionReason}</p>
+                      )}
                       {file.status === 'uploading' && file.progress !== undefined && (
                         <div className="w-full bg-gray-200 rounded-full h-2 mt-1">
                           <div 
@@ -362,19 +606,42 @@ const handleFiles = async (files: File[]) => {
                     {file.status === 'uploading' && (
                       <>
                         <div className="w-4 h-4 border-2 border-blue-600 border-t-transparent rounded-full animate-spin" />
-                        <span className="text-sm text-blue-600">Uploading...</span>
+                        <span className="text-sm text-blue-600">Uploading {file.progress ?? 0}%</span>
+                        <Button variant="ghost" size="sm" onClick={() => cancelFile(file.id)}>
+                          Cancel
+                        </Button>
                       </>
                     )}
-                    {file.status === 'processing' && (
+                    {file.status === 'pending' && (
                       <>
-                        <div className="w-4 h-4 border-2 border-yellow-600 border-t-transparent rounded-full animate-spin" />
-                        <span className="text-sm text-yellow-600">Processing...</span>
+                        <span className="text-sm text-gray-500">Waiting...</span>
+                        <Button variant="ghost" size="sm" onClick={() => cancelFile(file.id)}>
+                          Cancel
+                        </Button>
                       </>
                     )}
-                    {file.status === 'completed' && (
+                    {file.status === 'queued' && (
+                      <>
+                        {isParsingActive(file.parsingStatus ?? 'queued') ? (
+                          <div className="w-4 h-4 border-2 border-yellow-600 border-t-transparent rounded-full animate-spin" />
+                        ) : (
+                          <Check className="w-4 h-4 text-green-600" />
+                        )}
+                        <Badge variant="secondary" className={PARSING_STATUS_BADGE_CLASSES[file.parsingStatus ?? 'queued']}>
+                          {PARSING_STATUS_LABELS[file.parsingStatus ?? 'queued']}
+                        </Badge>
+                      </>
+                    )}
+                    {file.status === 'skipped' && (
+                      <>
+                        <Copy className="w-4 h-4 text-gray-500" />
+                        <span className="text-sm text-gray-500">Already uploaded, skipped</span>
+                      </>
+                    )}
+                    {file.status === 'replaced' && (
                       <>
                         <Check className="w-4 h-4 text-green-600" />
-                        <span className="text-sm text-green-600">Completed</span>
+                        <span className="text-sm text-green-600">Replaced existing upload</span>
                       </>
                     )}
                     {file.status === 'error' && (
@@ -383,6 +650,21 @@ const handleFiles = async (files: File[]) => {
                         <span className="text-sm text-red-600">Error</span>
                       </>
                     )}
+                    {file.status === 'rejected' && (
+                      <>
+                        <ShieldAlert className="w-4 h-4 text-orange-600" />
+                        <span className="text-sm text-orange-600">Rejected</span>
+                      </>
+                    )}
+                    {file.status === 'cancelled' && (
+                      <span className="text-sm text-gray-500">Cancelled</span>
+                    )}
+                    {(file.status === 'error' || file.status === 'cancelled') && (
+                      <Button variant="outline" size="sm" onClick={() => retryFile(file.id)}>
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        Retry
+                      </Button>
+                    )}
                     <Button
                       variant="ghost"
                       size="sm"
@@ -398,6 +680,8 @@ const handleFiles = async (files: File[]) => {
           </CardContent>
         </Card>
       )}
+
+      <DuplicateUploadDialog prompt={duplicatePrompt} onDecide={handleDuplicateDecision} />
     </div>
   );
 };
@@ -0,0 +1,389 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { ClipboardCheck, FileText, Eye, CheckCircle, AlertTriangle, ScanText, ShieldAlert } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { toast } from "@/hooks/use-toast";
+import {
+  Candidate,
+  ConfidenceField,
+  FieldConfidenceMap,
+  fromParsedDetailsColumns,
+  getFlaggedFields,
+  normalizeCandidate,
+  readFieldConfidence,
+  readSecurityFlags,
+  SECURITY_FLAG_LABELS,
+  SecurityFlag,
+} from "@/types/candidate";
+
+interface ReviewItem {
+  id: string;
+  file_name: string;
+  storage_path: string | null;
+  candidate: Candidate;
+  confidence: FieldConfidenceMap;
+  flagged: ConfidenceField[];
+  ocr_confidence: number | null;
+  security_flags: SecurityFlag[];
+}
+
+interface ReviewDraft {
+  full_name: string;
+  email: string;
+  phone: string;
+  location: string;
+  skills: string;
+}
+
+const FIELD_LABELS: Record<ConfidenceField, string> = {
+  full_name: "Name",
+  email: "Email",
+  phone: "Phone",
+  location: "Location",
+  skills: "Skills",
+  experience: "Experience",
+  education: "Education",
+};
+
+const EDITABLE_FIELDS: (keyof ReviewDraft)[] = ["full_name", "email", "phone", "location", "skills"];
+
+const toDraft = (candidate: Candidate): ReviewDraft => ({
+  full_name: candidate.full_name ?? "",
+  email: candidate.email ?? "",
+  phone: candidate.phone ?? "",
+  location: candidate.location ?? "",
+  skills: candidate.skills.join(", "),
+});
+
+const ReviewQueue = () => {
+  const { user } = useAuth();
+  const [items, setItems] = useState<ReviewItem[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, ReviewDraft>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (user) {
+      fetchQueue();
+    }
+  }, [user]);
+
+  const fetchQueue = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('parsed_resume_details')
+        .select(`
+          id,
+          full_name,
+          email,
+          phone,
+          location,
+          skills_json,
+          experience_json,
+          education_json,
+          field_confidence,
+          ocr_confidence,
+          security_flags,
+          resumes!inner(file_name, supabase_storage_path)
+        `)
+        .eq('user_id', user.id)
+        .eq('review_status', 'pending')
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching review queue:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load the review queue. Please try again.",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      const queue: ReviewItem[] = (data || []).map(row => {
+        const candidate = fromParsedDetailsColumns(row);
+        const confidence = readFieldConfidence(row.field_confidence);
+        return {
+          id: row.id,
+          file_name: row.resumes.file_name,
+          storage_path: row.resumes.supabase_storage_path,
+          candidate,
+          confidence,
+          flagged: getFlaggedFields(candidate, confidence),
+          ocr_confidence: row.ocr_confidence,
+          security_flags: readSecurityFlags(row.security_flags),
+        };
+      });
+
+      setItems(queue);
+      setDrafts(Object.fromEntries(queue.map(item => [item.id, toDraft(item.candidate)])));
+    } catch (error) {
+      console.error('Error in fetchQueue:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateDraft = (id: string, field: keyof ReviewDraft, value: string) => {
+    setDrafts(prev => ({ ...prev, [id]: { ...prev[id], [field]: value } }));
+  };
+
+  const handleView = async (item: ReviewItem) => {
+    if (!item.storage_path) return;
+    const { data, error } = await supabase.storage
+      .from('resumes')
+      .createSignedUrl(item.storage_path, 3600);
+
+    if (error || !data?.signedUrl) {
+      console.error('Error creating signed URL:', error);
+      toast({
+        title: "Error",
+        description: "Could not load resume for viewing.",
+        variant: "destructive"
+      });
+      return;
+    }
+    window.open(data.signedUrl, '_blank');
+  };
+
+  const handleConfirm = async (item: ReviewItem) => {
+    if (!user) return;
+    const draft = drafts[item.id];
+
+    const candidate = normalizeCandidate({
+      ...item.candidate,
+      full_name: draft.full_name,
+      email: draft.email,
+      phone: draft.phone,
+      location: draft.location,
+      skills: draft.skills.split(',').map(skill => skill.trim()),
+    });
+
+    if (draft.email.trim() && !candidate.email) {
+      toast({
+        title: "Invalid email",
+        description: "Please enter a valid email address or leave it empty.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // Every field the recruiter has looked at is now manually confirmed
+    const original = toDraft(item.candidate);
+    const confirmedFields = new Set<ConfidenceField>([
+      ...item.flagged,
+      ...EDITABLE_FIELDS.filter(field => draft[field] !== original[field]),
+    ]);
+    const confidence: FieldConfidenceMap = { ...item.confidence };
+    confirmedFields.forEach(field => {
+      confidence[field] = { confidence: 1, source: 'manual' };
+    });
+
+    try {
+      setSavingId(item.id);
+      const { error } = await supabase
+        .from('parsed_resume_details')
+        .update({
+          full_name: candidate.full_name,
+          email: candidate.email,
+          phone: candidate.phone,
+          location: candidate.location,
+          skills_json: candidate.skills,
+          field_confidence: confidence,
+          review_status: 'confirmed',
+          reviewed_at: new Date().toISOString(),
+          reviewed_by: user.id,
+        })
+        .eq('id', item.id);
+
+      if (error) {
+        console.error('Error confirming review:', error);
+        toast({
+          title: "Error",
+          description: "Failed to save the review. Please try again.",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      setItems(prev => prev.filter(entry => entry.id !== item.id));
+      toast({
+        title: "Candidate confirmed",
+        description: `${candidate.full_name || item.file_name} is now searchable.`,
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const renderConfidence = (item: ReviewItem, field: ConfidenceField) => {
+    const entry = item.confidence[field];
+    const flagged = item.flagged.includes(field);
+    return (
+      <Badge
+        variant="outline"
+        className={flagged ? "bg-amber-50 text-amber-700 border-amber-200" : "bg-gray-50 text-gray-600"}
+      >
+        {entry ? `${Math.round(entry.confidence * 100)}% · ${entry.source}` : 'unknown'}
+      </Badge>
+    );
+  };
+
+  if (loading) {
+    return (
+      <Card className="border-0 shadow-lg bg-white/60 backdrop-blur-sm">
+        <CardContent className="p-8 text-center">
+          <div className="w-8 h-8 border-2 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto mb-4" />
+          <p className="text-gray-600">Loading review queue...</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-0 shadow-lg bg-white/60 backdrop-blur-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <ClipboardCheck className="w-5 h-5" />
+            <span>Needs Review ({items.length})</span>
+          </CardTitle>
+          <CardDescription>
+            These parses had low-confidence or missing fields, or content that tried to manipulate the parser. Confirm or fix them to make the candidates searchable.
+          </CardDescription>
+        </CardHeader>
+      </Card>
+
+      {items.length === 0 && (
+        <Card className="border-0 shadow-lg bg-white/60 backdrop-blur-sm">
+          <CardContent className="p-8 text-center">
+            <CheckCircle className="w-12 h-12 text-green-500 mx-auto mb-4" />
+            <p className="text-gray-600">Nothing to review. All parsed resumes look good.</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {items.map(item => {
+        const draft = drafts[item.id];
+        return (
+          <Card key={item.id} className="border-0 shadow-lg bg-white/60 backdrop-blur-sm">
+            <CardContent className="p-6 space-y-4">
+              <div className="flex justify-between items-start">
+                <div className="flex items-center space-x-2">
+                  <FileText className="w-5 h-5 text-blue-600" />
+                  <span className="font-medium text-gray-800">{item.file_name}</span>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {item.ocr_confidence !== null && (
+                    <Badge
+                      variant="outline"
+                      className="bg-blue-50 text-blue-700 border-blue-200"
+                      title="Text was read from a scan or photo; compare the fields with the original"
+                    >
+                      <ScanText className="w-3 h-3 mr-1" />
+                      OCR {Math.round(item.ocr_confidence * 100)}%
+                    </Badge>
+                  )}
+                  {item.security_flags.length > 0 && (
+                    <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">
+                      <ShieldAlert className="w-3 h-3 mr-1" />
+                      Suspicious content
+                    </Badge>
+                  )}
+                  <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">
+                    <AlertTriangle className="w-3 h-3 mr-1" />
+                    {item.flagged.length} flagged
+                  </Badge>
+                  <Button
+                    onClick={() => handleView(item)}
+                    size="sm"
+                    variant="outline"
+                    className="text-green-600 border-green-200 hover:bg-green-50"
+                  >
+                    <Eye className="w-4 h-4 mr-1" />
+                    View
+                  </Button>
+                </div>
+              </div>
+
+              {item.security_flags.length > 0 && (
+                <div className="rounded-lg border border-red-200 bg-red-50/60 p-3 text-sm text-red-800 space-y-1">
+                  <p className="font-medium">
+                    This resume contained content aimed at the parser rather than the reader. It was left out of parsing;
+                    check the fields against the original file before confirming.
+                  </p>
+                  <ul className="list-disc pl-5 space-y-1">
+                    {item.security_flags.map((flag, index) => (
+                      <li key={index}>
+                        <span className="font-medium">{SECURITY_FLAG_LABELS[flag.type]}:</span> {flag.detail}
+                        {flag.excerpt && <span className="block text-xs text-red-700 break-words">"{flag.excerpt}"</span>}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div className="grid md:grid-cols-2 gap-4">
+                {EDITABLE_FIELDS.map(field => (
+                  <div key={field} className={`space-y-1 ${field === 'skills' ? 'md:col-span-2' : ''}`}>
+                    <div className="flex items-center justify-between">
+                      <label className="text-sm font-medium">{FIELD_LABELS[field]}</label>
+                      {renderConfidence(item, field)}
+                    </div>
+                    <Input
+                      value={draft?.[field] ?? ''}
+                      onChange={(e) => updateDraft(item.id, field, e.target.value)}
+                      placeholder={field === 'skills' ? 'Comma-separated skills' : `Enter ${FIELD_LABELS[field].toLowerCase()}`}
+                      className={item.flagged.includes(field) ? 'border-amber-300 bg-amber-50/50' : ''}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid md:grid-cols-2 gap-4">
+                {(['experience', 'education'] as const).map(field => (
+                  <div key={field} className="space-y-1">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium">{FIELD_LABELS[field]}</span>
+                      {renderConfidence(item, field)}
+                    </div>
+                    <ul className="text-sm text-gray-600 space-y-1">
+                      {field === 'experience'
+                        ? item.candidate.experience.map((exp, index) => (
+                            <li key={index}>{[exp.title, exp.company].filter(Boolean).join(' at ')}</li>
+                          ))
+                        : item.candidate.education.map((edu, index) => (
+                            <li key={index}>{[edu.degree, edu.institution].filter(Boolean).join(', ')}</li>
+                          ))}
+                      {item.candidate[field].length === 0 && <li className="italic">None found</li>}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex justify-end">
+                <Button
+                  onClick={() => handleConfirm(item)}
+                  disabled={savingId === item.id}
+                  className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+                >
+                  <CheckCircle className="w-4 h-4 mr-2" />
+                  {savingId === item.id ? "Saving..." : "Confirm"}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ReviewQueue;
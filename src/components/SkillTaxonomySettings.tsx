@@ -0,0 +1,230 @@
+import { useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Plus, Tags, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { toast } from "@/hooks/use-toast";
+import { SKILL_ALIASES_QUERY_KEY, SkillAlias, useSkillTaxonomy } from "@/hooks/useSkillTaxonomy";
+import { SKILL_CATEGORIES, SKILL_CATEGORY_LABELS, SkillCategory } from "@/lib/skillTaxonomy";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+
+const NO_CATEGORY = "none";
+
+interface AliasDraft {
+  alias: string;
+  canonical_name: string;
+  category: SkillCategory | typeof NO_CATEGORY;
+  parent_name: string;
+}
+
+const EMPTY_DRAFT: AliasDraft = { alias: "", canonical_name: "", category: NO_CATEGORY, parent_name: "" };
+
+// Workspace skill aliases on top of the bundled taxonomy. Everyone can look skills up;
+// workspace owners and admins can add and remove aliases.
+const SkillTaxonomySettings = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { taxonomy, aliases, workspaceId, canManage, isLoading, error } = useSkillTaxonomy();
+  const [lookup, setLookup] = useState("");
+  const [draft, setDraft] = useState<AliasDraft>(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const knownSkills = useMemo(
+    () => taxonomy.skills().map(skill => skill.name).sort((a, b) => a.localeCompare(b)),
+    [taxonomy]
+  );
+  const resolved = lookup.trim() ? taxonomy.resolve(lookup) : null;
+
+  const refreshAliases = () => queryClient.invalidateQueries({ queryKey: [SKILL_ALIASES_QUERY_KEY] });
+
+  const handleAdd = async () => {
+    if (!user || !workspaceId) return;
+    const alias = draft.alias.trim();
+    const canonicalName = draft.canonical_name.trim();
+    if (!alias || !canonicalName) {
+      toast({
+        title: "Alias and skill are required",
+        description: "Enter the spelling to match and the skill it stands for.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error: insertError } = await supabase.from('skill_aliases').insert({
+        workspace_id: workspaceId,
+        alias,
+        canonical_name: canonicalName,
+        category: draft.category === NO_CATEGORY ? null : draft.category,
+        parent_name: draft.parent_name.trim() || null,
+        created_by: user.id,
+      });
+
+      if (insertError) {
+        console.error('Error adding skill alias:', insertError);
+        toast({
+          title: "Error",
+          description: insertError.code === '23505'
+            ? `"${alias}" is already an alias in this workspace.`
+            : "Failed to add the alias. Please try again.",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      setDraft(EMPTY_DRAFT);
+      await refreshAliases();
+      toast({
+        title: "Alias added",
+        description: `"${alias}" now counts as ${canonicalName} in parsing, search and analytics.`,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (alias: SkillAlias) => {
+    setDeletingId(alias.id);
+    try {
+      const { error: deleteError } = await supabase.from('skill_aliases').delete().eq('id', alias.id);
+      if (deleteError) {
+        console.error('Error deleting skill alias:', deleteError);
+        toast({
+          title: "Error",
+          description: "Failed to remove the alias. Please try again.",
+          variant: "destructive"
+        });
+        return;
+      }
+      await refreshAliases();
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <Card className="border-0 shadow-lg bg-white/60 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Tags className="w-5 h-5" />
+          <span>Skill Taxonomy</span>
+        </CardTitle>
+        <CardDescription>
+          Skills are matched to canonical names, so "JS", "Javascript" and "javascript (ES6)" count as one skill.
+          Add aliases for spellings specific to your domain; they apply to new parses and to search and analytics right away.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Look up a skill</label>
+          <Input value={lookup} onChange={(e) => setLookup(e.target.value)} placeholder="e.g. ReactJS, k8s, Postgres" />
+          {resolved && (
+            <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+              <span>Counts as</span>
+              <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">{resolved.name}</Badge>
+              {resolved.category && <Badge variant="outline">{SKILL_CATEGORY_LABELS[resolved.category]}</Badge>}
+              {resolved.parent && <span>· part of {resolved.parent}</span>}
+              {!resolved.known && <span className="text-amber-700">· not in the taxonomy, kept as written</span>}
+            </div>
+          )}
+        </div>
+
+        <div className="pt-4 border-t space-y-3">
+          <h3 className="text-sm font-medium">Workspace aliases ({aliases.length})</h3>
+          {isLoading && <Skeleton className="h-16 w-full" />}
+          {error && <p className="text-sm text-red-600">Failed to load aliases. Please try again.</p>}
+          {!isLoading && !error && aliases.length === 0 && (
+            <p className="text-sm text-gray-500">No custom aliases yet; only the bundled taxonomy is used.</p>
+          )}
+          {aliases.map(alias => (
+            <div key={alias.id} className="flex flex-wrap items-center justify-between gap-2 p-3 rounded-lg bg-white/50 border">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="font-medium text-gray-800">{alias.alias}</span>
+                <span className="text-gray-500">→</span>
+                <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">{alias.canonical_name}</Badge>
+                {alias.category && (
+                  <Badge variant="outline">{SKILL_CATEGORY_LABELS[alias.category as SkillCategory] ?? alias.category}</Badge>
+                )}
+                {alias.parent_name && <span className="text-gray-500">· part of {alias.parent_name}</span>}
+              </div>
+              {canManage && (
+                <Button
+                  onClick={() => handleDelete(alias)}
+                  disabled={deletingId === alias.id}
+                  size="sm"
+                  variant="outline"
+                  className="text-red-600 border-red-200 hover:bg-red-50"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {canManage ? (
+          <div className="pt-4 border-t space-y-3">
+            <h3 className="text-sm font-medium">Add an alias</h3>
+            <div className="grid md:grid-cols-2 gap-3">
+              <Input
+                value={draft.alias}
+                onChange={(e) => setDraft(prev => ({ ...prev, alias: e.target.value }))}
+                placeholder="Alias, e.g. Temenos"
+              />
+              <Input
+                value={draft.canonical_name}
+                onChange={(e) => setDraft(prev => ({ ...prev, canonical_name: e.target.value }))}
+                placeholder="Counts as skill, e.g. T24 Core Banking"
+                list="known-skills"
+              />
+              <Select
+                value={draft.category}
+                onValueChange={(value) => setDraft(prev => ({ ...prev, category: value as AliasDraft["category"] }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Category" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_CATEGORY}>Category: keep the skill's own</SelectItem>
+                  {SKILL_CATEGORIES.map(category => (
+                    <SelectItem key={category} value={category}>{SKILL_CATEGORY_LABELS[category]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                value={draft.parent_name}
+                onChange={(e) => setDraft(prev => ({ ...prev, parent_name: e.target.value }))}
+                placeholder="Part of (optional), e.g. Java"
+                list="known-skills"
+              />
+            </div>
+            <datalist id="known-skills">
+              {knownSkills.map(name => <option key={name} value={name} />)}
+            </datalist>
+            <Button
+              onClick={handleAdd}
+              disabled={saving || !workspaceId}
+              className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              {saving ? "Adding..." : "Add Alias"}
+            </Button>
+          </div>
+        ) : (
+          !isLoading && (
+            <p className="pt-4 border-t text-sm text-gray-500">Only workspace owners and admins can change aliases.</p>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SkillTaxonomySettings;
@@ -7,6 +7,39 @@ import { Search, User, MapPin, Briefcase, Mail, Phone, CornerDownRight } from "l
 import { toast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useSkillTaxonomy } from "@/hooks/useSkillTaxonomy";
+import CandidateProfileDetails from "@/components/CandidateProfileDetails";
+import CustomFieldFilters from "@/components/CustomFieldFilters";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import {
+  coerceCustomFields,
+  CustomFieldFilter,
+  CustomFieldValues,
+  formatCustomFieldValue,
+  isActiveFilter,
+  matchesCustomFieldFilter,
+} from "@/lib/customFields";
+import {
+  CandidateLink,
+  Certification,
+  Education,
+  Experience,
+  formatTenure,
+  fromParsedDetailsColumns,
+  hasDatedExperience,
+  Language,
+  buildSkillProfile,
+  PROFICIENCY_LABELS,
+  Project,
+  Publication,
+  relevantExperienceMonths,
+  roleTenureMonths,
+  monthsSinceUsed,
+  SkillExperience,
+  SkillLevel,
+  totalExperienceMonths,
+} from "@/types/candidate";
+import { describeFunctionError } from "@/lib/functionErrors";
 
 interface ParsedCandidate {
   id: string;
@@ -15,10 +48,20 @@ interface ParsedCandidate {
   phone: string | null;
   location: string | null;
   skills_json: string[];
-  experience_json: any[];
-  education_json: any[];
+  experience_json: Experience[];
+  education_json: Education[];
+  skill_levels_json: SkillLevel[];
+  links_json: CandidateLink[];
+  certifications_json: Certification[];
+  projects_json: Project[];
+  languages_json: Language[];
+  publications_json: Publication[];
+  custom_fields: CustomFieldValues; // as stored; typed against the definitions when searching
+  skill_profile?: SkillExperience[]; // years, recency and level per skill
   resume_file_name: string;
+  document_count: number;
   relevanceScore?: number;
+  relevantExperienceMonths?: number; // in roles matching the search terms
 }
 
 interface ScreeningQuestionsState {
@@ -27,6 +70,33 @@ interface ScreeningQuestionsState {
   error: string | null;
 }
 
+// "5 years", "3+ yrs experience" in a query is a minimum, not a search term
+const YEARS_IN_QUERY = /\b(\d{1,2})\+?\s*(?:years?|yrs?)(?:\s+(?:of\s+)?experience)?\b/i;
+
+const searchTerms = (query: string) => query.toLowerCase().split(' ').filter(term => term.length > 2);
+
+const experienceYears = (experience: Experience[]) => totalExperienceMonths(experience) / 12;
+
+// How much a matched skill is worth beyond being listed: years of use (up to eight), recent
+// or current use and the level the candidate declared
+const skillDepthScore = (skill: SkillExperience) => {
+  const sinceUsed = monthsSinceUsed(skill);
+  let score = Math.min(Math.floor(skill.months / 12), 8) * 2;
+  if (skill.current) score += 6;
+  else if (sinceUsed !== null && sinceUsed <= 24) score += 3;
+  if (skill.level === 'expert') score += 4;
+  else if (skill.level === 'advanced') score += 2;
+  return score;
+};
+
+const describeSkill = (skill: SkillExperience) =>
+  [
+    skill.roles > 0 ? `Used in ${skill.roles} role${skill.roles === 1 ? '' : 's'}` : 'Listed, not tied to a role',
+    skill.months > 0 ? formatTenure(skill.months) : null,
+    skill.current ? 'current' : skill.last_used ? `last used ${skill.last_used}` : null,
+    skill.level ? PROFICIENCY_LABELS[skill.level] : null,
+  ].filter(Boolean).join(' · ');
+
 // Mock data for demonstration
 const mockCandidates: ParsedCandidate[] = [
   {
@@ -38,28 +108,58 @@ const mockCandidates: ParsedCandidate[] = [
     skills_json: ["React", "TypeScript", "Node.js", "Python", "AWS"],
     experience_json: [
       {
+        title: "Senior Software Engineer",
         company: "Tech Corp",
-        position: "Senior Software Engineer",
+        location: null,
+        start_date: "2020-03",
+        end_date: "2023-06",
         duration: "2020-2023",
-        description: "Led development of web applications"
+        description: "Led development of web applications",
+        skills: ["React", "TypeScript", "Node.js", "AWS"]
       },
       {
+        title: "Full Stack Developer",
         company: "StartupXYZ",
-        position: "Full Stack Developer",
+        location: null,
+        start_date: "2018-06",
+        end_date: "2020-02",
         duration: "2018-2020",
-        description: "Built scalable web solutions"
+        description: "Built scalable web solutions",
+        skills: ["React", "Node.js", "Python"]
       }
     ],
     education_json: [
       {
         degree: "Master of Science",
-        institution: "Stanford University",
         field: "Computer Science",
+        institution: "Stanford University",
         year: "2016-2018",
         grade: "3.8 GPA"
       }
     ],
-    resume_file_name: "john_doe_resume.pdf"
+    skill_levels_json: [],
+    links_json: [
+      { type: "linkedin", url: "https://linkedin.com/in/johndoe" },
+      { type: "github", url: "https://github.com/johndoe" }
+    ],
+    certifications_json: [{ name: "AWS Certified Developer – Associate", issuer: "Amazon Web Services", year: "2021" }],
+    projects_json: [
+      {
+        name: "Open-source form builder",
+        description: "Drag-and-drop form builder with 2k GitHub stars",
+        url: "https://github.com/johndoe/form-builder",
+        technologies: ["React", "TypeScript"],
+        year: "2022"
+      }
+    ],
+    languages_json: [
+      { language: "English", proficiency: "Native" },
+      { language: "Spanish", proficiency: "Professional working" }
+    ],
+    publications_json: [],
+    custom_fields: {},
+    resume_file_name: "john_doe_resume.pdf",
+    document_count: 1
   },
   {
     id: "mock-2",
@@ -70,22 +170,34 @@ const mockCandidates: ParsedCandidate[] = [
     skills_json: ["Product Management", "Agile", "Scrum", "Analytics", "Leadership"],
     experience_json: [
       {
+        title: "Senior Product Manager",
         company: "Global Inc",
-        position: "Senior Product Manager",
+        location: null,
+        start_date: "2019-01",
+        end_date: "2023-08",
         duration: "2019-2023",
-        description: "Managed product roadmap for 5M+ users"
+        description: "Managed product roadmap for 5M+ users",
+        skills: ["Product Management", "Agile", "Scrum", "Analytics"]
       }
     ],
     education_json: [
       {
         degree: "MBA",
-        institution: "Harvard Business School",
         field: "Business Administration",
+        institution: "Harvard Business School",
         year: "2015-2017",
         grade: "Magna Cum Laude"
       }
     ],
-    resume_file_name: "sarah_johnson_resume.pdf"
+    skill_levels_json: [],
+    links_json: [],
+    certifications_json: [],
+    projects_json: [],
+    languages_json: [],
+    publications_json: [],
+    custom_fields: {},
+    resume_file_name: "sarah_johnson_resume.pdf",
+    document_count: 1
   },
   {
     id: "mock-3",
@@ -96,28 +208,45 @@ const mockCandidates: ParsedCandidate[] = [
     skills_json: ["Data Science", "Machine Learning", "Python", "SQL", "TensorFlow"],
     experience_json: [
       {
+        title: "Data Scientist",
         company: "Data Analytics Co",
-        position: "Data Scientist",
+        location: null,
+        start_date: "2021-09",
+        end_date: "2023-05",
         duration: "2021-2023",
-        description: "Built ML models for customer analytics"
+        description: "Built ML models for customer analytics",
+        skills: ["Machine Learning", "Python", "SQL", "TensorFlow"]
       }
     ],
     education_json: [
       {
         degree: "PhD",
-        institution: "MIT",
         field: "Data Science",
+        institution: "MIT",
         year: "2017-2021",
         grade: "4.0 GPA"
       }
     ],
-    resume_file_name: "michael_chen_resume.pdf"
+    skill_levels_json: [],
+    links_json: [],
+    certifications_json: [],
+    projects_json: [],
+    languages_json: [],
+    publications_json: [],
+    custom_fields: {},
+    resume_file_name: "michael_chen_resume.pdf",
+    document_count: 1
   }
 ];
 
 const TalentSearch = () => {
   const { user } = useAuth();
+  const { taxonomy } = useSkillTaxonomy();
+  const { definitions: customFieldDefinitions } = useCustomFields();
   const [searchQuery, setSearchQuery] = useState("");
+  const [minYears, setMinYears] = useState("");
+  const [maxYears, setMaxYears] = useState("");
+  const [customFilters, setCustomFilters] = useState<Record<string, CustomFieldFilter>>({});
   const [isSearching, setIsSearching] = useState(false);
   const [searchResults, setSearchResults] = useState<ParsedCandidate[]>([]);
   const [allCandidates, setAllCandidates] = useState<ParsedCandidate[]>([]);
@@ -134,20 +263,34 @@ const TalentSearch = () => {
     if (!user) return;
 
     try {
-      console.log('Fetching parsed candidates for user:', user.id);
+      console.log('Fetching candidates for user:', user.id);
       
+      // Candidates own the contact details; the profile comes from their latest resume
       const { data, error } = await supabase
-        .from('parsed_resume_details')
+        .from('candidates')
         .select(`
           id,
           full_name,
           email,
           phone,
           location,
-          skills_json,
-          experience_json,
-          education_json,
-          resumes!inner(file_name)
+          documents:resumes!resumes_candidate_id_fkey(id),
+          latest_resume:resumes!candidates_latest_resume_id_fkey(
+            file_name,
+            parsed_resume_details(
+              skills_json,
+              experience_json,
+              education_json,
+              skill_levels_json,
+              links_json,
+              certifications_json,
+              projects_json,
+              languages_json,
+              publications_json,
+              custom_fields,
+              review_status
+            )
+          )
         `)
         .eq('user_id', user.id);
 
@@ -156,18 +299,40 @@ const TalentSearch = () => {
         return;
       }
 
-      const candidates = data?.map(candidate => ({
-        id: candidate.id,
-        full_name: candidate.full_name,
-        email: candidate.email,
-        phone: candidate.phone,
-        location: candidate.location,
-        skills_json: Array.isArray(candidate.skills_json) ? 
-          candidate.skills_json.map(skill => String(skill)) : [],
-        experience_json: Array.isArray(candidate.experience_json) ? candidate.experience_json : [],
-        education_json: Array.isArray(candidate.education_json) ? candidate.education_json : [],
-        resume_file_name: (candidate as any).resumes?.file_name || 'Resume'
-      })) || [];
+      const candidates = (data || [])
+        // Parses waiting in the review queue are not searchable yet
+        .filter(candidate => {
+          const details = candidate.latest_resume?.parsed_resume_details;
+          return details && details.review_status !== 'pending';
+        })
+        .map(candidate => {
+          const profile = fromParsedDetailsColumns({
+            ...candidate.latest_resume!.parsed_resume_details!,
+            full_name: candidate.full_name,
+            email: candidate.email,
+            phone: candidate.phone,
+            location: candidate.location,
+          });
+          return {
+            id: candidate.id,
+            full_name: profile.full_name,
+            email: profile.email,
+            phone: profile.phone,
+            location: profile.location,
+            skills_json: profile.skills,
+            experience_json: profile.experience,
+            education_json: profile.education,
+            skill_levels_json: profile.skill_levels,
+            links_json: profile.links,
+            certifications_json: profile.certifications,
+            projects_json: profile.projects,
+            languages_json: profile.languages,
+            publications_json: profile.publications,
+            custom_fields: candidate.latest_resume!.parsed_resume_details!.custom_fields as CustomFieldValues,
+            resume_file_name: candidate.latest_resume?.file_name || 'Resume',
+            document_count: candidate.documents.length
+          };
+        });
 
       console.log('Fetched candidates:', candidates);
       
@@ -183,7 +348,7 @@ const TalentSearch = () => {
   const calculateRelevanceScore = (candidate: ParsedCandidate, query: string): number => {
     if (!query.trim()) return 0;
     
-    const queryTerms = query.toLowerCase().split(' ').filter(term => term.length > 2);
+    const queryTerms = searchTerms(query);
     let score = 0;
     
     // Name match (high weight)
@@ -195,6 +360,17 @@ const TalentSearch = () => {
       });
     }
     
+    // Canonical skill match: "JS" finds JavaScript, and a JavaScript search also credits React
+    taxonomy.findInText(query).forEach(querySkill => {
+      const related = taxonomy.withDescendants(querySkill);
+      if (candidate.skills_json.includes(querySkill)) score += 15;
+      else if (candidate.skills_json.some(skill => related.includes(skill))) score += 8;
+
+      // Eight years of daily use outranks a keyword mentioned once
+      const used = candidate.skill_profile?.find(skill => skill.name === querySkill);
+      if (used) score += skillDepthScore(used);
+    });
+
     // Skills match (very high weight)
     if (candidate.skills_json && candidate.skills_json.length > 0) {
       queryTerms.forEach(term => {
@@ -211,13 +387,13 @@ const TalentSearch = () => {
       queryTerms.forEach(term => {
         candidate.experience_json.forEach(exp => {
           if (exp.company && exp.company.toLowerCase().includes(term)) score += 10;
-          if (exp.position && exp.position.toLowerCase().includes(term)) score += 12;
+          if (exp.title && exp.title.toLowerCase().includes(term)) score += 12;
           if (exp.description && exp.description.toLowerCase().includes(term)) score += 5;
         });
       });
       
-      // Bonus for more experience
-      score += candidate.experience_json.length * 2;
+      // Bonus for more experience, up to ten years
+      score += Math.min(Math.floor(experienceYears(candidate.experience_json)), 10) * 2;
     }
     
     // Education match (medium weight)
@@ -231,6 +407,29 @@ const TalentSearch = () => {
       });
     }
     
+    // Certifications, spoken languages, projects, publications and links ("github" finds a GitHub profile)
+    queryTerms.forEach(term => {
+      candidate.certifications_json.forEach(cert => {
+        if (cert.name && cert.name.toLowerCase().includes(term)) score += 10;
+        if (cert.issuer && cert.issuer.toLowerCase().includes(term)) score += 4;
+      });
+      candidate.languages_json.forEach(lang => {
+        if (lang.language && lang.language.toLowerCase().includes(term)) score += 8;
+      });
+      candidate.projects_json.forEach(project => {
+        if (project.name && project.name.toLowerCase().includes(term)) score += 6;
+        if (project.technologies.some(tech => tech.toLowerCase().includes(term))) score += 6;
+        if (project.description && project.description.toLowerCase().includes(term)) score += 3;
+      });
+      candidate.publications_json.forEach(pub => {
+        if (pub.title && pub.title.toLowerCase().includes(term)) score += 4;
+      });
+      candidate.links_json.forEach(link => {
+        if (link.type.includes(term)) score += 6;
+        else if (link.url.toLowerCase().includes(term)) score += 4;
+      });
+    });
+
     // Location match (medium weight)
     if (candidate.location) {
       queryTerms.forEach(term => {
@@ -244,10 +443,17 @@ const TalentSearch = () => {
   };
 
   const handleSearch = async () => {
-    if (!searchQuery.trim()) {
+    const yearsInQuery = searchQuery.match(YEARS_IN_QUERY);
+    const query = searchQuery.replace(YEARS_IN_QUERY, ' ').replace(/\s+/g, ' ').trim();
+    const minimum = minYears !== "" ? Number(minYears) : yearsInQuery ? Number(yearsInQuery[1]) : null;
+    const maximum = maxYears !== "" ? Number(maxYears) : null;
+
+    const activeCustomFilters = customFieldDefinitions.filter(definition => isActiveFilter(customFilters[definition.key]));
+
+    if (!query && minimum === null && maximum === null && activeCustomFilters.length === 0) {
       toast({
         title: "Please enter search criteria",
-        description: "Enter skills, location, or other criteria to search for candidates.",
+        description: "Enter skills, location, years of experience or other criteria to search for candidates.",
         variant: "destructive"
       });
       return;
@@ -259,13 +465,33 @@ const TalentSearch = () => {
     // Simulate search delay for better UX
     setTimeout(() => {
       // Calculate relevance scores for all candidates, filter, and sort.
+      // Without search terms, everyone in the experience range matches, most experienced first
       const rankedResults = allCandidates
         .map(candidate => ({
           ...candidate,
-          relevanceScore: calculateRelevanceScore(candidate, searchQuery),
+          skills_json: taxonomy.canonicalize(candidate.skills_json),
+          skill_profile: buildSkillProfile({
+            skills: candidate.skills_json,
+            experience: candidate.experience_json,
+            skill_levels: candidate.skill_levels_json,
+          }, taxonomy),
         }))
-        .filter(candidate => (candidate.relevanceScore || 0) > 0)
-        .sort((a, b) => (b.relevanceScore || 0) - (a.relevanceScore || 0));
+        .filter(candidate => {
+          const years = experienceYears(candidate.experience_json);
+          return (minimum === null || years >= minimum) && (maximum === null || years <= maximum);
+        })
+        .map(candidate => ({ ...candidate, custom_fields: coerceCustomFields(candidate.custom_fields, customFieldDefinitions) }))
+        .filter(candidate => activeCustomFilters.every(definition =>
+          matchesCustomFieldFilter(candidate.custom_fields[definition.key], definition, customFilters[definition.key])
+        ))
+        .map(candidate => ({
+          ...candidate,
+          relevanceScore: query ? calculateRelevanceScore(candidate, query) : 0,
+          relevantExperienceMonths: relevantExperienceMonths(candidate.experience_json, searchTerms(query)),
+        }))
+        .filter(candidate => !query || (candidate.relevanceScore || 0) > 0)
+        .sort((a, b) => (b.relevanceScore || 0) - (a.relevanceScore || 0)
+          || experienceYears(b.experience_json) - experienceYears(a.experience_json));
 
       setSearchResults(rankedResults);
       setIsSearching(false);
@@ -359,7 +585,7 @@ Best regards,
 
     } catch (error: any) {
       console.error('Error generating questions:', error);
-      const errorMessage = error.message || "An unknown error occurred.";
+      const errorMessage = await describeFunctionError(error, error.message || "An unknown error occurred.");
       setScreeningQuestions(prev => ({
         ...prev,
         [candidateId]: { loading: false, questions: null, error: errorMessage }
@@ -372,9 +598,19 @@ Best regards,
     }
   };
 
-  const calculateExperience = (experience_json: any[]) => {
-    if (!experience_json || experience_json.length === 0) return "Entry level";
-    return `${experience_json.length * 2}+ years`;
+  const describeExperience = (candidate: ParsedCandidate) => {
+    const experience = candidate.experience_json;
+    if (!experience || experience.length === 0) return "Entry level";
+    if (!hasDatedExperience(experience)) return `${experience.length} role${experience.length === 1 ? '' : 's'}, dates not given`;
+    const total = `${formatTenure(totalExperienceMonths(experience))} experience`;
+    return candidate.relevantExperienceMonths
+      ? `${total} (${formatTenure(candidate.relevantExperienceMonths)} relevant)`
+      : total;
+  };
+
+  const describeTenure = (experience: Experience) => {
+    const months = roleTenureMonths(experience);
+    return [experience.duration, months !== null ? formatTenure(months) : null].filter(Boolean).join(' · ');
   };
 
   const getDisplayName = (candidate: ParsedCandidate) => {
@@ -383,7 +619,7 @@ Best regards,
 
   const getDisplayTitle = (candidate: ParsedCandidate) => {
     if (candidate.experience_json && candidate.experience_json.length > 0) {
-      return candidate.experience_json[0].position || "Professional";
+      return candidate.experience_json[0].title || "Professional";
     }
     if (candidate.education_json && candidate.education_json.length > 0) {
       return `${candidate.education_json[0].degree || 'Graduate'} - ${candidate.education_json[0].field || 'Various Fields'}`;
@@ -428,7 +664,7 @@ Best regards,
             <span>AI-Powered Talent Search</span>
           </CardTitle>
           <CardDescription>
-            Search through your parsed resumes using AI-powered ranking. Try queries like "Python developer", "San Francisco", "Machine Learning", or "5 years experience".
+            Search through your parsed resumes using AI-powered ranking. Try queries like "Python developer", "San Francisco", "Machine Learning", or "5 years experience". Years of experience are computed from the dates of each role, counting overlapping roles once.
             {allCandidates.length > 0 && (
               <span className="block mt-2 text-sm font-medium text-blue-600">
                 {allCandidates.length} candidates available in your talent pool
@@ -445,6 +681,26 @@ Best regards,
               onKeyPress={(e) => e.key === 'Enter' && handleSearch()}
               className="flex-1"
             />
+            <Input
+              type="number"
+              min={0}
+              placeholder="Min years"
+              value={minYears}
+              onChange={(e) => setMinYears(e.target.value)}
+              onKeyPress={(e) => e.key === 'Enter' && handleSearch()}
+              className="w-28"
+              aria-label="Minimum years of experience"
+            />
+            <Input
+              type="number"
+              min={0}
+              placeholder="Max years"
+              value={maxYears}
+              onChange={(e) => setMaxYears(e.target.value)}
+              onKeyPress={(e) => e.key === 'Enter' && handleSearch()}
+              className="w-28"
+              aria-label="Maximum years of experience"
+            />
             <Button 
               onClick={handleSearch}
               disabled={isSearching}
@@ -458,6 +714,11 @@ Best regards,
               {isSearching ? "Searching..." : "Search"}
             </Button>
           </div>
+          <CustomFieldFilters
+            definitions={customFieldDefinitions}
+            filters={customFilters}
+            onChange={(key, filter) => setCustomFilters(prev => ({ ...prev, [key]: filter }))}
+          />
         </CardContent>
       </Card>
 
@@ -487,7 +748,9 @@ Best regards,
                       #{index + 1} - {getRelevanceLabel(candidate.relevanceScore || 0)}
                     </Badge>
                     <Badge variant="secondary" className={candidate.id.startsWith('mock-') ? "bg-orange-100 text-orange-800" : "bg-green-100 text-green-800"}>
-                      {candidate.id.startsWith('mock-') ? 'Demo Candidate' : 'Parsed Resume'}
+                      {candidate.id.startsWith('mock-')
+                        ? 'Demo Candidate'
+                        : `${candidate.document_count} document${candidate.document_count === 1 ? '' : 's'}`}
                     </Badge>
                   </div>
                 </div>
@@ -513,7 +776,7 @@ Best regards,
                   )}
                   <div className="flex items-center space-x-2 text-gray-600">
                     <Briefcase className="w-4 h-4" />
-                    <span className="text-sm">{calculateExperience(candidate.experience_json)} experience</span>
+                    <span className="text-sm">{describeExperience(candidate)}</span>
                   </div>
                 </div>
 
@@ -521,8 +784,8 @@ Best regards,
                   <div className="mb-4">
                     <p className="text-sm font-medium text-gray-700 mb-2">Latest Experience:</p>
                     <p className="text-gray-700 text-sm">
-                      {candidate.experience_json[0].position} at {candidate.experience_json[0].company}
-                      {candidate.experience_json[0].duration && ` (${candidate.experience_json[0].duration})`}
+                      {candidate.experience_json[0].title} at {candidate.experience_json[0].company}
+                      {describeTenure(candidate.experience_json[0]) && ` (${describeTenure(candidate.experience_json[0])})`}
                     </p>
                   </div>
                 )}
@@ -531,9 +794,15 @@ Best regards,
                   <div className="mb-4">
                     <p className="text-sm font-medium text-gray-700 mb-2">Skills:</p>
                     <div className="flex flex-wrap gap-2">
-                      {candidate.skills_json.slice(0, 10).map((skill, index) => (
-                        <Badge key={index} variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">
-                          {skill}
+                      {(candidate.skill_profile ?? []).slice(0, 10).map(skill => (
+                        <Badge
+                          key={skill.name}
+                          variant="outline"
+                          className="bg-blue-50 text-blue-700 border-blue-200"
+                          title={describeSkill(skill)}
+                        >
+                          {skill.name}
+                          {skill.months > 0 && <span className="ml-1 text-blue-500">· {formatTenure(skill.months)}</span>}
                         </Badge>
                       ))}
                       {candidate.skills_json.length > 10 && (
@@ -545,6 +814,29 @@ Best regards,
                   </div>
                 )}
 
+                {customFieldDefinitions.some(definition => candidate.custom_fields[definition.key] != null) && (
+                  <div className="grid md:grid-cols-2 gap-x-4 gap-y-1 mb-4 text-sm">
+                    {customFieldDefinitions
+                      .filter(definition => candidate.custom_fields[definition.key] != null)
+                      .map(definition => (
+                        <div key={definition.key} className="text-gray-700">
+                          <span className="text-gray-500">{definition.name}:</span>{' '}
+                          {formatCustomFieldValue(candidate.custom_fields[definition.key])}
+                        </div>
+                      ))}
+                  </div>
+                )}
+
+                <CandidateProfileDetails
+                  candidate={{
+                    links: candidate.links_json,
+                    certifications: candidate.certifications_json,
+                    languages: candidate.languages_json,
+                    projects: candidate.projects_json,
+                    publications: candidate.publications_json,
+                  }}
+                />
+
                 <div className="flex space-x-2">
                   <Button 
                     onClick={() => generateQuestions(candidate)}
@@ -0,0 +1,92 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Gauge, RefreshCw } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { formatRetryAfter } from "@/lib/functionErrors";
+
+type UsageRow = {
+  action: string;
+  scope: string;
+  description: string;
+  capacity: number;
+  refill_seconds: number;
+  remaining: number;
+};
+
+const SCOPE_LABELS: Record<string, string> = {
+  user: "You",
+  workspace: "Workspace",
+};
+
+const fetchUsage = async (): Promise<UsageRow[]> => {
+  const { data, error } = await supabase.rpc('get_rate_limit_usage');
+  if (error) throw error;
+  return data ?? [];
+};
+
+// Current token-bucket usage for the signed-in user and their workspace
+const UsageLimits = () => {
+  const { data, isLoading, error, refetch, isFetching } = useQuery({
+    queryKey: ['rateLimitUsage'],
+    queryFn: fetchUsage,
+  });
+
+  const byAction = useMemo(() => {
+    const groups = new Map<string, UsageRow[]>();
+    for (const row of data ?? []) {
+      groups.set(row.action, [...(groups.get(row.action) ?? []), row]);
+    }
+    return [...groups.values()];
+  }, [data]);
+
+  return (
+    <Card className="border-0 shadow-lg bg-white/60 backdrop-blur-sm">
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <Gauge className="w-5 h-5" />
+              <span>Usage Limits</span>
+            </CardTitle>
+            <CardDescription>
+              Limits refill continuously. Workspace limits are shared by all of its members.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`w-4 h-4 mr-1 ${isFetching ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading && <Skeleton className="h-24 w-full" />}
+        {error && <p className="text-sm text-red-600">Failed to load usage. Please try again.</p>}
+        {byAction.map(rows => (
+          <div key={rows[0].action} className="space-y-3">
+            <h3 className="text-sm font-medium">{rows[0].description}</h3>
+            {rows.map(row => {
+              const used = row.capacity - row.remaining;
+              return (
+                <div key={row.scope} className="space-y-1">
+                  <div className="flex justify-between text-xs text-gray-600">
+                    <span>{SCOPE_LABELS[row.scope] ?? row.scope}</span>
+                    <span>
+                      {used} of {row.capacity} used · refills every {formatRetryAfter(row.refill_seconds)}
+                    </span>
+                  </div>
+                  <Progress value={(used / row.capacity) * 100} className="h-2" />
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UsageLimits;
@@ -0,0 +1,51 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { Tables } from "@/integrations/supabase/types";
+import { fetchWorkspaceMembership, isWorkspaceAdmin } from "@/lib/workspace";
+
+export type CustomFieldDefinitionRow = Tables<"custom_field_definitions">;
+
+interface WorkspaceCustomFields {
+  workspaceId: string | null;
+  role: string | null;
+  definitions: CustomFieldDefinitionRow[];
+}
+
+const fetchWorkspaceCustomFields = async (userId: string): Promise<WorkspaceCustomFields> => {
+  const membership = await fetchWorkspaceMembership(userId);
+  if (!membership) return { workspaceId: null, role: null, definitions: [] };
+
+  const { data: definitions, error } = await supabase
+    .from('custom_field_definitions')
+    .select('*')
+    .eq('workspace_id', membership.workspaceId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+
+  return { workspaceId: membership.workspaceId, role: membership.role, definitions: definitions ?? [] };
+};
+
+export const CUSTOM_FIELDS_QUERY_KEY = 'customFieldDefinitions';
+
+// The custom extraction fields of the user's workspace, in the order they were defined
+export const useCustomFields = () => {
+  const { user } = useAuth();
+  const query = useQuery({
+    queryKey: [CUSTOM_FIELDS_QUERY_KEY, user?.id],
+    queryFn: () => fetchWorkspaceCustomFields(user!.id),
+    enabled: !!user,
+  });
+
+  const definitions = useMemo(() => query.data?.definitions ?? [], [query.data]);
+
+  return {
+    definitions,
+    workspaceId: query.data?.workspaceId ?? null,
+    canManage: isWorkspaceAdmin(query.data?.role),
+    isLoading: query.isLoading,
+    error: query.error,
+    refetch: query.refetch,
+  };
+};
@@ -1,76 +1,68 @@
-
 import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
 import { toast } from "@/hooks/use-toast";
+import { describeFunctionError } from "@/lib/functionErrors";
+
+// Matches MAX_RESUMES_PER_REQUEST in the parse-resume function
+const PARSE_REQUEST_BATCH_SIZE = 100;
+
+interface ParseRequestResult {
+  queued: string[];
+  alreadyQueued: string[];
+}
 
 export const useResumeParser = () => {
-  const triggerParsing = async (resumeId: string) => {
-    try {
-      console.log('Triggering resume parsing for:', resumeId);
-      
-      // First, get the resume details to find the file path
-      const { data: resumeData, error: fetchError } = await supabase
-        .from('resumes')
-        .select('supabase_storage_path')
-        .eq('id', resumeId)
-        .single();
+  const { user } = useAuth();
 
-      if (fetchError || !resumeData) {
-        console.error('Error fetching resume data:', fetchError);
-        toast({
-          title: "Parsing failed",
-          description: "Could not find resume file. Please try uploading again.",
-          variant: "destructive"
-        });
-        return false;
-      }
+  // Kick the worker so freshly queued jobs start right away. The worker also runs on a
+  // schedule, so a failed kick (or a closed tab) only delays parsing.
+  const kickWorker = () => {
+    supabase.functions.invoke('parse-worker').then(({ error }) => {
+      if (error) console.error('Failed to start parse worker:', error);
+    });
+  };
 
-      console.log('Invoking parse-resume function with data:', {
-        resumeId: resumeId,
-        filePath: resumeData.supabase_storage_path
-      });
+  const enqueueParsing = async (resumeIds: string[]) => {
+    if (!user || resumeIds.length === 0) return false;
 
-      const { data, error } = await supabase.functions.invoke('parse-resume', {
-        body: { 
-          resumeId: resumeId,
-          filePath: resumeData.supabase_storage_path
-        }
-      });
+    try {
+      console.log('Enqueueing resume parsing for:', resumeIds);
 
-      if (error) {
-        console.error('Resume parsing error:', error);
-        toast({
-          title: "Parsing failed",
-          description: "Failed to parse resume with AI. Please try again.",
-          variant: "destructive"
+      let queuedAny = false;
+      let allQueued = true;
+      for (let start = 0; start < resumeIds.length; start += PARSE_REQUEST_BATCH_SIZE) {
+        // The endpoint checks ownership of every resume before queueing any of them
+        const { data, error } = await supabase.functions.invoke<ParseRequestResult>('parse-resume', {
+          body: { resumeIds: resumeIds.slice(start, start + PARSE_REQUEST_BATCH_SIZE) }
         });
-        return false;
+
+        if (error) {
+          console.error('Error enqueueing parse jobs:', error);
+          toast({
+            title: "Parsing not queued",
+            description: await describeFunctionError(error, "Failed to queue resumes for parsing. Please try again."),
+            variant: "destructive"
+          });
+          allQueued = false;
+          break;
+        }
+        queuedAny ||= (data?.queued.length ?? 0) > 0;
       }
 
-      console.log('Resume parsing response:', data);
-      
-      if (data.success) {
-        toast({
-          title: "Resume parsed successfully",
-          description: "Your resume has been processed and parsed.",
-        });
-        return true;
-      } else {
-        toast({
-          title: "Parsing completed with warnings",
-          description: "Resume was processed but some information may not have been extracted.",
-        });
-        return true;
+      if (queuedAny) {
+        kickWorker();
       }
+      return allQueued;
     } catch (error) {
       console.error('Resume parsing error:', error);
       toast({
-        title: "Parsing failed",
-        description: "Failed to parse resume with AI. Please try again.",
+        title: "Parsing not queued",
+        description: "Failed to queue resumes for parsing. Please try again.",
         variant: "destructive"
       });
       return false;
     }
   };
 
-  return { triggerParsing };
+  return { enqueueParsing };
 };
@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useId, useRef, useState } from "react";
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { Tables } from "@/integrations/supabase/types";
+import { ACTIVE_PARSING_STATUSES } from "@/lib/parsingStatus";
+
+// Columns of parsed_resume_details the realtime publication carries; the rest is refetched
+type ParsedDetailsChange = Pick<Tables<"parsed_resume_details">, "id" | "resume_id" | "user_id" | "review_status">;
+
+export type ResumeRealtimeChange =
+  | { table: 'resumes'; payload: RealtimePostgresChangesPayload<Tables<"resumes">> }
+  | { table: 'parsed_resume_details'; payload: RealtimePostgresChangesPayload<ParsedDetailsChange> };
+
+// Subscribes to the current user's resumes and parsed details. Each caller gets its
+// own channel; the latest onChange is always used without resubscribing.
+export const useResumeRealtime = (onChange: (change: ResumeRealtimeChange) => void) => {
+  const { user } = useAuth();
+  const channelId = useId();
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    if (!user) return;
+
+    const filter = `user_id=eq.${user.id}`;
+    const channel = supabase
+      .channel(`resume-changes${channelId}`)
+      .on<Tables<"resumes">>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'resumes', filter },
+        (payload) => onChangeRef.current({ table: 'resumes', payload })
+      )
+      .on<ParsedDetailsChange>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'parsed_resume_details', filter },
+        (payload) => onChangeRef.current({ table: 'parsed_resume_details', payload })
+      )
+      .subscribe((status, error) => {
+        if (error) console.error('Realtime subscription error:', status, error);
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, channelId]);
+};
+
+// Realtime bursts (a batch finishing) should trigger one refetch, not one per row
+export const useDebouncedCallback = (callback: () => void, delayMs = 500) => {
+  const callbackRef = useRef(callback);
+  callbackRef.current = callback;
+  const timer = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => () => clearTimeout(timer.current), []);
+
+  return () => {
+    clearTimeout(timer.current);
+    timer.current = setTimeout(() => callbackRef.current(), delayMs);
+  };
+};
+
+// Number of the user's resumes still queued, extracting or parsing, kept live
+export const useActiveParsingCount = () => {
+  const { user } = useAuth();
+  const [count, setCount] = useState(0);
+
+  const fetchCount = useCallback(async () => {
+    if (!user) return;
+    const { count: activeCount, error } = await supabase
+      .from('resumes')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id)
+      .in('parsing_status', ACTIVE_PARSING_STATUSES);
+
+    if (error) {
+      console.error('Error counting active parses:', error);
+      return;
+    }
+    setCount(activeCount ?? 0);
+  }, [user]);
+
+  const refetch = useDebouncedCallback(fetchCount);
+
+  useEffect(() => {
+    if (user) {
+      fetchCount();
+    } else {
+      setCount(0);
+    }
+  }, [user, fetchCount]);
+
+  useResumeRealtime(({ table }) => {
+    if (table === 'resumes') refetch();
+  });
+
+  return count;
+};
@@ -2,6 +2,7 @@
 import { useState, useEffect, createContext, useContext } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { signInWithLockout } from '@/lib/signIn';
 
 interface SecureAuthContextType {
   user: User | null;
@@ -46,39 +47,6 @@ const sanitizeInput = (input: string): string => {
   return input.trim().slice(0, 255); // Limit input length and trim whitespace
 };
 
-// Rate limiting for authentication attempts
-const authAttempts = new Map<string, { count: number; lastAttempt: number }>();
-const MAX_AUTH_ATTEMPTS = 5;
-const LOCKOUT_DURATION = 15 * 60 * 1000; // 15 minutes
-
-const checkRateLimit = (identifier: string): boolean => {
-  const now = Date.now();
-  const attempts = authAttempts.get(identifier);
-  
-  if (!attempts) return true;
-  
-  if (now - attempts.lastAttempt > LOCKOUT_DURATION) {
-    authAttempts.delete(identifier);
-    return true;
-  }
-  
-  return attempts.count < MAX_AUTH_ATTEMPTS;
-};
-
-const recordAuthAttempt = (identifier: string, success: boolean) => {
-  const now = Date.now();
-  const attempts = authAttempts.get(identifier) || { count: 0, lastAttempt: 0 };
-  
-  if (success) {
-    authAttempts.delete(identifier);
-  } else {
-    authAttempts.set(identifier, {
-      count: attempts.count + 1,
-      lastAttempt: now
-    });
-  }
-};
-
 export const SecureAuthProvider = ({ children }: { children: React.ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
@@ -130,13 +98,9 @@ export const SecureAuthProvider = ({ children }: { children: React.ReactNode })
         return { error: { message: passwordValidation.message } };
       }
 
-      // Rate limiting check
-      if (!checkRateLimit(sanitizedEmail)) {
-        return { error: { message: 'Too many attempts. Please try again later.' } };
-      }
-
       const redirectUrl = `${window.location.origin}/`;
       
+      // Throttled per IP by Supabase Auth (see [auth.rate_limit] in supabase/config.toml)
       const { error } = await supabase.auth.signUp({
         email: sanitizedEmail,
         password,
@@ -148,8 +112,6 @@ export const SecureAuthProvider = ({ children }: { children: React.ReactNode })
         }
       });
 
-      recordAuthAttempt(sanitizedEmail, !error);
-      
       if (!error) {
         await supabase.rpc('log_auth_event', {
           event_type: 'sign_up',
@@ -171,18 +133,7 @@ export const SecureAuthProvider = ({ children }: { children: React.ReactNode })
         return { error: { message: 'Invalid email format' } };
       }
 
-      if (!checkRateLimit(sanitizedEmail)) {
-        return { error: { message: 'Too many attempts. Please try again later.' } };
-      }
-
-      const { error } = await supabase.auth.signInWithPassword({
-        email: sanitizedEmail,
-        password
-      });
-
-      recordAuthAttempt(sanitizedEmail, !error);
-      
-      return { error };
+      return await signInWithLockout(sanitizedEmail, password);
     } catch (error: any) {
       return { error: { message: 'An unexpected error occurred' } };
     }
@@ -208,11 +159,8 @@ export const SecureAuthProvider = ({ children }: { children: React.ReactNode })
         return { error: { message: passwordValidation.message } };
       }
 
-      // Verify current password by attempting to sign in
-      const { error: verificationError } = await supabase.auth.signInWithPassword({
-        email: user.email!,
-        password: currentPassword
-      });
+      // Verify current password by attempting to sign in, under the same lockout
+      const { error: verificationError } = await signInWithLockout(user.email!, currentPassword);
 
       if (verificationError) {
         return { error: { message: 'Current password is incorrect' } };
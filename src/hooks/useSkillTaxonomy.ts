@@ -0,0 +1,55 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { Tables } from "@/integrations/supabase/types";
+import { createSkillTaxonomy } from "@/lib/skillTaxonomy";
+import { fetchWorkspaceMembership, isWorkspaceAdmin } from "@/lib/workspace";
+
+export type SkillAlias = Tables<"skill_aliases">;
+
+interface WorkspaceSkills {
+  workspaceId: string | null;
+  role: string | null;
+  aliases: SkillAlias[];
+}
+
+const fetchWorkspaceSkills = async (userId: string): Promise<WorkspaceSkills> => {
+  const membership = await fetchWorkspaceMembership(userId);
+  if (!membership) return { workspaceId: null, role: null, aliases: [] };
+
+  const { data: aliases, error: aliasesError } = await supabase
+    .from('skill_aliases')
+    .select('*')
+    .eq('workspace_id', membership.workspaceId)
+    .order('alias', { ascending: true });
+  if (aliasesError) throw aliasesError;
+
+  return { workspaceId: membership.workspaceId, role: membership.role, aliases: aliases ?? [] };
+};
+
+export const SKILL_ALIASES_QUERY_KEY = 'skillAliases';
+
+// The bundled skill taxonomy extended with the workspace's custom aliases. Until the
+// aliases load (or if they fail to) the bundled taxonomy is used on its own.
+export const useSkillTaxonomy = () => {
+  const { user } = useAuth();
+  const query = useQuery({
+    queryKey: [SKILL_ALIASES_QUERY_KEY, user?.id],
+    queryFn: () => fetchWorkspaceSkills(user!.id),
+    enabled: !!user,
+  });
+
+  const aliases = useMemo(() => query.data?.aliases ?? [], [query.data]);
+  const taxonomy = useMemo(() => createSkillTaxonomy(aliases), [aliases]);
+
+  return {
+    taxonomy,
+    aliases,
+    workspaceId: query.data?.workspaceId ?? null,
+    canManage: isWorkspaceAdmin(query.data?.role),
+    isLoading: query.isLoading,
+    error: query.error,
+    refetch: query.refetch,
+  };
+};
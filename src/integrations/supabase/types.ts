@@ -30,48 +30,354 @@ export type Database = {
         }
         Relationships: []
       }
+      candidate_merges: {
+        Row: {
+          field_choices: Json
+          id: string
+          merged_at: string
+          merged_by: string | null
+          merged_candidate_id: string
+          merged_snapshot: Json
+          primary_candidate_id: string
+          user_id: string
+        }
+        Insert: {
+          field_choices?: Json
+          id?: string
+          merged_at?: string
+          merged_by?: string | null
+          merged_candidate_id: string
+          merged_snapshot: Json
+          primary_candidate_id: string
+          user_id: string
+        }
+        Update: {
+          field_choices?: Json
+          id?: string
+          merged_at?: string
+          merged_by?: string | null
+          merged_candidate_id?: string
+          merged_snapshot?: Json
+          primary_candidate_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "candidate_merges_primary_candidate_id_fkey"
+            columns: ["primary_candidate_id"]
+            isOneToOne: false
+            referencedRelation: "candidates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      candidate_notes: {
+        Row: {
+          body: string
+          candidate_id: string
+          created_at: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          body: string
+          candidate_id: string
+          created_at?: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          body?: string
+          candidate_id?: string
+          created_at?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "candidate_notes_candidate_id_fkey"
+            columns: ["candidate_id"]
+            isOneToOne: false
+            referencedRelation: "candidates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      candidates: {
+        Row: {
+          created_at: string
+          email: string | null
+          full_name: string | null
+          id: string
+          latest_resume_id: string | null
+          location: string | null
+          phone: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          email?: string | null
+          full_name?: string | null
+          id?: string
+          latest_resume_id?: string | null
+          location?: string | null
+          phone?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string | null
+          full_name?: string | null
+          id?: string
+          latest_resume_id?: string | null
+          location?: string | null
+          phone?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "candidates_latest_resume_id_fkey"
+            columns: ["latest_resume_id"]
+            isOneToOne: false
+            referencedRelation: "resumes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      custom_field_definitions: {
+        Row: {
+          allowed_values: string[]
+          created_at: string
+          created_by: string | null
+          description: string | null
+          field_type: string
+          id: string
+          key: string
+          name: string
+          updated_at: string
+          workspace_id: string
+        }
+        Insert: {
+          allowed_values?: string[]
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          field_type: string
+          id?: string
+          key: string
+          name: string
+          updated_at?: string
+          workspace_id: string
+        }
+        Update: {
+          allowed_values?: string[]
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          field_type?: string
+          id?: string
+          key?: string
+          name?: string
+          updated_at?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "custom_field_definitions_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      parse_jobs: {
+        Row: {
+          attempts: number
+          created_at: string
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          max_attempts: number
+          next_attempt_at: string
+          resume_id: string
+          status: Database["public"]["Enums"]["parsing_status"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          resume_id: string
+          status?: Database["public"]["Enums"]["parsing_status"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          resume_id?: string
+          status?: Database["public"]["Enums"]["parsing_status"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "parse_jobs_resume_id_fkey"
+            columns: ["resume_id"]
+            isOneToOne: false
+            referencedRelation: "resumes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      parsed_resume_detail_revisions: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          changed_fields: string[]
+          id: string
+          new_values: Json
+          old_values: Json
+          parsed_detail_id: string
+          resume_id: string
+          user_id: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          changed_fields: string[]
+          id?: string
+          new_values: Json
+          old_values: Json
+          parsed_detail_id: string
+          resume_id: string
+          user_id: string
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          changed_fields?: string[]
+          id?: string
+          new_values?: Json
+          old_values?: Json
+          parsed_detail_id?: string
+          resume_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "parsed_resume_detail_revisions_parsed_detail_id_fkey"
+            columns: ["parsed_detail_id"]
+            isOneToOne: false
+            referencedRelation: "parsed_resume_details"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       parsed_resume_details: {
         Row: {
+          certifications_json: Json
           created_at: string
+          custom_fields: Json
           education_json: Json | null
           email: string | null
           experience_json: Json | null
+          extraction_method: string | null
+          field_confidence: Json
           full_name: string | null
           id: string
+          languages_json: Json
+          links_json: Json
           location: string | null
+          ocr_confidence: number | null
+          parse_warnings: string[]
           phone: string | null
+          projects_json: Json
+          publications_json: Json
           raw_text_content: string | null
           resume_id: string
+          review_status: Database["public"]["Enums"]["parse_review_status"]
+          reviewed_at: string | null
+          reviewed_by: string | null
+          schema_version: number
+          security_flags: Json
+          skill_levels_json: Json
           skills_json: Json | null
           updated_at: string
           user_id: string
         }
         Insert: {
+          certifications_json?: Json
           created_at?: string
+          custom_fields?: Json
           education_json?: Json | null
           email?: string | null
           experience_json?: Json | null
+          extraction_method?: string | null
+          field_confidence?: Json
           full_name?: string | null
           id?: string
+          languages_json?: Json
+          links_json?: Json
           location?: string | null
+          ocr_confidence?: number | null
+          parse_warnings?: string[]
           phone?: string | null
+          projects_json?: Json
+          publications_json?: Json
           raw_text_content?: string | null
           resume_id: string
+          review_status?: Database["public"]["Enums"]["parse_review_status"]
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          schema_version?: number
+          security_flags?: Json
+          skill_levels_json?: Json
           skills_json?: Json | null
           updated_at?: string
           user_id: string
         }
         Update: {
+          certifications_json?: Json
           created_at?: string
+          custom_fields?: Json
           education_json?: Json | null
           email?: string | null
           experience_json?: Json | null
+          extraction_method?: string | null
+          field_confidence?: Json
           full_name?: string | null
           id?: string
+          languages_json?: Json
+          links_json?: Json
           location?: string | null
+          ocr_confidence?: number | null
+          parse_warnings?: string[]
           phone?: string | null
+          projects_json?: Json
+          publications_json?: Json
           raw_text_content?: string | null
           resume_id?: string
+          review_status?: Database["public"]["Enums"]["parse_review_status"]
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          schema_version?: number
+          security_flags?: Json
+          skill_levels_json?: Json
           skills_json?: Json | null
           updated_at?: string
           user_id?: string
@@ -80,6 +386,59 @@ export type Database = {
           {
             foreignKeyName: "parsed_resume_details_resume_id_fkey"
             columns: ["resume_id"]
+            isOneToOne: true
+            referencedRelation: "resumes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      parsed_resume_versions: {
+        Row: {
+          candidate: Json
+          created_at: string
+          extraction_method: string | null
+          field_confidence: Json
+          id: string
+          model: string | null
+          ocr_confidence: number | null
+          prompt_version: string | null
+          provider: string | null
+          resume_id: string
+          user_id: string
+          version: number
+        }
+        Insert: {
+          candidate: Json
+          created_at?: string
+          extraction_method?: string | null
+          field_confidence?: Json
+          id?: string
+          model?: string | null
+          ocr_confidence?: number | null
+          prompt_version?: string | null
+          provider?: string | null
+          resume_id: string
+          user_id: string
+          version: number
+        }
+        Update: {
+          candidate?: Json
+          created_at?: string
+          extraction_method?: string | null
+          field_confidence?: Json
+          id?: string
+          model?: string | null
+          ocr_confidence?: number | null
+          prompt_version?: string | null
+          provider?: string | null
+          resume_id?: string
+          user_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "parsed_resume_versions_resume_id_fkey"
+            columns: ["resume_id"]
             isOneToOne: false
             referencedRelation: "resumes"
             referencedColumns: ["id"]
@@ -107,37 +466,213 @@ export type Database = {
         }
         Relationships: []
       }
+      rate_limit_buckets: {
+        Row: {
+          action: string
+          scope: string
+          subject: string
+          tokens: number
+          updated_at: string
+        }
+        Insert: {
+          action: string
+          scope: string
+          subject: string
+          tokens: number
+          updated_at?: string
+        }
+        Update: {
+          action?: string
+          scope?: string
+          subject?: string
+          tokens?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rate_limit_buckets_action_scope_fkey"
+            columns: ["action", "scope"]
+            isOneToOne: false
+            referencedRelation: "rate_limit_policies"
+            referencedColumns: ["action", "scope"]
+          },
+        ]
+      }
+      rate_limit_policies: {
+        Row: {
+          action: string
+          capacity: number
+          description: string | null
+          refill_seconds: number
+          scope: string
+        }
+        Insert: {
+          action: string
+          capacity: number
+          description?: string | null
+          refill_seconds: number
+          scope: string
+        }
+        Update: {
+          action?: string
+          capacity?: number
+          description?: string | null
+          refill_seconds?: number
+          scope?: string
+        }
+        Relationships: []
+      }
       resumes: {
         Row: {
+          candidate_id: string | null
+          content_sha256: string | null
+          content_version: number
+          document_type: Database["public"]["Enums"]["document_type"]
           file_name: string
           file_size: number | null
           file_type: string | null
           id: string
-          parsing_status: string | null
+          parsing_error: string | null
+          parsing_error_code: Database["public"]["Enums"]["parse_error_code"] | null
+          parsing_status: Database["public"]["Enums"]["parsing_status"] | null
+          rejection_reason: string | null
           supabase_storage_path: string | null
           uploaded_at: string
           user_id: string
         }
         Insert: {
+          candidate_id?: string | null
+          content_sha256?: string | null
+          content_version?: number
+          document_type?: Database["public"]["Enums"]["document_type"]
           file_name: string
           file_size?: number | null
           file_type?: string | null
           id?: string
-          parsing_status?: string | null
+          parsing_error?: string | null
+          parsing_error_code?: Database["public"]["Enums"]["parse_error_code"] | null
+          parsing_status?: Database["public"]["Enums"]["parsing_status"] | null
+          rejection_reason?: string | null
           supabase_storage_path?: string | null
           uploaded_at?: string
           user_id: string
         }
         Update: {
+          candidate_id?: string | null
+          content_sha256?: string | null
+          content_version?: number
+          document_type?: Database["public"]["Enums"]["document_type"]
           file_name?: string
           file_size?: number | null
           file_type?: string | null
           id?: string
-          parsing_status?: string | null
+          parsing_error?: string | null
+          parsing_error_code?: Database["public"]["Enums"]["parse_error_code"] | null
+          parsing_status?: Database["public"]["Enums"]["parsing_status"] | null
+          rejection_reason?: string | null
           supabase_storage_path?: string | null
           uploaded_at?: string
           user_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "resumes_candidate_id_fkey"
+            columns: ["candidate_id"]
+            isOneToOne: false
+            referencedRelation: "candidates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      skill_aliases: {
+        Row: {
+          alias: string
+          canonical_name: string
+          category: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          parent_name: string | null
+          workspace_id: string
+        }
+        Insert: {
+          alias: string
+          canonical_name: string
+          category?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          parent_name?: string | null
+          workspace_id: string
+        }
+        Update: {
+          alias?: string
+          canonical_name?: string
+          category?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          parent_name?: string | null
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "skill_aliases_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspace_members: {
+        Row: {
+          created_at: string
+          role: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          role?: string
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          role?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_members_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspaces: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+        }
         Relationships: []
       }
     }
@@ -145,13 +680,120 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      check_sign_in_allowed: {
+        Args: { p_email: string }
+        Returns: number
+      }
+      claim_parse_jobs: {
+        Args: { batch_size?: number; lock_timeout?: unknown }
+        Returns: {
+          attempts: number
+          created_at: string
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          max_attempts: number
+          next_attempt_at: string
+          resume_id: string
+          status: Database["public"]["Enums"]["parsing_status"]
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      clear_failed_sign_ins: {
+        Args: { p_email: string }
+        Returns: undefined
+      }
+      consume_rate_limit: {
+        Args: { p_action: string; p_cost?: number; p_user_id: string }
+        Returns: {
+          allowed: boolean
+          limited_scope: string
+          remaining: number
+          retry_after_seconds: number
+        }[]
+      }
+      consume_rate_limit_subjects: {
+        Args: { p_action: string; p_cost?: number; p_subjects: Json }
+        Returns: {
+          allowed: boolean
+          limited_scope: string
+          remaining: number
+          retry_after_seconds: number
+        }[]
+      }
+      get_rate_limit_usage: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          action: string
+          capacity: number
+          description: string
+          refill_seconds: number
+          remaining: number
+          scope: string
+        }[]
+      }
+      hook_password_verification_attempt: {
+        Args: { event: Json }
+        Returns: Json
+      }
+      is_workspace_admin: {
+        Args: { p_workspace_id: string }
+        Returns: boolean
+      }
+      link_resume_candidate: {
+        Args: { target_resume_id: string }
+        Returns: string
+      }
       log_auth_event: {
         Args: { event_type: string; user_email?: string }
         Returns: undefined
       }
+      merge_candidates: {
+        Args: { duplicate_id: string; field_choices?: Json; primary_id: string }
+        Returns: {
+          created_at: string
+          email: string | null
+          full_name: string | null
+          id: string
+          latest_resume_id: string | null
+          location: string | null
+          phone: string | null
+          updated_at: string
+          user_id: string
+        }
+      }
+      record_failed_sign_in: {
+        Args: { p_email: string }
+        Returns: number
+      }
+      store_parse_result: {
+        Args: { p_details: Json; p_version: Json }
+        Returns: number
+      }
+      user_workspace_id: {
+        Args: { p_user_id: string }
+        Returns: string
+      }
     }
     Enums: {
-      [_ in never]: never
+      document_type: "resume" | "cover_letter" | "portfolio" | "other"
+      parse_error_code:
+        | "unsupported_file"
+        | "extraction_empty"
+        | "ai_quota"
+        | "ai_invalid_json"
+        | "storage_error"
+        | "unknown"
+      parse_review_status: "not_required" | "pending" | "confirmed"
+      parsing_status:
+        | "queued"
+        | "extracting"
+        | "parsing"
+        | "completed"
+        | "failed"
+        | "dead_lettered"
+        | "rejected"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -266,6 +908,26 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      document_type: ["resume", "cover_letter", "portfolio", "other"],
+      parse_error_code: [
+        "unsupported_file",
+        "extraction_empty",
+        "ai_quota",
+        "ai_invalid_json",
+        "storage_error",
+        "unknown",
+      ],
+      parse_review_status: ["not_required", "pending", "confirmed"],
+      parsing_status: [
+        "queued",
+        "extracting",
+        "parsing",
+        "completed",
+        "failed",
+        "dead_lettered",
+        "rejected",
+      ],
+    },
   },
 } as const
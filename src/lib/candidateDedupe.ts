@@ -0,0 +1,157 @@
+// Scores likely duplicate candidates in a user's pool.
+// Signals: normalized email, phone in E.164, name similarity and overlapping employers.
+
+export interface DedupeCandidate {
+  id: string;
+  full_name: string | null;
+  email: string | null;
+  phone: string | null;
+  employers: string[];
+}
+
+export interface DuplicateMatch {
+  a: DedupeCandidate;
+  b: DedupeCandidate;
+  score: number; // 0..100
+  reasons: string[];
+}
+
+// Pairs at or above this score are surfaced as possible duplicates
+export const DUPLICATE_SCORE_THRESHOLD = 50;
+
+const DEFAULT_COUNTRY_CODE = "1";
+
+const stripDiacritics = (value: string) => value.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+
+export const normalizeEmail = (email: string | null) => {
+  if (!email) return null;
+  const [local, domain] = email.trim().toLowerCase().split("@");
+  if (!local || !domain) return null;
+  // "jane+jobs@x.com" and "jane@x.com" reach the same inbox
+  return `${local.split("+")[0]}@${domain}`;
+};
+
+// Best-effort E.164; numbers without a country code are assumed to be North American
+export const normalizePhone = (phone: string | null) => {
+  if (!phone) return null;
+  const hasPlus = phone.trim().startsWith("+");
+  const digits = phone.replace(/\D/g, "");
+  if (hasPlus) return digits.length >= 8 ? `+${digits}` : null;
+  if (digits.length === 10) return `+${DEFAULT_COUNTRY_CODE}${digits}`;
+  if (digits.length === 11 && digits.startsWith(DEFAULT_COUNTRY_CODE)) return `+${digits}`;
+  if (digits.startsWith("00") && digits.length >= 10) return `+${digits.slice(2)}`;
+  return null;
+};
+
+export const normalizeName = (name: string | null) =>
+  name
+    ? stripDiacritics(name).toLowerCase().replace(/[^a-z\s]/g, " ").split(/\s+/).filter(Boolean)
+    : [];
+
+const normalizeEmployer = (employer: string) =>
+  stripDiacritics(employer)
+    .toLowerCase()
+    .replace(/\b(inc|llc|ltd|gmbh|corp|corporation|co|plc|limited)\b\.?/g, "")
+    .replace(/[^a-z0-9]/g, "");
+
+const bigrams = (value: string) => {
+  const grams = new Map<string, number>();
+  for (let i = 0; i < value.length - 1; i++) {
+    const gram = value.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) ?? 0) + 1);
+  }
+  return grams;
+};
+
+// Sørensen–Dice coefficient over character bigrams of the sorted name tokens,
+// so "Doe, Jane" and "Jane Doe" compare equal
+export const nameSimilarity = (a: string | null, b: string | null) => {
+  const left = normalizeName(a).sort().join(" ");
+  const right = normalizeName(b).sort().join(" ");
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const leftGrams = bigrams(left);
+  const rightGrams = bigrams(right);
+  let overlap = 0;
+  leftGrams.forEach((count, gram) => {
+    overlap += Math.min(count, rightGrams.get(gram) ?? 0);
+  });
+  const total = left.length - 1 + right.length - 1;
+  return total > 0 ? (2 * overlap) / total : 0;
+};
+
+export const employerOverlap = (a: string[], b: string[]) => {
+  const left = new Set(a.map(normalizeEmployer).filter(Boolean));
+  const right = new Set(b.map(normalizeEmployer).filter(Boolean));
+  if (left.size === 0 || right.size === 0) return { ratio: 0, shared: 0 };
+  const shared = [...left].filter(employer => right.has(employer)).length;
+  return { ratio: shared / Math.min(left.size, right.size), shared };
+};
+
+export const scoreDuplicate = (a: DedupeCandidate, b: DedupeCandidate): DuplicateMatch => {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const email = normalizeEmail(a.email);
+  if (email && email === normalizeEmail(b.email)) {
+    score += 60;
+    reasons.push("Same email");
+  }
+
+  const phone = normalizePhone(a.phone);
+  if (phone && phone === normalizePhone(b.phone)) {
+    score += 40;
+    reasons.push("Same phone");
+  }
+
+  const similarity = nameSimilarity(a.full_name, b.full_name);
+  if (similarity >= 0.8) {
+    score += Math.round(30 * similarity);
+    reasons.push(similarity === 1 ? "Same name" : `Similar name (${Math.round(similarity * 100)}%)`);
+  }
+
+  const employers = employerOverlap(a.employers, b.employers);
+  if (employers.shared > 0) {
+    score += Math.round(25 * employers.ratio);
+    reasons.push(`${employers.shared} shared employer${employers.shared === 1 ? "" : "s"}`);
+  }
+
+  return { a, b, score: Math.min(100, score), reasons };
+};
+
+// Only candidates sharing a blocking key are compared, which keeps large pools fast
+const blockingKeys = (candidate: DedupeCandidate) => {
+  const keys: string[] = [];
+  const email = normalizeEmail(candidate.email);
+  const phone = normalizePhone(candidate.phone);
+  const nameTokens = normalizeName(candidate.full_name);
+  if (email) keys.push(`email:${email}`);
+  if (phone) keys.push(`phone:${phone}`);
+  nameTokens.filter(token => token.length > 2).forEach(token => keys.push(`name:${token}`));
+  return keys;
+};
+
+export const findDuplicates = (candidates: DedupeCandidate[]): DuplicateMatch[] => {
+  const blocks = new Map<string, DedupeCandidate[]>();
+  candidates.forEach(candidate => {
+    blockingKeys(candidate).forEach(key => blocks.set(key, [...(blocks.get(key) ?? []), candidate]));
+  });
+
+  const seen = new Set<string>();
+  const matches: DuplicateMatch[] = [];
+  blocks.forEach(block => {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const pairKey = [block[i].id, block[j].id].sort().join(":");
+        if (seen.has(pairKey)) continue;
+        seen.add(pairKey);
+
+        const match = scoreDuplicate(block[i], block[j]);
+        if (match.score >= DUPLICATE_SCORE_THRESHOLD) matches.push(match);
+      }
+    }
+  });
+
+  return matches.sort((left, right) => right.score - left.score);
+};
@@ -0,0 +1,61 @@
+import type { CustomFieldDefinition, CustomFieldValue } from "../../supabase/functions/_shared/custom-fields.ts";
+
+// Same definitions and coercion the parser uses, so values edited here keep their types
+export {
+  CUSTOM_FIELD_TYPES,
+  CUSTOM_FIELD_TYPE_LABELS,
+  coerceCustomFieldValue,
+  coerceCustomFields,
+  customFieldKey,
+  formatCustomFieldValue,
+  hasAllowedValues,
+  isCustomFieldType,
+} from "../../supabase/functions/_shared/custom-fields.ts";
+export type {
+  CustomFieldDefinition,
+  CustomFieldType,
+  CustomFieldValue,
+  CustomFieldValues,
+} from "../../supabase/functions/_shared/custom-fields.ts";
+
+// A search filter on one custom field: a value for lists, yes/no and text, a range for
+// numbers and dates (YYYY-MM-DD strings compare in date order)
+export interface CustomFieldFilter {
+  value: string;
+  min: string;
+  max: string;
+}
+
+export const EMPTY_CUSTOM_FIELD_FILTER: CustomFieldFilter = { value: "", min: "", max: "" };
+
+export const isActiveFilter = (filter: CustomFieldFilter | undefined) =>
+  !!filter && !!(filter.value || filter.min || filter.max);
+
+// Candidates without a value never match an active filter
+export function matchesCustomFieldFilter(
+  value: CustomFieldValue | undefined,
+  definition: CustomFieldDefinition,
+  filter: CustomFieldFilter | undefined
+): boolean {
+  if (!isActiveFilter(filter)) return true;
+  if (value === null || value === undefined) return false;
+
+  switch (definition.field_type) {
+    case 'number': {
+      const number = Number(value);
+      return (filter!.min === "" || number >= Number(filter!.min)) && (filter!.max === "" || number <= Number(filter!.max));
+    }
+    case 'date': {
+      const date = String(value);
+      return (!filter!.min || date >= filter!.min) && (!filter!.max || date <= filter!.max);
+    }
+    case 'boolean':
+      return String(value) === filter!.value;
+    case 'select':
+      return value === filter!.value;
+    case 'multi_select':
+      return Array.isArray(value) && value.includes(filter!.value);
+    default:
+      return String(value).toLowerCase().includes(filter!.value.toLowerCase());
+  }
+}
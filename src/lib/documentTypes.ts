@@ -0,0 +1,10 @@
+import type { Enums } from "@/integrations/supabase/types";
+
+export type DocumentType = Enums<"document_type">;
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  resume: "Resume",
+  cover_letter: "Cover letter",
+  portfolio: "Portfolio",
+  other: "Other",
+};
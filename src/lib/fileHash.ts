@@ -0,0 +1,5 @@
+// Hex-encoded SHA-256 of a file's bytes, matching resumes.content_sha256
+export const sha256Hex = async (file: Blob) => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,7 @@
+import { inspectFile } from "../../supabase/functions/_shared/file-sniffing.ts";
+
+// The parse pipeline runs the same checks server-side; rejecting here just saves the upload
+export { MAX_PDF_PAGES, MAX_RESUME_BYTES, inspectFile } from "../../supabase/functions/_shared/file-sniffing.ts";
+export type { FileInspection, FileRejection, RejectionCode, SniffedType } from "../../supabase/functions/_shared/file-sniffing.ts";
+
+export const inspectUpload = async (file: File) => inspectFile(new Uint8Array(await file.arrayBuffer()), file.name);
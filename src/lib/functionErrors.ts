@@ -0,0 +1,31 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+
+// Edge functions answer failures with { error } and, when rate limited, a 429 with
+// Retry-After. Turns either into a message worth showing instead of a generic one.
+
+export const formatRetryAfter = (seconds: number) => {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? "" : "s"}`;
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+  const hours = Math.ceil(minutes / 60);
+  return `${hours} hour${hours === 1 ? "" : "s"}`;
+};
+
+export const describeFunctionError = async (error: unknown, fallback: string) => {
+  if (!(error instanceof FunctionsHttpError)) return fallback;
+
+  const response: Response = error.context;
+  let message: string | undefined;
+  try {
+    message = (await response.clone().json())?.error;
+  } catch {
+    // Not a JSON body, fall through to the generic message
+  }
+
+  if (response.status === 429) {
+    const retryAfter = Number(response.headers.get("Retry-After"));
+    const limit = message ?? "Rate limit exceeded.";
+    return retryAfter > 0 ? `${limit} Try again in ${formatRetryAfter(retryAfter)}.` : limit;
+  }
+  return message ?? fallback;
+};
@@ -0,0 +1,55 @@
+import type { Enums } from "@/integrations/supabase/types";
+
+export type ParsingStatus = Enums<"parsing_status">;
+
+// Statuses for which a parse job is still queued or running
+export const ACTIVE_PARSING_STATUSES: ParsingStatus[] = ["queued", "extracting", "parsing"];
+
+export const PARSING_STATUS_LABELS: Record<ParsingStatus, string> = {
+  queued: "Queued",
+  extracting: "Extracting",
+  parsing: "Parsing",
+  completed: "Parsed",
+  failed: "Failed",
+  dead_lettered: "Gave up",
+  rejected: "Rejected",
+};
+
+export const PARSING_STATUS_BADGE_CLASSES: Record<ParsingStatus, string> = {
+  queued: "bg-gray-100 text-gray-800",
+  extracting: "bg-yellow-100 text-yellow-800",
+  parsing: "bg-yellow-100 text-yellow-800",
+  completed: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+  dead_lettered: "bg-red-100 text-red-800",
+  rejected: "bg-orange-100 text-orange-800",
+};
+
+export const isParsingActive = (status: ParsingStatus | null) =>
+  !!status && ACTIVE_PARSING_STATUSES.includes(status);
+
+// Statuses a user can retry from
+export const FAILED_PARSING_STATUSES: ParsingStatus[] = ["failed", "dead_lettered"];
+
+export const isParsingFailed = (status: ParsingStatus | null) =>
+  !!status && FAILED_PARSING_STATUSES.includes(status);
+
+export type ParseErrorCode = Enums<"parse_error_code">;
+
+export const PARSE_ERROR_LABELS: Record<ParseErrorCode, string> = {
+  unsupported_file: "Unsupported file",
+  extraction_empty: "No readable text",
+  ai_quota: "AI quota exceeded",
+  ai_invalid_json: "AI returned invalid data",
+  storage_error: "Storage error",
+  unknown: "Unexpected error",
+};
+
+export const PARSE_ERROR_HINTS: Record<ParseErrorCode, string> = {
+  unsupported_file: "Upload the resume as a PDF or Word document.",
+  extraction_empty: "The file may be a blank scan; try a text-based PDF.",
+  ai_quota: "The AI provider is rate limiting requests. Retry in a few minutes.",
+  ai_invalid_json: "The AI response could not be read. Retrying usually helps.",
+  storage_error: "The file could not be downloaded from storage. Retry shortly.",
+  unknown: "Retry, or re-upload the file if it keeps failing.",
+};
@@ -0,0 +1,71 @@
+import { Upload } from "tus-js-client";
+import { supabase, SUPABASE_URL, SUPABASE_PUBLISHABLE_KEY } from "@/integrations/supabase/client";
+
+// Chunked uploads against Supabase Storage's TUS endpoint. Interrupted uploads are
+// fingerprinted in localStorage, so retrying the same file to the same path picks up
+// from the last acknowledged chunk instead of starting over.
+
+const RESUMABLE_ENDPOINT = `${SUPABASE_URL}/storage/v1/upload/resumable`;
+
+// Supabase Storage only accepts 6MB chunks on the resumable endpoint
+const CHUNK_SIZE = 6 * 1024 * 1024;
+
+export class UploadCancelledError extends Error {
+  constructor() {
+    super('Upload cancelled');
+    this.name = 'UploadCancelledError';
+  }
+}
+
+interface ResumableUploadOptions {
+  bucket: string;
+  path: string;
+  file: File;
+  signal?: AbortSignal;
+  onProgress?: (bytesUploaded: number, bytesTotal: number) => void;
+}
+
+export const uploadResumable = async ({ bucket, path, file, signal, onProgress }: ResumableUploadOptions) => {
+  if (signal?.aborted) throw new UploadCancelledError();
+
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('User not authenticated');
+
+  await new Promise<void>((resolve, reject) => {
+    const upload = new Upload(file, {
+      endpoint: RESUMABLE_ENDPOINT,
+      retryDelays: [0, 1000, 3000, 5000, 10000],
+      headers: {
+        authorization: `Bearer ${session.access_token}`,
+        apikey: SUPABASE_PUBLISHABLE_KEY,
+        'x-upsert': 'false',
+      },
+      uploadDataDuringCreation: true,
+      removeFingerprintOnSuccess: true,
+      chunkSize: CHUNK_SIZE,
+      metadata: {
+        bucketName: bucket,
+        objectName: path,
+        contentType: file.type || 'application/octet-stream',
+        cacheControl: '3600',
+      },
+      onProgress,
+      onSuccess: () => resolve(),
+      onError: reject,
+    });
+
+    signal?.addEventListener('abort', () => {
+      // Terminating also deletes the partial upload on the server
+      upload.abort(true).catch(error => console.error('Error terminating upload:', error));
+      reject(new UploadCancelledError());
+    }, { once: true });
+
+    upload.findPreviousUploads().then(previousUploads => {
+      if (signal?.aborted) return;
+      if (previousUploads.length > 0) {
+        upload.resumeFromPreviousUpload(previousUploads[0]);
+      }
+      upload.start();
+    }, reject);
+  });
+};
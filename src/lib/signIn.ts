@@ -0,0 +1,20 @@
+import { supabase } from "@/integrations/supabase/client";
+import { describeFunctionError } from "@/lib/functionErrors";
+
+interface SignInResult {
+  session?: { access_token: string; refresh_token: string };
+}
+
+// Password sign-in goes through the sign-in edge function, which refuses an email after
+// repeated failures (see check_sign_in_allowed) and says for how long
+export const signInWithLockout = async (email: string, password: string) => {
+  const { data, error } = await supabase.functions.invoke<SignInResult>('sign-in', {
+    body: { email, password },
+  });
+  if (error || !data?.session) {
+    return { error: { message: await describeFunctionError(error, 'Sign in failed. Please try again.') } };
+  }
+
+  const { error: sessionError } = await supabase.auth.setSession(data.session);
+  return { error: sessionError };
+};
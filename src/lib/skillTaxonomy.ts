@@ -0,0 +1,14 @@
+// Same taxonomy the parser canonicalizes skills with; the app applies it again at query
+// time so parses from before an alias was added are matched too
+export {
+  SKILL_CATEGORIES,
+  SKILL_CATEGORY_LABELS,
+  createSkillTaxonomy,
+  skillKey,
+} from "../../supabase/functions/_shared/skill-taxonomy.ts";
+export type {
+  CustomSkillAlias,
+  ResolvedSkill,
+  SkillCategory,
+  SkillTaxonomy,
+} from "../../supabase/functions/_shared/skill-taxonomy.ts";
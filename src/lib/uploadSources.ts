@@ -0,0 +1,165 @@
+import { unzip, Unzipped } from "fflate";
+import { MAX_RESUME_BYTES } from "@/lib/fileSniffing";
+
+// Turns what the user dropped or picked (loose files, ZIP archives, folders) into the
+// flat list of documents to upload. Archives and folders tend to carry junk, so their
+// entries are filtered by extension up front; every file is still content-checked
+// (magic bytes, macros, encryption) before it is uploaded.
+
+export const MAX_UPLOAD_BYTES = MAX_RESUME_BYTES;
+export const MAX_ARCHIVE_BYTES = 500 * 1024 * 1024;
+
+const RESUME_MIME_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  odt: "application/vnd.oasis.opendocument.text",
+  rtf: "application/rtf",
+  txt: "text/plain",
+  md: "text/markdown",
+  html: "text/html",
+  htm: "text/html",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  tif: "image/tiff",
+  tiff: "image/tiff",
+};
+
+export interface SkippedEntry {
+  path: string;
+  reason: string;
+}
+
+export interface CollectedFiles {
+  files: File[];
+  skipped: SkippedEntry[];
+}
+
+const extensionOf = (path: string) => path.split(".").pop()?.toLowerCase() ?? "";
+const baseName = (path: string) => path.split("/").pop() ?? path;
+
+export const isZipFile = (file: File) =>
+  extensionOf(file.name) === "zip" || file.type === "application/zip" || file.type === "application/x-zip-compressed";
+
+// OS metadata such as __MACOSX/ folders, .DS_Store and Office lock files (~$cv.docx)
+const isHiddenPath = (path: string) =>
+  path.split("/").some(part => part.startsWith(".") || part.startsWith("~$") || part === "__MACOSX");
+
+const skipReasonFor = (path: string, size: number): string | null => {
+  if (isHiddenPath(path)) return "System file";
+  const extension = extensionOf(path);
+  if (extension !== "zip" && !RESUME_MIME_TYPES[extension]) return "Not a resume format";
+  if (extension !== "zip" && size > MAX_UPLOAD_BYTES) return "Larger than 25MB";
+  return null;
+};
+
+const unzipAsync = (data: Uint8Array, skipped: SkippedEntry[], archiveName: string) =>
+  new Promise<Unzipped>((resolve, reject) => {
+    unzip(data, {
+      // Rejected entries are never decompressed
+      filter: entry => {
+        if (entry.name.endsWith("/")) return false;
+        const reason = skipReasonFor(entry.name, entry.originalSize);
+        if (reason) skipped.push({ path: `${archiveName}/${entry.name}`, reason });
+        return !reason;
+      },
+    }, (error, unzipped) => (error ? reject(error) : resolve(unzipped)));
+  });
+
+const expandZip = async (archive: File, skipped: SkippedEntry[]): Promise<File[]> => {
+  if (archive.size > MAX_ARCHIVE_BYTES) {
+    skipped.push({ path: archive.name, reason: "Archive larger than 500MB" });
+    return [];
+  }
+
+  let entries: Unzipped;
+  try {
+    entries = await unzipAsync(new Uint8Array(await archive.arrayBuffer()), skipped, archive.name);
+  } catch (error) {
+    console.error('Error reading archive:', archive.name, error);
+    skipped.push({ path: archive.name, reason: "Unreadable or encrypted archive" });
+    return [];
+  }
+
+  const files: File[] = [];
+  for (const [path, data] of Object.entries(entries)) {
+    const extension = extensionOf(path);
+    const file = new File([data], baseName(path), { type: RESUME_MIME_TYPES[extension] ?? "" });
+    // Archives nested inside the archive are expanded as well
+    files.push(...(extension === "zip" ? await expandZip(file, skipped) : [file]));
+  }
+  return files;
+};
+
+const readDirectory = (directory: FileSystemDirectoryEntry) =>
+  new Promise<FileSystemEntry[]>((resolve, reject) => {
+    const reader = directory.createReader();
+    const entries: FileSystemEntry[] = [];
+    // readEntries returns results in chunks (100 at a time in Chrome) until it yields none
+    const readChunk = () => reader.readEntries(chunk => {
+      if (chunk.length === 0) return resolve(entries);
+      entries.push(...chunk);
+      readChunk();
+    }, reject);
+    readChunk();
+  });
+
+const entryToFile = (entry: FileSystemFileEntry) =>
+  new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+const collectEntry = async (entry: FileSystemEntry, result: CollectedFiles): Promise<void> => {
+  const path = entry.fullPath.replace(/^\//, "");
+
+  if (entry.isDirectory) {
+    if (isHiddenPath(path)) return;
+    for (const child of await readDirectory(entry as FileSystemDirectoryEntry)) {
+      await collectEntry(child, result);
+    }
+    return;
+  }
+
+  const file = await entryToFile(entry as FileSystemFileEntry);
+  const reason = skipReasonFor(path, file.size);
+  if (reason) {
+    result.skipped.push({ path, reason });
+  } else if (isZipFile(file)) {
+    result.files.push(...await expandZip(file, result.skipped));
+  } else {
+    result.files.push(file);
+  }
+};
+
+// Loose files from the file picker or a drop without folders
+export const collectFiles = async (files: File[]): Promise<CollectedFiles> => {
+  const result: CollectedFiles = { files: [], skipped: [] };
+  for (const file of files) {
+    if (isZipFile(file)) {
+      result.files.push(...await expandZip(file, result.skipped));
+    } else if (file.size > MAX_UPLOAD_BYTES) {
+      result.skipped.push({ path: file.name, reason: "Larger than 25MB" });
+    } else {
+      result.files.push(file);
+    }
+  }
+  return result;
+};
+
+// Drops may contain whole folders. Entries must be taken from the DataTransfer while the
+// drop event is still being dispatched, so callers pass them in rather than the event.
+export const collectDroppedEntries = async (entries: FileSystemEntry[]): Promise<CollectedFiles> => {
+  const result: CollectedFiles = { files: [], skipped: [] };
+  for (const entry of entries) {
+    if (entry.isFile) {
+      // A top-level file is treated like a loose file, so it is not filtered by extension
+      const loose = await collectFiles([await entryToFile(entry as FileSystemFileEntry)]);
+      result.files.push(...loose.files);
+      result.skipped.push(...loose.skipped);
+    } else {
+      await collectEntry(entry, result);
+    }
+  }
+  return result;
+};
@@ -0,0 +1,22 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface WorkspaceMembership {
+  workspaceId: string;
+  role: string;
+}
+
+// The user's workspace is their oldest membership, as in user_workspace_id()
+export const fetchWorkspaceMembership = async (userId: string): Promise<WorkspaceMembership | null> => {
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('workspace_id, role')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? { workspaceId: data.workspace_id, role: data.role } : null;
+};
+
+// Owners and admins maintain workspace settings such as skill aliases and custom fields
+export const isWorkspaceAdmin = (role: string | null | undefined) => role === 'owner' || role === 'admin';
@@ -0,0 +1,52 @@
+// Candidate types are inferred from the canonical zod schema that the edge functions
+// validate parser output against, so the app and the parser cannot drift apart.
+export {
+  CANDIDATE_SCHEMA_VERSION,
+  fromParsedDetailsColumns,
+  normalizeCandidate,
+  toParsedDetailsColumns,
+} from "../../supabase/functions/_shared/candidate-schema.ts";
+export type {
+  Candidate,
+  CandidateLink,
+  Certification,
+  Education,
+  Experience,
+  Language,
+  ParsedDetailsColumns,
+  Project,
+  Publication,
+  SkillLevel,
+} from "../../supabase/functions/_shared/candidate-schema.ts";
+export {
+  CONFIDENCE_FIELDS,
+  REVIEW_CONFIDENCE_THRESHOLD,
+  getFlaggedFields,
+  readFieldConfidence,
+} from "../../supabase/functions/_shared/field-confidence.ts";
+export type {
+  ConfidenceField,
+  FieldConfidence,
+  FieldConfidenceMap,
+  FieldSource,
+  ReviewStatus,
+} from "../../supabase/functions/_shared/field-confidence.ts";
+export {
+  formatTenure,
+  hasDatedExperience,
+  relevantExperienceMonths,
+  roleTenureMonths,
+  totalExperienceMonths,
+} from "../../supabase/functions/_shared/experience-dates.ts";
+export {
+  PROFICIENCY_LABELS,
+  buildSkillProfile,
+  monthsSinceUsed,
+} from "../../supabase/functions/_shared/skill-experience.ts";
+export type { ProficiencyLevel, SkillExperience } from "../../supabase/functions/_shared/skill-experience.ts";
+export {
+  SECURITY_FLAG_LABELS,
+  describeSecurityFlag,
+  readSecurityFlags,
+} from "../../supabase/functions/_shared/content-safety.ts";
+export type { SecurityFlag, SecurityFlagType } from "../../supabase/functions/_shared/content-safety.ts";
@@ -0,0 +1,265 @@
+import { z } from 'zod';
+import { normalizeExperienceDates } from './experience-dates.ts';
+import { PROFICIENCY_LEVELS, parseProficiency } from './skill-experience.ts';
+
+// Canonical, versioned shape of a parsed candidate.
+// This module is shared verbatim by the edge functions (zod resolved through
+// supabase/functions/import_map.json) and the React app (src/types/candidate.ts),
+// so both sides validate and type candidates from the same definition.
+// Bump CANDIDATE_SCHEMA_VERSION and add a data migration when the shape changes.
+
+export const CANDIDATE_SCHEMA_VERSION = 4;
+
+const EMPTY_VALUES = new Set(['', 'null', 'n/a', 'none', 'unknown']);
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Lenient string: numbers are stringified, blanks and placeholders become null, long values are cut
+const text = (max: number) =>
+  z.preprocess((value) => {
+    if (typeof value === 'number') value = String(value);
+    if (typeof value !== 'string') return null;
+    const trimmed = value.trim();
+    return EMPTY_VALUES.has(trimmed.toLowerCase()) ? null : trimmed.slice(0, max);
+  }, z.string().nullable());
+
+// Lenient list: non-arrays become [], entries failing the item schema are dropped
+const list = <T extends z.ZodTypeAny>(item: T, max: number) =>
+  z.preprocess((value) => (Array.isArray(value) ? value : []), z.array(z.unknown())).transform((values) =>
+    values
+      .map((value) => item.safeParse(value))
+      .filter((result): result is z.SafeParseSuccess<z.output<T>> => result.success)
+      .map((result) => result.data)
+      .slice(0, max)
+  );
+
+// Maps keys emitted by older prompts/parsers onto the canonical names
+const renameKeys = (aliases: Record<string, string[]>) => (value: unknown) => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return value;
+  const source = value as Record<string, unknown>;
+  const renamed: Record<string, unknown> = { ...source };
+  for (const [canonical, legacyKeys] of Object.entries(aliases)) {
+    if (renamed[canonical] == null) {
+      const legacyKey = legacyKeys.find((key) => source[key] != null);
+      if (legacyKey) renamed[canonical] = source[legacyKey];
+    }
+  }
+  return renamed;
+};
+
+const SkillSchema = text(100).refine((skill): skill is string => !!skill);
+
+export const ExperienceSchema = z.preprocess(
+  renameKeys({
+    title: ['position', 'role', 'job_title'],
+    company: ['employer', 'organization'],
+    duration: ['dates', 'period'],
+  }),
+  z.object({
+    title: text(200),
+    company: text(200),
+    location: text(200),
+    start_date: text(40), // YYYY-MM when known
+    end_date: text(40), // YYYY-MM, or null for current roles
+    duration: text(100), // as written on the resume
+    description: text(4000),
+    skills: list(SkillSchema, 50), // skills used in this role
+  })
+)
+  .refine((entry) => entry.title || entry.company, 'Experience entry needs a title or company')
+  // Dates come back in whatever format the resume used; older rows only have the duration
+  .transform((entry) => ({ ...entry, ...normalizeExperienceDates(entry) }));
+
+export const EducationSchema = z.preprocess(
+  renameKeys({
+    institution: ['school', 'university', 'college'],
+    field: ['field_of_study', 'major'],
+    year: ['graduation_year', 'dates'],
+  }),
+  z.object({
+    degree: text(200),
+    field: text(200),
+    institution: text(200),
+    year: text(50),
+    grade: text(50),
+  })
+).refine((entry) => entry.degree || entry.institution, 'Education entry needs a degree or institution');
+
+export const LINK_TYPES = ['linkedin', 'github', 'portfolio', 'website', 'other'] as const;
+
+const inferLinkType = (url: string): (typeof LINK_TYPES)[number] => {
+  if (/linkedin\.com/i.test(url)) return 'linkedin';
+  if (/github\.com/i.test(url)) return 'github';
+  return 'website';
+};
+
+export const LinkSchema = z.preprocess(
+  (value) => (typeof value === 'string' ? { url: value } : value),
+  z.object({
+    type: z.enum(LINK_TYPES).nullable().catch(null),
+    url: text(500),
+  })
+)
+  .refine((link) => !!link.url, 'Link needs a URL')
+  .transform((link) => ({ type: link.type ?? inferLinkType(link.url!), url: link.url! }));
+
+export const CertificationSchema = z.preprocess(
+  (value) => (typeof value === 'string' ? { name: value } : value),
+  z.object({
+    name: text(300),
+    issuer: text(200),
+    year: text(50),
+  })
+).refine((certification) => !!certification.name, 'Certification needs a name');
+
+export const PublicationSchema = z.preprocess(
+  renameKeys({
+    venue: ['journal', 'conference', 'publisher'],
+    year: ['date', 'published'],
+  }),
+  z.object({
+    title: text(500),
+    authors: text(1000), // as written, e.g. "Doe J, Roe R"
+    venue: text(300),
+    year: text(50),
+  })
+).refine((publication) => !!publication.title, 'Publication needs a title');
+
+export const ProjectSchema = z.preprocess(
+  (value) =>
+    renameKeys({
+      name: ['title'],
+      technologies: ['tech_stack', 'stack', 'skills'],
+      year: ['date', 'dates'],
+    })(typeof value === 'string' ? { name: value } : value),
+  z.object({
+    name: text(300),
+    description: text(2000),
+    url: text(500),
+    technologies: list(SkillSchema, 30),
+    year: text(50),
+  })
+).refine((project) => !!project.name, 'Project needs a name');
+
+// Spoken languages, with the proficiency as written ("Native", "C1", "Professional working")
+export const LanguageSchema = z.preprocess(
+  (value) =>
+    renameKeys({
+      language: ['name'],
+      proficiency: ['level', 'fluency'],
+    })(typeof value === 'string' ? { language: value } : value),
+  z.object({
+    language: text(100),
+    proficiency: text(100),
+  })
+).refine((language) => !!language.language, 'Language needs a name');
+
+// Proficiency the candidate declared for a skill ("Python (expert)", "Excel – advanced")
+export const SkillLevelSchema = z.preprocess(
+  renameKeys({
+    skill: ['name'],
+    level: ['proficiency'],
+  }),
+  z.object({
+    skill: text(100),
+    level: z.preprocess(parseProficiency, z.enum(PROFICIENCY_LEVELS).nullable()),
+  })
+)
+  .refine((entry) => !!entry.skill && !!entry.level, 'Skill level needs a skill and a level')
+  .transform((entry) => ({ skill: entry.skill!, level: entry.level! }));
+
+export const CandidateSchema = z.object({
+  full_name: text(200),
+  email: text(254).transform((email) => (email && EMAIL_PATTERN.test(email) ? email.toLowerCase() : null)),
+  phone: text(40),
+  location: text(200),
+  skills: list(SkillSchema, 100),
+  experience: list(ExperienceSchema, 50),
+  education: list(EducationSchema, 20),
+  links: list(LinkSchema, 20),
+  certifications: list(CertificationSchema, 50),
+  publications: list(PublicationSchema, 500),
+  skill_levels: list(SkillLevelSchema, 100),
+  projects: list(ProjectSchema, 50),
+  languages: list(LanguageSchema, 30),
+});
+
+export type Candidate = z.output<typeof CandidateSchema>;
+export type Experience = z.output<typeof ExperienceSchema>;
+export type Education = z.output<typeof EducationSchema>;
+export type CandidateLink = z.output<typeof LinkSchema>;
+export type Certification = z.output<typeof CertificationSchema>;
+export type Publication = z.output<typeof PublicationSchema>;
+export type SkillLevel = z.output<typeof SkillLevelSchema>;
+export type Project = z.output<typeof ProjectSchema>;
+export type Language = z.output<typeof LanguageSchema>;
+
+export class CandidateValidationError extends Error {
+  constructor(readonly issues: z.ZodIssue[]) {
+    super(`Candidate failed schema validation: ${issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`);
+    this.name = 'CandidateValidationError';
+  }
+}
+
+// Validates raw parser output (AI JSON, regex fallback, legacy rows) into the canonical shape
+export function normalizeCandidate(raw: unknown): Candidate {
+  const result = CandidateSchema.safeParse(raw);
+  if (!result.success) throw new CandidateValidationError(result.error.issues);
+  return result.data;
+}
+
+// Column layout of public.parsed_resume_details
+export interface ParsedDetailsColumns {
+  full_name: string | null;
+  email: string | null;
+  phone: string | null;
+  location: string | null;
+  skills_json: string[];
+  experience_json: Experience[];
+  education_json: Education[];
+  links_json: CandidateLink[];
+  certifications_json: Certification[];
+  publications_json: Publication[];
+  skill_levels_json: SkillLevel[];
+  projects_json: Project[];
+  languages_json: Language[];
+  schema_version: number;
+}
+
+export function toParsedDetailsColumns(candidate: Candidate): ParsedDetailsColumns {
+  return {
+    full_name: candidate.full_name,
+    email: candidate.email,
+    phone: candidate.phone,
+    location: candidate.location,
+    skills_json: candidate.skills,
+    experience_json: candidate.experience,
+    education_json: candidate.education,
+    links_json: candidate.links,
+    certifications_json: candidate.certifications,
+    publications_json: candidate.publications,
+    skill_levels_json: candidate.skill_levels,
+    projects_json: candidate.projects,
+    languages_json: candidate.languages,
+    schema_version: CANDIDATE_SCHEMA_VERSION,
+  };
+}
+
+type StoredColumns = { [K in keyof ParsedDetailsColumns]?: unknown };
+
+export function fromParsedDetailsColumns(row: StoredColumns): Candidate {
+  return normalizeCandidate({
+    full_name: row.full_name,
+    email: row.email,
+    phone: row.phone,
+    location: row.location,
+    skills: row.skills_json,
+    experience: row.experience_json,
+    education: row.education_json,
+    links: row.links_json,
+    certifications: row.certifications_json,
+    publications: row.publications_json,
+    skill_levels: row.skill_levels_json,
+    projects: row.projects_json,
+    languages: row.languages_json,
+  });
+}
@@ -0,0 +1,131 @@
+// Workspace-defined extraction fields (security clearance, visa status, notice period...).
+// Admins define them in public.custom_field_definitions; the parser asks the model for them
+// next to the candidate schema and stores the typed values in parsed_resume_details.custom_fields.
+// Shared by the parser and the app, which edits and filters on the same values.
+import { parseMonth } from './experience-dates.ts';
+
+export const CUSTOM_FIELD_TYPES = ['text', 'number', 'boolean', 'date', 'select', 'multi_select'] as const;
+
+export type CustomFieldType = (typeof CUSTOM_FIELD_TYPES)[number];
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  boolean: 'Yes / no',
+  date: 'Date',
+  select: 'One of a list',
+  multi_select: 'Several of a list',
+};
+
+// Row shape of public.custom_field_definitions, as far as parsing and filtering need it
+export interface CustomFieldDefinition {
+  key: string;
+  name: string;
+  field_type: string;
+  description: string | null;
+  allowed_values: string[];
+}
+
+export type CustomFieldValue = string | number | boolean | string[] | null;
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+const MAX_TEXT_VALUE = 500;
+const MAX_DESCRIPTION_IN_PROMPT = 300;
+
+export const isCustomFieldType = (value: string): value is CustomFieldType =>
+  (CUSTOM_FIELD_TYPES as readonly string[]).includes(value);
+
+export const hasAllowedValues = (type: string) => type === 'select' || type === 'multi_select';
+
+// "Notice period (weeks)" -> "notice_period_weeks"; the key the model and the column use
+export function customFieldKey(name: string) {
+  return name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 50);
+}
+
+const oneLine = (value: string, max: number) => value.replace(/\s+/g, ' ').trim().slice(0, max);
+
+function schemaHint(definition: CustomFieldDefinition) {
+  const choices = definition.allowed_values.map(value => oneLine(value, 100)).join(' | ');
+  switch (definition.field_type) {
+    case 'number': return '0';
+    case 'boolean': return 'true | false';
+    case 'date': return '"YYYY-MM-DD"';
+    case 'select': return `"${choices}"`;
+    case 'multi_select': return `["${choices}"]`;
+    default: return '"string"';
+  }
+}
+
+// The "custom_fields" entry of the JSON structure and one extraction rule per field
+export function customFieldsPrompt(definitions: CustomFieldDefinition[]) {
+  if (definitions.length === 0) return null;
+  return {
+    structure: `"custom_fields": {${definitions.map(definition => `"${definition.key}": ${schemaHint(definition)}`).join(', ')}}`,
+    rules: [
+      'For "custom_fields", use null for every field the resume does not state; never guess. The fields are:',
+      ...definitions.map(definition => {
+        const description = definition.description ? `: ${oneLine(definition.description, MAX_DESCRIPTION_IN_PROMPT)}` : '';
+        return `  - "${definition.key}" (${oneLine(definition.name, 100)})${description}`;
+      }),
+    ].join('\n'),
+  };
+}
+
+const matchAllowed = (value: string, allowed: string[]) =>
+  allowed.find(option => option.toLowerCase() === value.trim().toLowerCase()) ?? null;
+
+// Coerces one value to the field's type; anything that does not fit becomes null
+export function coerceCustomFieldValue(value: unknown, definition: CustomFieldDefinition): CustomFieldValue {
+  if (value === null || value === undefined) return null;
+  const textValue = typeof value === 'string' || typeof value === 'number' ? String(value).trim() : null;
+
+  switch (definition.field_type) {
+    case 'number': {
+      if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+      const match = textValue?.match(/-?\d+(\.\d+)?/);
+      return match ? Number(match[0]) : null;
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      if (/^(yes|true|y)$/i.test(textValue ?? '')) return true;
+      if (/^(no|false|n|none)$/i.test(textValue ?? '')) return false;
+      return null;
+    }
+    case 'date': {
+      const iso = textValue?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+      if (iso && Number(iso[2]) >= 1 && Number(iso[2]) <= 12 && Number(iso[3]) >= 1 && Number(iso[3]) <= 31) return iso[0];
+      const month = parseMonth(textValue);
+      return month ? `${month}-01` : null;
+    }
+    case 'select':
+      return textValue ? matchAllowed(textValue, definition.allowed_values) : null;
+    case 'multi_select': {
+      const values = Array.isArray(value) ? value : textValue ? textValue.split(',') : [];
+      const matched = values
+        .filter((entry): entry is string => typeof entry === 'string')
+        .map(entry => matchAllowed(entry, definition.allowed_values))
+        .filter((entry): entry is string => !!entry);
+      return matched.length > 0 ? [...new Set(matched)] : null;
+    }
+    default:
+      return textValue ? textValue.slice(0, MAX_TEXT_VALUE) : null;
+  }
+}
+
+// Keeps only defined fields, typed; stored values of fields deleted since are dropped
+export function coerceCustomFields(raw: unknown, definitions: CustomFieldDefinition[]): CustomFieldValues {
+  const source = raw && typeof raw === 'object' && !Array.isArray(raw) ? raw as Record<string, unknown> : {};
+  return Object.fromEntries(definitions.map(definition => [definition.key, coerceCustomFieldValue(source[definition.key], definition)]));
+}
+
+export function formatCustomFieldValue(value: CustomFieldValue): string {
+  if (value === null) return '—';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+}
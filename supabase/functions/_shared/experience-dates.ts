@@ -0,0 +1,180 @@
+// Turns the free-text dates of experience entries ("Jan 2019 – Present", "03/2017 - 2019",
+// "Summer 2020") into YYYY-MM months and computes tenure from them. Shared by the parser,
+// which stores the normalised dates, and the app, which computes years of experience.
+
+export interface ExperienceDates {
+  start_date: string | null; // YYYY-MM
+  end_date: string | null; // YYYY-MM, or null for current roles
+}
+
+interface DatedEntry extends ExperienceDates {
+  title?: string | null;
+  description?: string | null;
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+  spring: 3, summer: 6, fall: 9, autumn: 9, winter: 1,
+};
+
+// A year on its own counts from the middle of it, so "2017 – 2019" is two years, not three
+const YEAR_ONLY_MONTH = 7;
+
+const DATE_TOKEN = new RegExp([
+  /\b(present|current(?:ly)?|now|today|to date|ongoing)\b/.source,
+  /\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec|spring|summer|fall|autumn|winter)[a-z]*\.?,?\s*(?:'|’)?(\d{4}|\d{2})\b/.source,
+  /\b(\d{1,2})[/.-](\d{4})\b/.source,
+  /\b(\d{4})[/.-](\d{1,2})\b/.source,
+  /\b((?:19|20)\d{2})\b/.source,
+].join('|'), 'gi');
+
+type Token = { kind: 'present' } | { kind: 'month'; index: number } | { kind: 'year'; year: number };
+
+const toIndex = (year: number, month: number) => year * 12 + (month - 1);
+
+export const monthIndex = (value: string) => {
+  const [year, month] = value.split('-').map(Number);
+  return toIndex(year, month);
+};
+
+const formatIndex = (index: number) =>
+  `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+
+function expandYear(digits: string, now: Date) {
+  if (digits.length === 4) return Number(digits);
+  const year = Number(digits);
+  return 2000 + year <= now.getFullYear() + 1 ? 2000 + year : 1900 + year;
+}
+
+function scanTokens(text: string, now: Date): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(DATE_TOKEN)) {
+    const [, present, monthName, monthYear, slashMonth, slashYear, isoYear, isoMonth, year] = match;
+    let token: Token | null = null;
+    if (present) {
+      token = { kind: 'present' };
+    } else if (monthName) {
+      token = { kind: 'month', index: toIndex(expandYear(monthYear, now), MONTHS[monthName.toLowerCase()]) };
+    } else if (slashMonth && Number(slashMonth) >= 1 && Number(slashMonth) <= 12) {
+      token = { kind: 'month', index: toIndex(Number(slashYear), Number(slashMonth)) };
+    } else if (isoYear && Number(isoMonth) >= 1 && Number(isoMonth) <= 12) {
+      token = { kind: 'month', index: toIndex(Number(isoYear), Number(isoMonth)) };
+    } else if (year) {
+      token = { kind: 'year', year: Number(year) };
+    }
+    if (token) tokens.push(token);
+  }
+  return tokens;
+}
+
+const tokenIndex = (token: Token) =>
+  token.kind === 'month' ? token.index : token.kind === 'year' ? toIndex(token.year, YEAR_ONLY_MONTH) : null;
+
+// A single date value: "2019-01", "Jan 2019", "01/2019", "2019". "Present" and
+// unreadable values are null.
+export function parseMonth(value: string | null | undefined, now = new Date()): string | null {
+  if (!value) return null;
+  const [token] = scanTokens(value, now);
+  const index = token ? tokenIndex(token) : null;
+  return index === null ? null : formatIndex(index);
+}
+
+// A date range as written on a resume. A single year means a role within that year; a
+// single month, a role of that month, unless the text says it is ongoing ("since 2020").
+export function parseDuration(text: string | null | undefined, now = new Date()): ExperienceDates | null {
+  if (!text) return null;
+  const tokens = scanTokens(text, now);
+  const dates = tokens.filter(token => token.kind !== 'present');
+  if (dates.length === 0) return null;
+
+  const ongoing = tokens.some(token => token.kind === 'present') || /\b(since|from)\b/i.test(text);
+  const [first, second] = dates;
+
+  if (!second) {
+    if (ongoing) return { start_date: formatIndex(tokenIndex(first)!), end_date: null };
+    return first.kind === 'year'
+      ? { start_date: formatIndex(toIndex(first.year, 1)), end_date: formatIndex(toIndex(first.year, 12)) }
+      : { start_date: formatIndex(first.index), end_date: formatIndex(first.index) };
+  }
+
+  let start = tokenIndex(first)!;
+  let end = tokenIndex(second)!;
+  // "2019 – 2019" is a role within that year
+  if (first.kind === 'year' && second.kind === 'year' && first.year === second.year) {
+    start = toIndex(first.year, 1);
+    end = toIndex(first.year, 12);
+  }
+  if (end < start) [start, end] = [end, start];
+  return { start_date: formatIndex(start), end_date: formatIndex(end) };
+}
+
+// Normalises what the model returned, falling back to the written duration when it
+// returned no start date
+export function normalizeExperienceDates(
+  entry: { start_date?: string | null; end_date?: string | null; duration?: string | null },
+  now = new Date()
+): ExperienceDates {
+  const start = parseMonth(entry.start_date, now);
+  if (start) {
+    const end = parseMonth(entry.end_date, now);
+    return { start_date: start, end_date: end && monthIndex(end) < monthIndex(start) ? start : end };
+  }
+  return parseDuration(entry.duration, now) ?? { start_date: null, end_date: null };
+}
+
+const currentIndex = (now: Date) => toIndex(now.getFullYear(), now.getMonth() + 1);
+
+function interval(entry: ExperienceDates, now: Date): [number, number] | null {
+  if (!entry.start_date) return null;
+  const start = monthIndex(entry.start_date);
+  const end = entry.end_date ? monthIndex(entry.end_date) : currentIndex(now);
+  return start <= end ? [start, end] : null;
+}
+
+// Months in one role, counting both the first and the last month; null when undated
+export function roleTenureMonths(entry: ExperienceDates, now = new Date()): number | null {
+  const range = interval(entry, now);
+  return range ? range[1] - range[0] + 1 : null;
+}
+
+// Months covered by any of the roles; overlapping roles are counted once
+export function totalExperienceMonths(entries: ExperienceDates[], now = new Date()): number {
+  const ranges = entries
+    .map(entry => interval(entry, now))
+    .filter((range): range is [number, number] => range !== null)
+    .sort((a, b) => a[0] - b[0]);
+
+  let total = 0;
+  let covered = -Infinity;
+  for (const [start, end] of ranges) {
+    const from = Math.max(start, covered + 1);
+    if (end >= from) total += end - from + 1;
+    covered = Math.max(covered, end);
+  }
+  return total;
+}
+
+// Experience in roles whose title or description mentions any of the terms
+export function relevantExperienceMonths(entries: DatedEntry[], terms: string[], now = new Date()): number {
+  const needles = terms.map(term => term.toLowerCase()).filter(Boolean);
+  if (needles.length === 0) return 0;
+  return totalExperienceMonths(
+    entries.filter(entry => {
+      const haystack = `${entry.title ?? ''} ${entry.description ?? ''}`.toLowerCase();
+      return needles.some(needle => haystack.includes(needle));
+    }),
+    now
+  );
+}
+
+export const hasDatedExperience = (entries: ExperienceDates[]) => entries.some(entry => !!entry.start_date);
+
+export function formatTenure(months: number): string {
+  const years = Math.floor(months / 12);
+  const remainder = months % 12;
+  const parts = [
+    years > 0 ? `${years} yr${years === 1 ? '' : 's'}` : null,
+    remainder > 0 ? `${remainder} mo${remainder === 1 ? '' : 's'}` : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' ') : 'Less than a month';
+}
@@ -0,0 +1,591 @@
+import { unzipSync, strFromU8 } from 'https://esm.sh/fflate@0.8.3';
+import { extractText as extractPdfText, getDocumentProxy, getResolvedPDFJS } from 'https://esm.sh/unpdf@0.12.1';
+import { sniffFileType } from './file-sniffing.ts';
+import { getLLMProvider } from './llm/index.ts';
+import { decodeImage, ocrImage, OCRResult, RGBAImage } from './ocr.ts';
+
+// Text extraction stage of the parse pipeline.
+// Common document formats are handled locally and deterministically. Scans and photos
+// go through local OCR; the LLM is only used when OCR is unsure or impossible.
+
+export type ExtractorName = 'pdf' | 'docx' | 'odt' | 'rtf' | 'html' | 'text' | 'ocr' | 'ai';
+
+export interface ExtractionResult {
+  text: string;
+  extractor: ExtractorName;
+  warnings: string[];
+  ocrConfidence: number | null; // set when the text came from OCR
+  hiddenText: string[]; // text formatted to be invisible to a reader, left out of `text`
+}
+
+interface LocalExtraction {
+  text: string;
+  hidden: string[];
+}
+
+// Below this many non-whitespace characters we assume a scan or a broken text layer
+const MIN_LOCAL_TEXT_LENGTH = 200;
+// A PDF page with less text than this is treated as a scanned page
+const MIN_PAGE_TEXT_LENGTH = 50;
+// Smaller images on an image-only page are logos and signatures, not the scan
+const MIN_SCAN_IMAGE_PIXELS = 300 * 300;
+// Below this OCR text is too unreliable to use when the LLM can still read the file
+const MIN_OCR_CONFIDENCE = 0.6;
+// Text this small is unreadable at any zoom (PDF units, roughly points)
+const MIN_PDF_FONT_SIZE = 1.5;
+// Text within this distance (per RGB channel, 0-255) of its background is treated as invisible
+const MAX_PDF_COLOR_DISTANCE = 16;
+// A TJ adjustment wider than this (thousandths of an em) separates words
+const PDF_WORD_GAP = 250;
+// DOCX font sizes are in half-points
+const MIN_DOCX_FONT_HALF_POINTS = 4;
+
+type LocalFormat = Exclude<ExtractorName, 'ocr' | 'ai'>;
+
+function detectFormat(bytes: Uint8Array, mimeType: string, fileName: string): LocalFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  const header = strFromU8(bytes.subarray(0, 8), true);
+
+  if (header.startsWith('%PDF') || mimeType === 'application/pdf') return 'pdf';
+  if (header.startsWith('{\\rtf') || mimeType.includes('rtf') || extension === 'rtf') return 'rtf';
+  if (mimeType.includes('wordprocessingml') || extension === 'docx') return 'docx';
+  if (mimeType === 'application/vnd.oasis.opendocument.text' || extension === 'odt') return 'odt';
+  if (mimeType === 'text/html' || extension === 'html' || extension === 'htm') return 'html';
+  if (mimeType.startsWith('text/') || ['txt', 'md', 'csv'].includes(extension)) return 'text';
+  return null;
+}
+
+function decodeXmlEntities(text: string) {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function readZipEntry(bytes: Uint8Array, entryName: string) {
+  const entries = unzipSync(bytes, { filter: (file) => file.name === entryName });
+  const entry = entries[entryName];
+  if (!entry) throw new Error(`Archive has no ${entryName}`);
+  return strFromU8(entry);
+}
+
+type Matrix = number[];
+type Box = [number, number, number, number]; // minX, minY, maxX, maxY in device space
+type RGB = [number, number, number];
+
+interface PdfTextRun {
+  text: string;
+  hidden: boolean;
+}
+
+// The parts of the PDF graphics state that decide whether text can be seen
+interface PdfGraphicsState {
+  ctm: Matrix;
+  fill: RGB | null; // null for patterns, whose colour is unknown
+  fillAlpha: number;
+  renderMode: number;
+  clip: Box | null;
+}
+
+type PdfOperatorList = Awaited<ReturnType<PdfPage['getOperatorList']>>;
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const WHITE: RGB = [255, 255, 255];
+const BLACK: RGB = [0, 0, 0];
+
+// Same composition and point mapping as pdf.js' Util.transform / Util.applyTransform
+const multiply = (m1: Matrix, m2: Matrix): Matrix => [
+  m1[0] * m2[0] + m1[2] * m2[1],
+  m1[1] * m2[0] + m1[3] * m2[1],
+  m1[0] * m2[2] + m1[2] * m2[3],
+  m1[1] * m2[2] + m1[3] * m2[3],
+  m1[0] * m2[4] + m1[2] * m2[5] + m1[4],
+  m1[1] * m2[4] + m1[3] * m2[5] + m1[5],
+];
+
+const applyTransform = ([x, y]: number[], m: Matrix) => [x * m[0] + y * m[2] + m[4], x * m[1] + y * m[3] + m[5]];
+
+function transformBox([minX, minY, maxX, maxY]: number[], m: Matrix): Box {
+  const corners = [[minX, minY], [minX, maxY], [maxX, minY], [maxX, maxY]].map(point => applyTransform(point, m));
+  const xs = corners.map(([x]) => x);
+  const ys = corners.map(([, y]) => y);
+  return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+}
+
+const boxContains = ([minX, minY, maxX, maxY]: Box, [x, y]: number[]) => x >= minX && x <= maxX && y >= minY && y <= maxY;
+
+const sameColor = (a: RGB, b: RGB) => a.every((channel, i) => Math.abs(channel - b[i]) <= MAX_PDF_COLOR_DISTANCE);
+
+// Text runs of one page in drawing order, marked hidden when they are drawn invisibly (render
+// mode 3, or fully transparent) or in the colour of what is behind them: the last filled shape
+// under the run's origin, or the white page. Invisible text over an image is kept, as that is
+// how OCR'd scans carry their text layer. pdf.js reports every fill colour as setFillRGBColor.
+function pdfTextRuns(operators: PdfOperatorList, OPS: Record<string, number>): PdfTextRun[] {
+  const runs: PdfTextRun[] = [];
+  // What is painted on the page, in order; `color` is null for images and patterns
+  const backgrounds: { box: Box; color: RGB | null }[] = [];
+  let state: PdfGraphicsState = { ctm: IDENTITY, fill: BLACK, fillAlpha: 1, renderMode: 0, clip: null };
+  const saved: PdfGraphicsState[] = [];
+  let textMatrix = IDENTITY;
+  let line = [0, 0];
+  let leading = 0;
+  let pathBox: number[] | null = null;
+
+  const backgroundAt = (point: number[]) => {
+    for (let i = backgrounds.length - 1; i >= 0; i--) {
+      if (boxContains(backgrounds[i].box, point)) return backgrounds[i];
+    }
+    return { color: WHITE };
+  };
+
+  for (let i = 0; i < operators.fnArray.length; i++) {
+    const fn = operators.fnArray[i];
+    const args = operators.argsArray[i];
+    switch (fn) {
+      case OPS.save:
+      case OPS.paintFormXObjectBegin:
+        saved.push(state);
+        state = { ...state };
+        if (fn === OPS.paintFormXObjectBegin && args?.[0]) state.ctm = multiply(state.ctm, args[0]);
+        break;
+      case OPS.restore:
+      case OPS.paintFormXObjectEnd:
+        state = saved.pop() ?? state;
+        break;
+      case OPS.transform:
+        state.ctm = multiply(state.ctm, args);
+        break;
+      case OPS.setFillRGBColor:
+        state.fill = [args[0], args[1], args[2]];
+        break;
+      case OPS.setFillColorN:
+        state.fill = null;
+        break;
+      case OPS.setGState:
+        for (const [key, value] of args[0]) {
+          if (key === 'ca') state.fillAlpha = value;
+        }
+        break;
+      case OPS.setTextRenderingMode:
+        state.renderMode = args[0];
+        break;
+      case OPS.beginText:
+        textMatrix = IDENTITY;
+        line = [0, 0];
+        break;
+      case OPS.setTextMatrix:
+        textMatrix = args;
+        line = [0, 0];
+        break;
+      case OPS.setLeading:
+        leading = -args[0];
+        break;
+      case OPS.setLeadingMoveText:
+        leading = args[1];
+        line = [line[0] + args[0], line[1] + args[1]];
+        break;
+      case OPS.moveText:
+        line = [line[0] + args[0], line[1] + args[1]];
+        break;
+      case OPS.nextLine:
+        line = [line[0], line[1] + leading];
+        break;
+      case OPS.constructPath:
+        pathBox = args[2];
+        break;
+      case OPS.fill:
+      case OPS.eoFill:
+      case OPS.fillStroke:
+      case OPS.eoFillStroke:
+      case OPS.closeFillStroke:
+      case OPS.closeEOFillStroke:
+        if (pathBox) backgrounds.push({ box: transformBox(pathBox, state.ctm), color: state.fill });
+        pathBox = null;
+        break;
+      case OPS.clip:
+      case OPS.eoClip:
+        if (pathBox) state.clip = transformBox(pathBox, state.ctm);
+        break;
+      case OPS.shadingFill:
+        // Paints the clipping area, or the whole page
+        backgrounds.push({ box: state.clip ?? [-Infinity, -Infinity, Infinity, Infinity], color: null });
+        break;
+      case OPS.endPath:
+      case OPS.stroke:
+      case OPS.closeStroke:
+        pathBox = null;
+        break;
+      case OPS.paintImageXObject:
+      case OPS.paintInlineImageXObject:
+      case OPS.paintImageMaskXObject:
+        backgrounds.push({ box: transformBox([0, 0, 1, 1], state.ctm), color: null });
+        break;
+      case OPS.showText: {
+        const text = (args[0] as unknown[])
+          .map(glyph => (typeof glyph === 'number' ? (glyph < -PDF_WORD_GAP ? ' ' : '') : (glyph as { unicode?: string })?.unicode ?? ''))
+          .join('')
+          .normalize('NFKC');
+        if (text.trim() === '') break;
+        const origin = applyTransform(applyTransform(line, textMatrix), state.ctm);
+        const background = backgroundAt(origin);
+        const invisible = (state.renderMode & 3) === 3 || state.fillAlpha === 0;
+        const hidden = invisible
+          ? background.color !== null
+          : !!state.fill && !!background.color && sameColor(state.fill, background.color);
+        runs.push({ text, hidden });
+        break;
+      }
+    }
+  }
+  return runs;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Takes the hidden runs out of the page text pdf.js produced. Runs are matched in drawing order,
+// ignoring whitespace, so a hidden run is cut where it was drawn and not from an earlier,
+// visible occurrence of the same words.
+function removeHiddenRuns(pageText: string, runs: PdfTextRun[]) {
+  let text = pageText;
+  let cursor = 0;
+  for (const run of runs) {
+    const pattern = new RegExp([...run.text.replace(/\s+/g, '')].map(escapeRegExp).join('\\s*'), 'g');
+    pattern.lastIndex = cursor;
+    const match = pattern.exec(text);
+    if (!match) continue;
+    if (run.hidden) {
+      text = text.slice(0, match.index) + text.slice(match.index + match[0].length);
+      cursor = match.index;
+    } else {
+      cursor = match.index + match[0].length;
+    }
+  }
+  return text;
+}
+
+// Same text as unpdf's extractText, minus hidden runs: text set in a microscopic font, drawn
+// invisibly, or in the colour of the background it is drawn on (see pdfTextRuns)
+async function extractPdf(bytes: Uint8Array): Promise<LocalExtraction> {
+  // pdf.js transfers (detaches) the buffer it is given; OCR and the AI fallback still need it
+  const pdf = await getDocumentProxy(bytes.slice());
+  const { OPS } = await getResolvedPDFJS();
+  const pages: string[] = [];
+  const hidden: string[] = [];
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    let pageText = '';
+    let previousHidden = false;
+    for (const item of content.items) {
+      if (!('str' in item)) continue;
+      const fontSize = Math.hypot(item.transform[2], item.transform[3]);
+      const isHidden = item.str.trim() !== '' && fontSize < MIN_PDF_FONT_SIZE;
+      if (isHidden) {
+        if (previousHidden) hidden[hidden.length - 1] += ` ${item.str}`;
+        else hidden.push(item.str);
+      } else {
+        pageText += item.str + (item.hasEOL ? '\n' : '');
+      }
+      previousHidden = isHidden;
+    }
+
+    const runs = pdfTextRuns(await page.getOperatorList(), OPS);
+    if (runs.some(run => run.hidden)) {
+      pageText = removeHiddenRuns(pageText, runs);
+      runs.forEach((run, index) => {
+        if (!run.hidden) return;
+        if (index > 0 && runs[index - 1].hidden) hidden[hidden.length - 1] += ` ${run.text}`;
+        else hidden.push(run.text);
+      });
+    }
+    pages.push(pageText);
+  }
+  return { text: pages.join('\n'), hidden };
+}
+
+// Hidden (w:vanish), microscopic, or white runs; white is fine on a shaded background
+function isHiddenDocxRun(properties: string) {
+  if (/<w:(spec)?[vV]anish(\/>| w:val="(1|true|on)")/.test(properties)) return true;
+  const size = properties.match(/<w:sz w:val="(\d+)"/);
+  if (size && Number(size[1]) < MIN_DOCX_FONT_HALF_POINTS) return true;
+  return /<w:color w:val="(FFFFFF|white)"/i.test(properties) && !/<w:(shd|highlight)\b/.test(properties);
+}
+
+function docxXmlToText(xml: string) {
+  return decodeXmlEntities(
+    xml
+      .replace(/<w:tab\/>/g, '\t')
+      .replace(/<w:(br|cr)\/>/g, '\n')
+      .replace(/<\/w:p>/g, '\n')
+      .replace(/<[^>]+>/g, '')
+  );
+}
+
+function extractDocx(bytes: Uint8Array): LocalExtraction {
+  const xml = readZipEntry(bytes, 'word/document.xml');
+  const hidden: string[] = [];
+  const visibleXml = xml.replace(/<w:r(?:\s[^>]*)?>[\s\S]*?<\/w:r>/g, (run) => {
+    const properties = run.match(/<w:rPr>([\s\S]*?)<\/w:rPr>/)?.[1];
+    if (!properties || !isHiddenDocxRun(properties)) return run;
+    hidden.push(docxXmlToText(run));
+    return '';
+  });
+  return { text: docxXmlToText(visibleXml), hidden };
+}
+
+function extractOdt(bytes: Uint8Array) {
+  const xml = readZipEntry(bytes, 'content.xml');
+  return decodeXmlEntities(
+    xml
+      .replace(/<text:tab\/>/g, '\t')
+      .replace(/<text:s(?: text:c="(\d+)")?\/>/g, (_, count) => ' '.repeat(Number(count ?? 1)))
+      .replace(/<text:line-break\/>/g, '\n')
+      .replace(/<\/text:(p|h)>/g, '\n')
+      .replace(/<[^>]+>/g, '')
+  );
+}
+
+function extractRtf(bytes: Uint8Array) {
+  const rtf = new TextDecoder('latin1').decode(bytes);
+  return rtf
+    // Drop destinations that never hold body text (font/color tables, metadata, pictures)
+    .replace(/\{\\\*[^{}]*(\{[^{}]*\}[^{}]*)*\}/g, '')
+    .replace(/\{\\(fonttbl|colortbl|stylesheet|info|pict)[^{}]*(\{[^{}]*\}[^{}]*)*\}/g, '')
+    .replace(/\\u(-?\d+)\??/g, (_, code) => String.fromCharCode((Number(code) + 65536) % 65536))
+    .replace(/\\'([0-9a-f]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/\\(par|line)\b ?/g, '\n')
+    .replace(/\\tab\b ?/g, '\t')
+    .replace(/\\[a-z]+-?\d* ?/gi, '')
+    .replace(/\\([{}\\])/g, '$1')
+    .replace(/[{}]/g, '');
+}
+
+function htmlToText(html: string) {
+  return decodeXmlEntities(
+    html
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|li|h[1-6]|tr|section|article)>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  );
+}
+
+const HIDDEN_HTML_STYLE = /display\s*:\s*none|visibility\s*:\s*hidden|opacity\s*:\s*0(\.0+)?\s*(;|$)|font-size\s*:\s*(0|[01](\.\d+)?(px|pt))\s*(;|$)|(^|;)\s*color\s*:\s*(#fff(fff)?|white|rgb\(\s*255\s*,\s*255\s*,\s*255\s*\))\s*(;|$)/i;
+const VOID_HTML_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr']);
+
+function isHiddenHtmlElement(attributes: string) {
+  if (/(^|\s)hidden(\s|=|$)/i.test(attributes.replace(/"[^"]*"|'[^']*'/g, '""'))) return true;
+  const style = attributes.match(/style\s*=\s*("([^"]*)"|'([^']*)')/i);
+  return style ? HIDDEN_HTML_STYLE.test((style[2] ?? style[3]).trim()) : false;
+}
+
+// Index just past the tag closing the element that starts at `from`, counting nested
+// elements of the same name; an unclosed element runs to the end of the document
+function closingTagEnd(html: string, name: string, from: number) {
+  const tags = new RegExp(`<(/?)${name}\\b[^>]*>`, 'gi');
+  tags.lastIndex = from;
+  let depth = 1;
+  let match: RegExpExecArray | null;
+  while ((match = tags.exec(html))) {
+    depth += match[1] ? -1 : 1;
+    if (depth === 0) return { contentEnd: match.index, end: tags.lastIndex };
+  }
+  return { contentEnd: html.length, end: html.length };
+}
+
+function extractHtml(bytes: Uint8Array): LocalExtraction {
+  const html = new TextDecoder().decode(bytes).replace(/<(script|style|head)[\s\S]*?<\/\1>/gi, '');
+  const hidden: string[] = [];
+  const openingTags = /<([a-z][a-z0-9]*)\b([^>]*)>/gi;
+  let visibleHtml = '';
+  let cursor = 0;
+  let match: RegExpExecArray | null;
+  while ((match = openingTags.exec(html))) {
+    const [tag, name, attributes] = match;
+    if (tag.endsWith('/>') || VOID_HTML_ELEMENTS.has(name.toLowerCase()) || !isHiddenHtmlElement(attributes)) continue;
+    const { contentEnd, end } = closingTagEnd(html, name, openingTags.lastIndex);
+    hidden.push(htmlToText(html.slice(openingTags.lastIndex, contentEnd)));
+    visibleHtml += html.slice(cursor, match.index);
+    cursor = openingTags.lastIndex = end;
+  }
+  return { text: htmlToText(visibleHtml + html.slice(cursor)), hidden };
+}
+
+function extractPlainText(bytes: Uint8Array) {
+  return new TextDecoder().decode(bytes).replace(/^\uFEFF/, '');
+}
+
+async function extractLocally(format: LocalFormat, bytes: Uint8Array): Promise<LocalExtraction> {
+  const byteLength = bytes.byteLength;
+  let result: LocalExtraction;
+  switch (format) {
+    case 'pdf': result = await extractPdf(bytes); break;
+    case 'docx': result = extractDocx(bytes); break;
+    case 'odt': result = { text: extractOdt(bytes), hidden: [] }; break;
+    case 'rtf': result = { text: extractRtf(bytes), hidden: [] }; break;
+    case 'html': result = extractHtml(bytes); break;
+    case 'text': result = { text: extractPlainText(bytes), hidden: [] }; break;
+  }
+  // A detached buffer reads as empty, which would silently starve OCR and the AI fallback
+  if (bytes.byteLength !== byteLength) {
+    throw new Error(`${format} extractor consumed the file buffer`);
+  }
+  return result;
+}
+
+// pdf.js ImageKind: 1 = 1-bit grayscale (packed), 2 = RGB, 3 = RGBA
+type PdfImage = { width: number; height: number; kind: number; data: Uint8ClampedArray | Uint8Array };
+type PdfPage = Awaited<ReturnType<Awaited<ReturnType<typeof getDocumentProxy>>['getPage']>>;
+
+function pdfImageToRGBA({ width, height, kind, data }: PdfImage): RGBAImage {
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  const rowBytes = Math.ceil(width / 8);
+  for (let pixel = 0; pixel < width * height; pixel++) {
+    const target = pixel * 4;
+    if (kind === 1) {
+      const x = pixel % width;
+      const y = Math.floor(pixel / width);
+      const value = (data[y * rowBytes + (x >> 3)] >> (7 - (x & 7))) & 1 ? 255 : 0;
+      rgba[target] = rgba[target + 1] = rgba[target + 2] = value;
+    } else {
+      const source = pixel * (kind === 2 ? 3 : 4);
+      rgba[target] = data[source];
+      rgba[target + 1] = data[source + 1];
+      rgba[target + 2] = data[source + 2];
+    }
+    rgba[target + 3] = 255;
+  }
+  return { data: rgba, width, height };
+}
+
+// The largest image painted on a page, which on a scanned page is the scan itself
+async function largestPageImage(page: PdfPage, paintImageOp: number): Promise<PdfImage | null> {
+  const operators = await page.getOperatorList();
+  let largest: PdfImage | null = null;
+  for (let i = 0; i < operators.fnArray.length; i++) {
+    if (operators.fnArray[i] !== paintImageOp) continue;
+    const key: string = operators.argsArray[i][0];
+    // Images shared between pages live in commonObjs
+    const image: PdfImage | null = await (key.startsWith('g_') ? page.commonObjs : page.objs).get(key);
+    if (!image?.data || ![1, 2, 3].includes(image.kind)) continue;
+    if (!largest || image.width * image.height > largest.width * largest.height) largest = image;
+  }
+  return largest && largest.width * largest.height >= MIN_SCAN_IMAGE_PIXELS ? largest : null;
+}
+
+function combineOCRResults(results: OCRResult[]) {
+  const totalLength = results.reduce((sum, result) => sum + result.text.length, 0);
+  return totalLength > 0
+    ? results.reduce((sum, result) => sum + result.confidence * result.text.length, 0) / totalLength
+    : 0;
+}
+
+// Keeps the text layer of pages that have one and OCRs the scanned ones
+async function ocrPdf(bytes: Uint8Array) {
+  const pdf = await getDocumentProxy(bytes.slice());
+  const { text: pageTexts } = await extractPdfText(pdf, { mergePages: false });
+  const { OPS } = await getResolvedPDFJS();
+
+  const pages: string[] = [];
+  const ocrResults: OCRResult[] = [];
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const pageText = (pageTexts as string[])[pageNumber - 1] ?? '';
+    if (meaningfulLength(pageText) >= MIN_PAGE_TEXT_LENGTH) {
+      pages.push(pageText);
+      continue;
+    }
+    const image = await largestPageImage(await pdf.getPage(pageNumber), OPS.paintImageXObject);
+    if (!image) {
+      pages.push(pageText);
+      continue;
+    }
+    const result = await ocrImage(pdfImageToRGBA(image));
+    console.log(`OCR of page ${pageNumber}: ${result.text.length} characters, confidence ${result.confidence.toFixed(2)}, rotation ${result.rotation}, skew ${result.skew}`);
+    ocrResults.push(result);
+    pages.push(result.text);
+  }
+
+  if (ocrResults.length === 0) return null;
+  return { text: pages.join('\n'), confidence: combineOCRResults(ocrResults) };
+}
+
+async function ocrImageFile(bytes: Uint8Array) {
+  const image = await decodeImage(bytes);
+  if (!image) return null;
+  const result = await ocrImage(image);
+  console.log(`OCR of image: ${result.text.length} characters, confidence ${result.confidence.toFixed(2)}, rotation ${result.rotation}, skew ${result.skew}`);
+  return { text: result.text, confidence: result.confidence };
+}
+
+// Formats without a text layer, or PDFs whose text layer is missing
+const OCR_IMAGE_TYPES = new Set(['png', 'jpeg', 'gif', 'tiff']);
+
+export async function countPdfPages(bytes: Uint8Array) {
+  // pdf.js may detach the buffer it is given, so it gets its own copy
+  const pdf = await getDocumentProxy(bytes.slice());
+  return pdf.numPages;
+}
+
+function meaningfulLength(text: string) {
+  return text.replace(/\s+/g, '').length;
+}
+
+export async function extractResumeText(file: Blob, fileName: string): Promise<ExtractionResult> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const format = detectFormat(bytes, file.type, fileName);
+  const warnings: string[] = [];
+  let localText = '';
+  let hiddenText: string[] = [];
+
+  // Step 1: Local, deterministic extraction
+  if (format) {
+    try {
+      ({ text: localText, hidden: hiddenText } = await extractLocally(format, bytes));
+      console.log(`Local ${format} extraction produced ${localText.length} characters, ${hiddenText.length} hidden segment(s)`);
+      if (meaningfulLength(localText) >= MIN_LOCAL_TEXT_LENGTH) {
+        return { text: localText, extractor: format, warnings, ocrConfidence: null, hiddenText };
+      }
+      warnings.push(`Local ${format} extraction yielded too little text`);
+    } catch (error) {
+      console.error(`Local ${format} extraction failed:`, error.message);
+      warnings.push(`Local ${format} extraction failed: ${error.message}`);
+    }
+  }
+
+  // Step 2: Local OCR for images and scanned PDF pages
+  let ocr: { text: string; confidence: number } | null = null;
+  if (format === 'pdf' || OCR_IMAGE_TYPES.has(sniffFileType(bytes) ?? '')) {
+    try {
+      ocr = format === 'pdf' ? await ocrPdf(bytes) : await ocrImageFile(bytes);
+      if (ocr && meaningfulLength(ocr.text) >= MIN_LOCAL_TEXT_LENGTH && ocr.confidence >= MIN_OCR_CONFIDENCE) {
+        return { text: ocr.text, extractor: 'ocr', warnings, ocrConfidence: ocr.confidence, hiddenText };
+      }
+      if (ocr) warnings.push(`OCR was unsure (${Math.round(ocr.confidence * 100)}% confidence)`);
+    } catch (error) {
+      console.error('OCR failed:', error.message);
+      warnings.push(`OCR failed: ${error.message}`);
+    }
+  } else if (!format) {
+    console.log(`No local extractor for ${file.type || fileName}, using AI extraction`);
+  }
+
+  // Step 3: Escalate to multimodal AI when neither produced usable text
+  try {
+    const aiText = await getLLMProvider().extractText(file);
+    return { text: aiText, extractor: 'ai', warnings, ocrConfidence: null, hiddenText };
+  } catch (error) {
+    warnings.push(`AI extraction failed: ${error.message}`);
+    // Uncertain OCR text, or a little text from the text layer, is still better than nothing
+    if (ocr && meaningfulLength(ocr.text) > meaningfulLength(localText)) {
+      return { text: ocr.text, extractor: 'ocr', warnings, ocrConfidence: ocr.confidence, hiddenText };
+    }
+    if (format && localText) {
+      return { text: localText, extractor: format, warnings, ocrConfidence: null, hiddenText };
+    }
+    throw error;
+  }
+}
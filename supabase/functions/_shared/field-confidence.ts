@@ -0,0 +1,99 @@
+import type { Candidate } from './candidate-schema.ts';
+
+// Per-field confidence and provenance of a parsed candidate, persisted as
+// parsed_resume_details.field_confidence. Shared with the app's review queue.
+
+export type FieldSource = 'ai' | 'regex' | 'manual';
+
+export type FieldConfidence = {
+  confidence: number; // 0..1
+  source: FieldSource;
+};
+
+export const CONFIDENCE_FIELDS = ['full_name', 'email', 'phone', 'location', 'skills', 'experience', 'education'] as const;
+
+export type ConfidenceField = (typeof CONFIDENCE_FIELDS)[number];
+export type FieldConfidenceMap = Partial<Record<ConfidenceField, FieldConfidence>>;
+
+export type ReviewStatus = 'not_required' | 'pending' | 'confirmed';
+
+// Anything below this needs a recruiter to confirm it before the candidate is searchable
+export const REVIEW_CONFIDENCE_THRESHOLD = 0.7;
+
+// A candidate without these is never considered complete, whatever the parser claims
+const REQUIRED_FIELDS: ConfidenceField[] = ['full_name', 'email'];
+
+// Used when the AI did not report a confidence for a field it filled
+const DEFAULT_AI_CONFIDENCE = 0.8;
+
+// The regex fallback only ever finds contact details, and its name guess is weak
+const REGEX_CONFIDENCE: FieldConfidenceMap = {
+  full_name: { confidence: 0.3, source: 'regex' },
+  email: { confidence: 0.6, source: 'regex' },
+  phone: { confidence: 0.5, source: 'regex' },
+};
+
+export function hasFieldValue(candidate: Candidate, field: ConfidenceField) {
+  const value = candidate[field];
+  return Array.isArray(value) ? value.length > 0 : !!value;
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+// `reported` is the model's own { field: 0..1 } estimate, when it gave one
+export function buildFieldConfidence(candidate: Candidate, source: FieldSource, reported: unknown = null): FieldConfidenceMap {
+  const reportedScores = reported && typeof reported === 'object' ? reported as Record<string, unknown> : {};
+  const confidence: FieldConfidenceMap = {};
+
+  for (const field of CONFIDENCE_FIELDS) {
+    if (!hasFieldValue(candidate, field)) {
+      confidence[field] = { confidence: 0, source };
+    } else if (source === 'regex') {
+      confidence[field] = REGEX_CONFIDENCE[field] ?? { confidence: 0, source };
+    } else {
+      const score = reportedScores[field];
+      confidence[field] = {
+        confidence: typeof score === 'number' && Number.isFinite(score) ? clamp(score) : DEFAULT_AI_CONFIDENCE,
+        source,
+      };
+    }
+  }
+
+  return confidence;
+}
+
+// Fields read from OCR text are no more reliable than the OCR itself, so a shaky scan
+// sends the candidate to review even when the model was sure of what it read
+export function capFieldConfidence(confidence: FieldConfidenceMap, cap: number | null): FieldConfidenceMap {
+  if (cap === null) return confidence;
+  const capped: FieldConfidenceMap = {};
+  for (const [field, entry] of Object.entries(confidence) as [ConfidenceField, FieldConfidence][]) {
+    capped[field] = { ...entry, confidence: Math.min(entry.confidence, clamp(cap)) };
+  }
+  return capped;
+}
+
+export function getFlaggedFields(candidate: Candidate, confidence: FieldConfidenceMap): ConfidenceField[] {
+  return CONFIDENCE_FIELDS.filter((field) => {
+    if (!hasFieldValue(candidate, field)) return REQUIRED_FIELDS.includes(field);
+    return (confidence[field]?.confidence ?? 0) < REVIEW_CONFIDENCE_THRESHOLD;
+  });
+}
+
+export function reviewStatusFor(candidate: Candidate, confidence: FieldConfidenceMap): ReviewStatus {
+  return getFlaggedFields(candidate, confidence).length > 0 ? 'pending' : 'not_required';
+}
+
+// Reads the stored JSON column, ignoring anything malformed
+export function readFieldConfidence(value: unknown): FieldConfidenceMap {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  const stored = value as Record<string, { confidence?: unknown; source?: unknown }>;
+  const confidence: FieldConfidenceMap = {};
+  for (const field of CONFIDENCE_FIELDS) {
+    const entry = stored[field];
+    if (entry && typeof entry.confidence === 'number' && ['ai', 'regex', 'manual'].includes(entry.source as string)) {
+      confidence[field] = { confidence: clamp(entry.confidence), source: entry.source as FieldSource };
+    }
+  }
+  return confidence;
+}
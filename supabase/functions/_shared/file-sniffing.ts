@@ -0,0 +1,184 @@
+// Magic-byte validation of uploaded documents, shared by the upload form and the parse
+// pipeline so a file is judged the same way on both sides. Pure byte inspection only:
+// no decompression and no rendering, so it is safe to run on untrusted input.
+
+export type SniffedType =
+  | 'pdf'
+  | 'docx'
+  | 'odt'
+  | 'doc'
+  | 'rtf'
+  | 'png'
+  | 'jpeg'
+  | 'gif'
+  | 'webp'
+  | 'tiff'
+  | 'text';
+
+export type RejectionCode =
+  | 'empty'
+  | 'too_large'
+  | 'too_many_pages'
+  | 'executable'
+  | 'macro_enabled'
+  | 'encrypted'
+  | 'type_mismatch'
+  | 'unsupported_type';
+
+export interface FileRejection {
+  code: RejectionCode;
+  message: string;
+}
+
+export interface FileInspection {
+  type: SniffedType | null;
+  rejection: FileRejection | null;
+}
+
+export const MAX_RESUME_BYTES = 25 * 1024 * 1024;
+export const MAX_PDF_PAGES = 30;
+
+const EXECUTABLE_EXTENSIONS = new Set([
+  'exe', 'dll', 'com', 'scr', 'msi', 'bat', 'cmd', 'ps1', 'vbs', 'vbe', 'js', 'jse', 'wsf',
+  'sh', 'jar', 'apk', 'app', 'dmg', 'lnk', 'hta', 'cpl',
+]);
+
+const MACRO_EXTENSIONS = new Set(['docm', 'dotm', 'xlsm', 'xltm', 'pptm', 'potm', 'ppsm']);
+
+// Which sniffed types a given extension may legitimately contain
+const EXTENSION_TYPES: Record<string, SniffedType[]> = {
+  pdf: ['pdf'],
+  docx: ['docx'],
+  odt: ['odt'],
+  // Word happily saves RTF with a .doc extension
+  doc: ['doc', 'rtf'],
+  rtf: ['rtf'],
+  png: ['png'],
+  jpg: ['jpeg'],
+  jpeg: ['jpeg'],
+  gif: ['gif'],
+  webp: ['webp'],
+  tif: ['tiff'],
+  tiff: ['tiff'],
+  txt: ['text'],
+  md: ['text'],
+  csv: ['text'],
+  html: ['text'],
+  htm: ['text'],
+};
+
+const latin1 = new TextDecoder('latin1');
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, index) => bytes[offset + index] === byte);
+
+const indexOfBytes = (bytes: Uint8Array, pattern: Uint8Array) => {
+  outer: for (let i = 0; i <= bytes.length - pattern.length; i++) {
+    for (let j = 0; j < pattern.length; j++) {
+      if (bytes[i + j] !== pattern[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+};
+
+// OLE storage names are UTF-16LE
+const utf16le = (value: string) => new Uint8Array([...value].flatMap(char => [char.charCodeAt(0), 0]));
+
+const isExecutable = (bytes: Uint8Array) =>
+  startsWith(bytes, [0x4d, 0x5a]) || // Windows PE ("MZ")
+  startsWith(bytes, [0x7f, 0x45, 0x4c, 0x46]) || // ELF
+  startsWith(bytes, [0xfe, 0xed, 0xfa, 0xce]) || startsWith(bytes, [0xfe, 0xed, 0xfa, 0xcf]) ||
+  startsWith(bytes, [0xce, 0xfa, 0xed, 0xfe]) || startsWith(bytes, [0xcf, 0xfa, 0xed, 0xfe]) || // Mach-O
+  startsWith(bytes, [0xca, 0xfe, 0xba, 0xbe]) || // Mach-O universal / Java class
+  startsWith(bytes, [0x23, 0x21]); // "#!" scripts
+
+// Reads entry names from a ZIP central directory without decompressing anything.
+// Returns null when the archive is malformed.
+function listZipEntries(bytes: Uint8Array): string[] | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  // The end-of-central-directory record is 22 bytes plus a comment of up to 64KB
+  const lowest = Math.max(0, bytes.length - 22 - 0xffff);
+  for (let eocd = bytes.length - 22; eocd >= lowest; eocd--) {
+    if (view.getUint32(eocd, true) !== 0x06054b50) continue;
+
+    const count = view.getUint16(eocd + 10, true);
+    let offset = view.getUint32(eocd + 16, true);
+    const names: string[] = [];
+    for (let i = 0; i < count; i++) {
+      if (offset + 46 > bytes.length || view.getUint32(offset, true) !== 0x02014b50) return null;
+      const nameLength = view.getUint16(offset + 28, true);
+      const extraLength = view.getUint16(offset + 30, true);
+      const commentLength = view.getUint16(offset + 32, true);
+      names.push(latin1.decode(bytes.subarray(offset + 46, offset + 46 + nameLength)));
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+    return names;
+  }
+  return null;
+}
+
+const looksLikeText = (bytes: Uint8Array) => !bytes.subarray(0, 8192).includes(0);
+
+const reject = (code: RejectionCode, message: string): FileInspection => ({ type: null, rejection: { code, message } });
+
+export function sniffFileType(bytes: Uint8Array): SniffedType | null {
+  if (startsWith(bytes, [0x25, 0x50, 0x44, 0x46])) return 'pdf'; // %PDF
+  if (startsWith(bytes, [0x7b, 0x5c, 0x72, 0x74, 0x66])) return 'rtf'; // {\rtf
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47])) return 'png';
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'jpeg';
+  if (startsWith(bytes, [0x47, 0x49, 0x46, 0x38])) return 'gif'; // GIF8
+  if (startsWith(bytes, [0x52, 0x49, 0x46, 0x46]) && startsWith(bytes, [0x57, 0x45, 0x42, 0x50], 8)) return 'webp';
+  if (startsWith(bytes, [0x49, 0x49, 0x2a, 0x00]) || startsWith(bytes, [0x4d, 0x4d, 0x00, 0x2a])) return 'tiff';
+  if (startsWith(bytes, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return 'doc'; // OLE compound file
+  if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04])) {
+    const entries = listZipEntries(bytes) ?? [];
+    if (entries.includes('word/document.xml')) return 'docx';
+    if (entries.includes('mimetype') && entries.includes('content.xml')) return 'odt';
+    return null;
+  }
+  if (looksLikeText(bytes)) return 'text';
+  return null;
+}
+
+export function inspectFile(bytes: Uint8Array, fileName: string): FileInspection {
+  const extension = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : '';
+
+  if (bytes.length === 0) return reject('empty', 'The file is empty.');
+  if (bytes.length > MAX_RESUME_BYTES) return reject('too_large', 'The file is larger than 25MB.');
+
+  if (EXECUTABLE_EXTENSIONS.has(extension) || isExecutable(bytes)) {
+    return reject('executable', 'Executable files and scripts are not accepted.');
+  }
+  if (MACRO_EXTENSIONS.has(extension)) {
+    return reject('macro_enabled', 'Macro-enabled Office files are not accepted. Save it as .docx or PDF.');
+  }
+
+  const type = sniffFileType(bytes);
+
+  if (type === 'docx' && listZipEntries(bytes)?.some(name => name.toLowerCase().endsWith('vbaproject.bin'))) {
+    return reject('macro_enabled', 'The document contains macros. Save it as a macro-free .docx or PDF.');
+  }
+  if (type === 'doc') {
+    // Password-protected .docx files are stored as an OLE container holding an encrypted package
+    if (indexOfBytes(bytes, utf16le('EncryptedPackage')) >= 0) {
+      return reject('encrypted', 'The document is password-protected. Remove the password and upload it again.');
+    }
+    if (indexOfBytes(bytes, utf16le('_VBA_PROJECT')) >= 0 || indexOfBytes(bytes, utf16le('Macros')) >= 0) {
+      return reject('macro_enabled', 'The document contains macros. Save it as a macro-free .docx or PDF.');
+    }
+  }
+  if (type === 'pdf' && /\/Encrypt\b/.test(latin1.decode(bytes))) {
+    return reject('encrypted', 'The PDF is encrypted. Remove the password and upload it again.');
+  }
+
+  const expected = EXTENSION_TYPES[extension];
+  if (!type) {
+    return reject('unsupported_type', 'This file type is not supported. Upload a PDF, Word, text or image file.');
+  }
+  if (expected && !expected.includes(type)) {
+    return reject('type_mismatch', `The file content does not match its .${extension} extension.`);
+  }
+
+  return { type, rejection: null };
+}
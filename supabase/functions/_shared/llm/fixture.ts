@@ -0,0 +1,74 @@
+import { parseJSONResponse } from './json.ts';
+import { LLMProvider, LLMRequestOptions, LLMTask } from './types.ts';
+
+// Deterministic offline provider for local development and tests.
+// Responses come from LLM_FIXTURES_DIR/<task>.json (or .txt for extract-text) when present,
+// otherwise from the built-in fixtures below. No network calls are made.
+
+const BUILT_IN_FIXTURES: Record<LLMTask, string> = {
+  'parse-resume': JSON.stringify({
+    full_name: 'Jordan Example',
+    email: 'jordan.example@example.com',
+    phone: '+1 555 010 2030',
+    location: 'Austin, TX',
+    skills: ['TypeScript', 'React', 'Node.js', 'PostgreSQL'],
+    experience: [
+      { title: 'Senior Software Engineer', company: 'Example Corp', duration: 'Jan 2021 - Present', description: 'Built and operated the hiring platform.' },
+      { title: 'Software Engineer', company: 'Sample Labs', duration: 'Jun 2017 - Dec 2020', description: 'Developed internal tooling.' },
+    ],
+    education: [
+      { degree: 'B.S. Computer Science', institution: 'Example University', year: '2017' },
+    ],
+  }),
+  'extract-text': [
+    'Jordan Example',
+    'jordan.example@example.com | +1 555 010 2030 | Austin, TX',
+    'Experience',
+    'Senior Software Engineer, Example Corp, Jan 2021 - Present',
+    'Software Engineer, Sample Labs, Jun 2017 - Dec 2020',
+    'Education',
+    'B.S. Computer Science, Example University, 2017',
+    'Skills: TypeScript, React, Node.js, PostgreSQL',
+  ].join('\n'),
+  'screening-questions': JSON.stringify({
+    questions: [
+      'Walk me through the most complex system you have designed end to end.',
+      'How do you decide between building a feature in-house and adopting a library?',
+      'Describe a production incident you debugged and what you changed afterwards.',
+      'How do you keep a large codebase maintainable as the team grows?',
+      'Tell me about a technical decision you made that you would revisit today.',
+    ],
+  }),
+};
+
+async function loadFixture(task: LLMTask, extension: 'json' | 'txt') {
+  const dir = Deno.env.get('LLM_FIXTURES_DIR');
+  if (dir) {
+    try {
+      return await Deno.readTextFile(`${dir.replace(/\/$/, '')}/${task}.${extension}`);
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+    }
+  }
+  return BUILT_IN_FIXTURES[task];
+}
+
+export function createFixtureProvider(): LLMProvider {
+  return {
+    name: 'fixture',
+    model: 'fixture',
+    async complete(_prompt: string, options: LLMRequestOptions) {
+      console.log(`Fixture LLM answering ${options.task}`);
+      return loadFixture(options.task, 'json');
+    },
+    async completeJSON<T>(_prompt: string, options: LLMRequestOptions) {
+      console.log(`Fixture LLM answering ${options.task}`);
+      return parseJSONResponse<T>(await loadFixture(options.task, 'json'), 'fixture');
+    },
+    async extractText(file: Blob) {
+      // Plain text uploads are echoed back so local runs exercise real content
+      if (file.type.startsWith('text/')) return file.text();
+      return loadFixture('extract-text', 'txt');
+    },
+  };
+}
@@ -0,0 +1,60 @@
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { parseJSONResponse } from './json.ts';
+import { EXTRACTION_PROMPT, LLMError, LLMProvider, LLMRequestOptions } from './types.ts';
+
+const DEFAULT_MODEL = 'gemini-1.5-flash';
+
+export function createGeminiProvider(model = DEFAULT_MODEL): LLMProvider {
+  const apiKey = Deno.env.get('GOOGLE_AI_API_KEY');
+  if (!apiKey) throw new Error('Google AI API key not found');
+
+  async function generate(parts: unknown[], options: Partial<LLMRequestOptions>, responseMimeType: string) {
+    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        contents: [{ parts }],
+        generationConfig: {
+          temperature: options.temperature ?? 0.1,
+          maxOutputTokens: options.maxOutputTokens ?? 8192,
+          responseMimeType,
+        }
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`Gemini ${options.task} error:`, errorText);
+      throw new LLMError(`Gemini API failed: ${response.status} - ${errorText}`, 'gemini', response.status);
+    }
+
+    const data = await response.json();
+    const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (!text) {
+      if (data.promptFeedback?.blockReason) {
+        throw new LLMError(`Request blocked by safety settings: ${data.promptFeedback.blockReason}`, 'gemini');
+      }
+      console.error('Unexpected Gemini response structure:', JSON.stringify(data));
+      throw new LLMError('Invalid response from Gemini API', 'gemini');
+    }
+    return text as string;
+  }
+
+  return {
+    name: 'gemini',
+    model,
+    complete: (prompt, options) => generate([{ text: prompt }], options, 'text/plain'),
+    async completeJSON<T>(prompt: string, options: LLMRequestOptions) {
+      const text = await generate([{ text: prompt }], options, 'application/json');
+      return parseJSONResponse<T>(text, 'gemini');
+    },
+    async extractText(file, options = {}) {
+      const data = encodeBase64(new Uint8Array(await file.arrayBuffer()));
+      return generate(
+        [{ text: EXTRACTION_PROMPT }, { inline_data: { mime_type: file.type, data } }],
+        { task: 'extract-text', temperature: 0.0, ...options },
+        'text/plain',
+      );
+    },
+  };
+}
@@ -0,0 +1,35 @@
+import { createFixtureProvider } from './fixture.ts';
+import { createGeminiProvider } from './gemini.ts';
+import { createOpenAIProvider } from './openai.ts';
+import { LLMProvider } from './types.ts';
+
+export { LLMError } from './types.ts';
+export type { LLMProvider, LLMRequestOptions, LLMTask } from './types.ts';
+
+let cachedProvider: LLMProvider | null = null;
+
+// LLM_PROVIDER: 'gemini' (default) | 'openai' | 'fixture'
+// LLM_MODEL optionally overrides the provider's default model.
+export function getLLMProvider(): LLMProvider {
+  if (cachedProvider) return cachedProvider;
+
+  const providerName = (Deno.env.get('LLM_PROVIDER') || 'gemini').toLowerCase();
+  const model = Deno.env.get('LLM_MODEL') || undefined;
+
+  switch (providerName) {
+    case 'gemini':
+      cachedProvider = createGeminiProvider(model);
+      break;
+    case 'openai':
+      cachedProvider = createOpenAIProvider(model);
+      break;
+    case 'fixture':
+      cachedProvider = createFixtureProvider();
+      break;
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${providerName}"`);
+  }
+
+  console.log(`Using LLM provider ${cachedProvider.name} (${cachedProvider.model})`);
+  return cachedProvider;
+}
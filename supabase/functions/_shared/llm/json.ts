@@ -0,0 +1,31 @@
+import { LLMError } from './types.ts';
+
+// Models sometimes wrap JSON in markdown fences even when JSON output is requested
+export function stripCodeFences(text: string) {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('```json')) {
+    return trimmed.replace(/^```json\s*/, '').replace(/\s*```$/, '');
+  }
+  if (trimmed.startsWith('```')) {
+    return trimmed.replace(/^```\s*/, '').replace(/\s*```$/, '');
+  }
+  return trimmed;
+}
+
+export function parseJSONResponse<T>(text: string, provider: string): T {
+  const cleaned = stripCodeFences(text);
+  try {
+    return JSON.parse(cleaned) as T;
+  } catch {
+    // Fall back to the outermost object in case the model added prose around it
+    const objectMatch = cleaned.match(/\{[\s\S]*\}/);
+    if (objectMatch) {
+      try {
+        return JSON.parse(objectMatch[0]) as T;
+      } catch {
+        // handled below
+      }
+    }
+    throw new LLMError(`Response from ${provider} is not valid JSON`, provider);
+  }
+}
@@ -0,0 +1,67 @@
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { parseJSONResponse } from './json.ts';
+import { EXTRACTION_PROMPT, LLMError, LLMProvider, LLMRequestOptions } from './types.ts';
+
+// Works with api.openai.com and any server exposing the same /chat/completions API
+// (Azure OpenAI proxies, vLLM, Ollama, LM Studio, ...)
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+export function createOpenAIProvider(model = DEFAULT_MODEL): LLMProvider {
+  const apiKey = Deno.env.get('OPENAI_API_KEY');
+  const baseUrl = (Deno.env.get('OPENAI_BASE_URL') || DEFAULT_BASE_URL).replace(/\/$/, '');
+  // Self-hosted compatible servers often run without auth
+  if (!apiKey && baseUrl === DEFAULT_BASE_URL) throw new Error('OpenAI API key not found');
+
+  async function chat(content: unknown, options: Partial<LLMRequestOptions>, json: boolean) {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content }],
+        temperature: options.temperature ?? 0.1,
+        max_tokens: options.maxOutputTokens ?? 8192,
+        ...(json ? { response_format: { type: 'json_object' } } : {}),
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`OpenAI-compatible ${options.task} error:`, errorText);
+      throw new LLMError(`OpenAI-compatible API failed: ${response.status} - ${errorText}`, 'openai', response.status);
+    }
+
+    const data = await response.json();
+    const text = data.choices?.[0]?.message?.content;
+    if (!text) {
+      console.error('Unexpected OpenAI-compatible response structure:', JSON.stringify(data));
+      throw new LLMError('Invalid response from OpenAI-compatible API', 'openai');
+    }
+    return text as string;
+  }
+
+  return {
+    name: 'openai',
+    model,
+    complete: (prompt, options) => chat(prompt, options, false),
+    async completeJSON<T>(prompt: string, options: LLMRequestOptions) {
+      const text = await chat(prompt, options, true);
+      return parseJSONResponse<T>(text, 'openai');
+    },
+    async extractText(file, options = {}) {
+      const dataUrl = `data:${file.type};base64,${encodeBase64(new Uint8Array(await file.arrayBuffer()))}`;
+      const filePart = file.type.startsWith('image/')
+        ? { type: 'image_url', image_url: { url: dataUrl } }
+        : { type: 'file', file: { filename: 'resume', file_data: dataUrl } };
+      return chat(
+        [{ type: 'text', text: EXTRACTION_PROMPT }, filePart],
+        { task: 'extract-text', temperature: 0.0, ...options },
+        false,
+      );
+    },
+  };
+}
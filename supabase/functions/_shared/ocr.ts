@@ -0,0 +1,172 @@
+import { createOCREngine, supportsFastBuild } from 'https://esm.sh/tesseract-wasm@0.11.0';
+import type { OCREngine } from 'https://esm.sh/tesseract-wasm@0.11.0';
+import { decode, Image } from 'https://deno.land/x/imagescript@1.3.0/mod.ts';
+
+// Local OCR for scans and photos, so resumes without a text layer no longer depend on the
+// multimodal LLM. Tesseract runs as WASM inside the function; the engine and the English
+// model are fetched once per isolate (OCR_WASM_URL / OCR_MODEL_URL point them at a
+// self-hosted copy).
+
+// Both assets are pinned: the WASM build must match the tesseract-wasm import above, and a
+// moving model would change OCR output (and confidences) without a deploy
+const TESSERACT_VERSION = '0.11.0';
+const TESSDATA_VERSION = '4.1.0';
+const DEFAULT_WASM_URL = (fast: boolean) =>
+  `https://cdn.jsdelivr.net/npm/tesseract-wasm@${TESSERACT_VERSION}/dist/tesseract-core${fast ? '' : '-fallback'}.wasm`;
+const DEFAULT_MODEL_URL = `https://cdn.jsdelivr.net/gh/tesseract-ocr/tessdata_fast@${TESSDATA_VERSION}/eng.traineddata`;
+
+// Phone photos are 12MP+; Tesseract gains nothing above ~300dpi for a letter page
+const MAX_OCR_DIMENSION = 3000;
+// Skew search range and step in degrees, run on a small copy of the page
+const MAX_SKEW_DEGREES = 8;
+const SKEW_STEP_DEGREES = 0.5;
+const SKEW_SAMPLE_DIMENSION = 800;
+
+export interface RGBAImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface OCRResult {
+  text: string;
+  confidence: number; // 0..1, word confidences weighted by word length
+  rotation: number; // quarter turns undone before recognition, in degrees
+  skew: number; // fine rotation applied to straighten the page, in degrees
+}
+
+let enginePromise: Promise<OCREngine> | null = null;
+
+async function fetchBinary(url: string) {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to fetch ${url}: ${response.status}`);
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+function getEngine(): Promise<OCREngine> {
+  if (!enginePromise) {
+    enginePromise = (async () => {
+      const fast = supportsFastBuild();
+      const [wasmBinary, model] = await Promise.all([
+        fetchBinary(Deno.env.get('OCR_WASM_URL') || DEFAULT_WASM_URL(fast)),
+        fetchBinary(Deno.env.get('OCR_MODEL_URL') || DEFAULT_MODEL_URL),
+      ]);
+      const engine = await createOCREngine({ wasmBinary });
+      engine.loadModel(model);
+      return engine;
+    })();
+    // A failed download should not poison every later request in this isolate
+    enginePromise.catch(() => { enginePromise = null; });
+  }
+  return enginePromise;
+}
+
+function toImage({ data, width, height }: RGBAImage) {
+  const image = new Image(width, height);
+  image.bitmap.set(data);
+  return image;
+}
+
+// Tesseract copies the pixel buffer as 32-bit words, so it must not be a view into a larger one
+const toImageData = (image: Image): RGBAImage => ({
+  data: new Uint8ClampedArray(image.bitmap),
+  width: image.width,
+  height: image.height,
+});
+
+function downscale(image: Image, maxDimension: number) {
+  const scale = maxDimension / Math.max(image.width, image.height);
+  if (scale >= 1) return image;
+  return image.resize(Math.round(image.width * scale), Math.round(image.height * scale));
+}
+
+// Rotation leaves transparent (black to Tesseract) corners; put the page back on white
+function rotateOnWhite(image: Image, degrees: number) {
+  const rotated = image.rotate(degrees);
+  return new Image(rotated.width, rotated.height).fill(0xffffffff).composite(rotated);
+}
+
+// Projection-profile skew estimate: text lines are straightest where the dark pixels
+// pile up in the fewest rows, i.e. where the variance of the row histogram peaks.
+// Returns the rotation, in degrees, that straightens the page.
+export function estimateSkew(image: RGBAImage): number {
+  const scale = Math.min(1, SKEW_SAMPLE_DIMENSION / Math.max(image.width, image.height));
+  const step = Math.max(1, Math.round(1 / scale));
+
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let y = 0; y < image.height; y += step) {
+    for (let x = 0; x < image.width; x += step) {
+      const offset = (y * image.width + x) * 4;
+      const luminance = 0.299 * image.data[offset] + 0.587 * image.data[offset + 1] + 0.114 * image.data[offset + 2];
+      if (luminance < 128) {
+        xs.push(x / step);
+        ys.push(y / step);
+      }
+    }
+  }
+  if (xs.length < 100) return 0;
+
+  const rows = Math.ceil(Math.hypot(image.width, image.height) / step) + 1;
+  let bestAngle = 0;
+  let bestScore = -1;
+  for (let angle = -MAX_SKEW_DEGREES; angle <= MAX_SKEW_DEGREES; angle += SKEW_STEP_DEGREES) {
+    const radians = (angle * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const histogram = new Float64Array(rows * 2);
+    for (let i = 0; i < xs.length; i++) {
+      histogram[Math.round(ys[i] * cos - xs[i] * sin) + rows]++;
+    }
+    const score = histogram.reduce((sum, count) => sum + count * count, 0);
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+  return bestAngle;
+}
+
+function recognize(engine: OCREngine, image: Image) {
+  engine.loadImage(toImageData(image));
+  const words = engine.getTextBoxes('word');
+  const text = engine.getText();
+
+  const totalLength = words.reduce((sum, word) => sum + word.text.length, 0);
+  const confidence = totalLength > 0
+    ? words.reduce((sum, word) => sum + word.confidence * word.text.length, 0) / totalLength
+    : 0;
+  return { text, confidence };
+}
+
+// Straightens the page (quarter turns from Tesseract's orientation detection, then
+// fine skew) and recognises it
+export async function ocrImage(source: RGBAImage): Promise<OCRResult> {
+  const engine = await getEngine();
+  let image = downscale(toImage(source), MAX_OCR_DIMENSION);
+
+  // The detector reports how far the page is turned clockwise; turn it back
+  engine.loadImage(toImageData(image));
+  const orientation = engine.getOrientation();
+  const rotation = orientation.confidence > 0 ? orientation.rotation % 360 : 0;
+  if (rotation !== 0) image = rotateOnWhite(image, -rotation);
+
+  const skew = estimateSkew(toImageData(image));
+  if (skew !== 0) image = rotateOnWhite(image, skew);
+
+  const { text, confidence } = recognize(engine, image);
+  engine.clearImage();
+  return { text, confidence, rotation, skew };
+}
+
+// PNG, JPEG, TIFF and GIF (first frame); other formats return null
+export async function decodeImage(bytes: Uint8Array): Promise<RGBAImage | null> {
+  try {
+    const image = await decode(bytes, true);
+    if (!(image instanceof Image)) return null;
+    return { data: image.bitmap, width: image.width, height: image.height };
+  } catch (error) {
+    console.error('Could not decode image for OCR:', error.message);
+    return null;
+  }
+}
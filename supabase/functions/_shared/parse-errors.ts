@@ -0,0 +1,38 @@
+import { FileRejection } from './file-sniffing.ts';
+import { LLMError } from './llm/index.ts';
+
+// Failure categories stored on resumes.parsing_error_code, so the app can explain a
+// failed parse instead of just saying "failed"
+export type ParseErrorCode =
+  | 'unsupported_file'
+  | 'extraction_empty'
+  | 'ai_quota'
+  | 'ai_invalid_json'
+  | 'storage_error'
+  | 'unknown';
+
+export class ParseError extends Error {
+  constructor(readonly code: ParseErrorCode, message: string) {
+    super(message);
+    this.name = 'ParseError';
+  }
+}
+
+// The stored file failed content validation; retrying will not help
+export class FileRejectedError extends ParseError {
+  constructor(readonly rejection: FileRejection) {
+    super('unsupported_file', rejection.message);
+    this.name = 'FileRejectedError';
+  }
+}
+
+export function classifyParseError(error: unknown): { code: ParseErrorCode; message: string } {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof ParseError) return { code: error.code, message };
+  if (error instanceof LLMError) {
+    if (error.isRateLimited || error.status === 403) return { code: 'ai_quota', message };
+    if (message.includes('not valid JSON')) return { code: 'ai_invalid_json', message };
+  }
+  return { code: 'unknown', message };
+}
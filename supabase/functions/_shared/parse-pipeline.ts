@@ -0,0 +1,556 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { Candidate, normalizeCandidate, toParsedDetailsColumns } from './candidate-schema.ts';
+import { delimitUntrusted, screenResumeText } from './content-safety.ts';
+import { coerceCustomFields, CustomFieldDefinition, customFieldsPrompt, CustomFieldValues } from './custom-fields.ts';
+import { countPdfPages, extractResumeText, ExtractionResult } from './extraction.ts';
+import {
+  buildFieldConfidence,
+  capFieldConfidence,
+  CONFIDENCE_FIELDS,
+  FieldConfidenceMap,
+  reviewStatusFor,
+} from './field-confidence.ts';
+import { inspectFile, MAX_PDF_PAGES } from './file-sniffing.ts';
+import { classifyParseError, FileRejectedError, ParseError } from './parse-errors.ts';
+import { getLLMProvider, LLMError } from './llm/index.ts';
+import type { LLMProvider } from './llm/index.ts';
+import { chunkText, detectSections, SectionKind } from './resume-sections.ts';
+import { createSkillTaxonomy, SkillTaxonomy } from './skill-taxonomy.ts';
+import { attributeRoleSkills } from './skill-experience.ts';
+
+// The resume parsing pipeline run by the parse-worker queue consumer on jobs queued through parse-resume:
+// download -> extract text -> screen for hidden text and injected instructions -> AI parse with the workspace's custom fields (per section for long resumes, regex fallback) -> validate against the candidate schema and custom field types -> canonicalize skills and attribute them to roles -> store.
+// Callers own the resumes.parsing_status / parse_jobs bookkeeping; failures worth explaining to
+// the user are thrown as ParseError (see parse-errors.ts).
+
+export type ParseStage = 'extracting' | 'parsing';
+
+// Bump whenever the parsing prompt changes, so stored parse versions stay comparable
+export const PARSE_PROMPT_VERSION = '2026-10-19.7';
+
+export interface ParseResumeOptions {
+  onStage?: (stage: ParseStage) => Promise<void>;
+}
+
+// Magic bytes, macros, encryption and size limits, then the page limit for PDFs
+async function validateStoredFile(bytes: Uint8Array, fileName: string) {
+  const { type, rejection } = inspectFile(bytes, fileName);
+  if (rejection) throw new FileRejectedError(rejection);
+
+  if (type === 'pdf') {
+    let pages: number | null = null;
+    try {
+      pages = await countPdfPages(bytes);
+    } catch (error) {
+      // Broken PDFs are left to the extractor, which already handles them
+      console.error(`Could not count PDF pages: ${error.message}`);
+    }
+    if (pages !== null && pages > MAX_PDF_PAGES) {
+      throw new FileRejectedError({
+        code: 'too_many_pages',
+        message: `The PDF has ${pages} pages; resumes are limited to ${MAX_PDF_PAGES}.`,
+      });
+    }
+  }
+}
+
+async function loadWorkspaceId(serviceClient: SupabaseClient, userId: string): Promise<string | null> {
+  const { data: workspaceId } = await serviceClient.rpc('user_workspace_id', { p_user_id: userId });
+  return workspaceId ?? null;
+}
+
+// The bundled taxonomy plus the aliases of the resume owner's workspace
+async function loadSkillTaxonomy(serviceClient: SupabaseClient, workspaceId: string | null): Promise<SkillTaxonomy> {
+  if (!workspaceId) return createSkillTaxonomy();
+
+  const { data, error } = await serviceClient
+    .from('skill_aliases')
+    .select('alias, canonical_name, category, parent_name')
+    .eq('workspace_id', workspaceId);
+  // Custom aliases are a refinement; parse with the bundled taxonomy rather than fail
+  if (error) console.error(`Could not load skill aliases: ${error.message}`);
+  return createSkillTaxonomy(data ?? []);
+}
+
+async function loadCustomFields(serviceClient: SupabaseClient, workspaceId: string | null): Promise<CustomFieldDefinition[]> {
+  if (!workspaceId) return [];
+
+  const { data, error } = await serviceClient
+    .from('custom_field_definitions')
+    .select('key, name, field_type, description, allowed_values')
+    .eq('workspace_id', workspaceId)
+    .order('created_at', { ascending: true });
+  // Custom fields are extras; parse the standard schema rather than fail
+  if (error) console.error(`Could not load custom field definitions: ${error.message}`);
+  return data ?? [];
+}
+
+interface ParsedCandidate {
+  candidate: Candidate;
+  fieldConfidence: FieldConfidenceMap;
+  provider: string; // LLM provider name, or 'regex' for the fallback
+  model: string | null;
+  warnings: string[]; // content that was dropped along the way
+  customFields: CustomFieldValues;
+}
+
+// Clean text for database storage
+function cleanTextForDatabase(text: string) {
+  if (!text) return '';
+  return text
+    .replace(/[\x00-\x1F\x7F-\x9F]/g, ' ') // Remove non-printable characters
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Keeps line breaks, which section detection and the model both rely on
+function cleanTextForParsing(text: string) {
+  if (!text) return '';
+  return text
+    .replace(/(?!\n)\p{Cc}/gu, ' ') // Remove non-printable characters except newlines
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*\n\s*\n+/g, '\n\n')
+    .trim();
+}
+
+type CandidateField = keyof Candidate;
+
+const FIELD_SCHEMAS: Record<CandidateField, string> = {
+  full_name: '"full_name": "string"',
+  email: '"email": "string"',
+  phone: '"phone": "string"',
+  location: '"location": "string"',
+  skills: '"skills": ["string"]',
+  experience: '"experience": [{"title": "string", "company": "string", "location": "string", "start_date": "YYYY-MM", "end_date": "YYYY-MM", "duration": "string", "description": "string", "skills": ["string"]}]',
+  education: '"education": [{"degree": "string", "field": "string", "institution": "string", "year": "string", "grade": "string"}]',
+  links: '"links": [{"type": "linkedin | github | portfolio | website | other", "url": "string"}]',
+  certifications: '"certifications": [{"name": "string", "issuer": "string", "year": "string"}]',
+  publications: '"publications": [{"title": "string", "authors": "string", "venue": "string", "year": "string"}]',
+  skill_levels: '"skill_levels": [{"skill": "string", "level": "beginner | intermediate | advanced | expert"}]',
+  projects: '"projects": [{"name": "string", "description": "string", "url": "string", "technologies": ["string"], "year": "string"}]',
+  languages: '"languages": [{"language": "string", "proficiency": "string"}]',
+};
+
+const ALL_FIELDS = Object.keys(FIELD_SCHEMAS) as CandidateField[];
+
+const LIST_LABELS: Partial<Record<CandidateField, string>> = {
+  skills: 'skills',
+  experience: 'experience entries',
+  education: 'education entries',
+  links: 'links',
+  certifications: 'certifications',
+  publications: 'publications',
+  skill_levels: 'skill levels',
+  projects: 'projects',
+  languages: 'languages',
+};
+
+// Above this the single structured answer risks running into the output token cap,
+// so the resume is parsed section by section instead
+const SINGLE_PASS_MAX_CHARS = 40000;
+const SECTION_CHUNK_CHARS = 15000;
+const MAX_TEXT_LENGTH = 200000; // Generous limit for long-context models
+const PASS_CONCURRENCY = 3;
+
+// Which fields each section's pass extracts. Unrecognised sections (summary, projects,
+// awards...) are parsed together with the contact block.
+const SECTION_FIELDS: Record<Exclude<SectionKind, 'other'>, CandidateField[]> = {
+  contact: ['full_name', 'email', 'phone', 'location', 'links', 'skills', 'skill_levels', 'certifications', 'languages'],
+  experience: ['experience'],
+  education: ['education', 'certifications'],
+  skills: ['skills', 'skill_levels'],
+  publications: ['publications'],
+  projects: ['projects'],
+  languages: ['languages'],
+};
+
+const SECTION_NAMES: Record<keyof typeof SECTION_FIELDS, string> = {
+  contact: 'contact details and other sections',
+  experience: 'experience section',
+  education: 'education section',
+  skills: 'skills section',
+  publications: 'publications section',
+  projects: 'projects section',
+  languages: 'languages section',
+};
+
+function buildParsePrompt(fields: CandidateField[], text: string, subject: string, customFields: CustomFieldDefinition[]) {
+  const confidenceFields = fields.filter(field => (CONFIDENCE_FIELDS as readonly string[]).includes(field));
+  const custom = customFieldsPrompt(customFields);
+  const structure = [
+    ...fields.map(field => `  ${FIELD_SCHEMAS[field]}`),
+    ...(custom ? [`  ${custom.structure}`] : []),
+    `  "confidence": {${confidenceFields.map(field => `"${field}": 0.0`).join(', ')}}`,
+  ].join(',\n');
+  const resume = delimitUntrusted('resume text', text);
+
+  return `
+Extract information from this ${subject} and return ONLY a valid JSON object with this exact structure:
+{
+${structure}
+}
+
+Extraction Rules:
+- Extract information accurately from the text.
+- If a value isn't found, use null for strings and empty arrays [] for lists.
+- DO NOT invent or fabricate any information.
+- The resume text might be messy or from an OCR process; do your best to interpret it.
+- Extract every list entry you can find.
+- For "description" in experience, capture the key responsibilities and achievements.
+- For "duration" in experience, copy the dates exactly as written. For "start_date" and "end_date", give the month as YYYY-MM, or just YYYY when the resume only gives the year; use null for "end_date" only when the role is current ("Present").
+- For "skills" in experience, list the skills, tools and technologies the description shows were used in that role.
+- For "skill_levels", include only proficiency the resume states for a skill ("Python (expert)", "Excel – advanced"); never estimate it. Spoken languages go in "languages" instead.
+- For "projects", include personal, academic and open-source projects that are not jobs, with the technologies used.
+- For "languages", list spoken languages only, not programming languages, with the proficiency as written ("Native", "Fluent", "B2").
+- For "links", include profile and portfolio URLs exactly as written (LinkedIn, GitHub, personal sites).
+${custom ? `- ${custom.rules}\n` : ''}- For "confidence", rate from 0.0 to 1.0 how sure you are that each field was read correctly. Use 1.0 only when the value is stated explicitly and unambiguously; lower it for garbled text, guesses from context or partially extracted lists.
+- ${resume.instructions}
+
+Resume text to parse:
+${resume.block}
+`;
+}
+
+interface ParsePass {
+  subject: string; // what the text is, e.g. "publications section (part 2 of 3) of a resume"
+  fields: CandidateField[];
+  text: string;
+  customFields: boolean; // whether the workspace's custom fields are asked for
+}
+
+type RawParse = Partial<Record<CandidateField, unknown>> & {
+  confidence?: Record<string, unknown>;
+  custom_fields?: unknown;
+};
+
+// One call per pass; the long-resume path runs several. Sections are split into
+// chunks so that no single answer has to carry more than a chunk's worth of entries.
+function planPasses(text: string): ParsePass[] {
+  if (text.length <= SINGLE_PASS_MAX_CHARS) {
+    return [{ subject: 'resume text', fields: ALL_FIELDS, text, customFields: true }];
+  }
+
+  const grouped = new Map<keyof typeof SECTION_FIELDS, string[]>();
+  for (const section of detectSections(text)) {
+    const kind = section.kind === 'other' ? 'contact' : section.kind;
+    grouped.set(kind, [...(grouped.get(kind) ?? []), [section.heading, section.text].filter(Boolean).join('\n')]);
+  }
+
+  // Without recognisable headings the whole text is chunked and fully parsed per chunk
+  const groups: [string | null, CandidateField[], string][] = grouped.size > 1
+    ? [...grouped].map(([kind, texts]) => [SECTION_NAMES[kind], SECTION_FIELDS[kind], texts.join('\n\n')])
+    : [[null, ALL_FIELDS, text]];
+
+  return groups.flatMap(([name, fields, groupText]) => {
+    const chunks = chunkText(groupText, SECTION_CHUNK_CHARS);
+    return chunks.map((chunk, index) => {
+      const part = chunks.length > 1 ? `part ${index + 1} of ${chunks.length}` : null;
+      const subject = name
+        ? `${name}${part ? ` (${part})` : ''} of a resume`
+        : `${part ?? 'text'} of a resume`;
+      // Custom fields are asked for with the contact block and summary, or everywhere when unsectioned
+      return { subject, fields, text: chunk, customFields: fields.includes('full_name') };
+    });
+  });
+}
+
+// Scalars come from the first pass that found them (the contact block is planned first);
+// lists are concatenated and de-duplicated
+function mergePasses(results: { pass: ParsePass; parsed: RawParse }[]): RawParse {
+  const merged: RawParse = {};
+  const confidence: Record<string, number> = {};
+  const customFields: Record<string, unknown> = {};
+
+  for (const { pass, parsed } of results) {
+    for (const field of pass.fields) {
+      const value = parsed?.[field];
+      if (Array.isArray(value)) {
+        const existing = (merged[field] as unknown[] | undefined) ?? [];
+        const seen = new Set(existing.map(entry => JSON.stringify(entry).toLowerCase()));
+        merged[field] = [...existing, ...value.filter(entry => !seen.has(JSON.stringify(entry).toLowerCase()))];
+      } else if (merged[field] == null && value != null) {
+        merged[field] = value;
+      }
+
+      // A field is only as reliable as the least certain pass that contributed to it
+      const score = parsed?.confidence?.[field];
+      if (typeof score === 'number' && value != null && (!Array.isArray(value) || value.length > 0)) {
+        confidence[field] = Math.min(confidence[field] ?? 1, score);
+      }
+    }
+
+    // Custom fields, like scalars, come from the first pass that found them
+    const custom = parsed?.custom_fields;
+    if (pass.customFields && custom && typeof custom === 'object' && !Array.isArray(custom)) {
+      for (const [key, value] of Object.entries(custom)) {
+        if (customFields[key] == null && value != null) customFields[key] = value;
+      }
+    }
+  }
+
+  return { ...merged, confidence, custom_fields: customFields };
+}
+
+async function runPasses(passes: ParsePass[], llm: LLMProvider, customFields: CustomFieldDefinition[]) {
+  const results: { pass: ParsePass; parsed: RawParse }[] = [];
+  const failures: { pass: ParsePass; error: Error }[] = [];
+
+  for (let start = 0; start < passes.length; start += PASS_CONCURRENCY) {
+    const batch = passes.slice(start, start + PASS_CONCURRENCY);
+    const settled = await Promise.allSettled(batch.map(pass =>
+      llm.completeJSON<RawParse>(
+        buildParsePrompt(pass.fields, pass.text, pass.subject, pass.customFields ? customFields : []),
+        { task: 'parse-resume', temperature: 0.1, maxOutputTokens: 8192 },
+      )
+    ));
+    settled.forEach((outcome, index) => {
+      if (outcome.status === 'fulfilled') {
+        results.push({ pass: batch[index], parsed: outcome.value });
+      } else {
+        failures.push({ pass: batch[index], error: outcome.reason });
+      }
+    });
+  }
+
+  return { results, failures };
+}
+
+// Lists longer than the schema allows are cut by normalizeCandidate; say so
+function truncationWarnings(raw: RawParse, candidate: Candidate): string[] {
+  return Object.entries(LIST_LABELS).flatMap(([field, label]) => {
+    const found = Array.isArray(raw[field as CandidateField]) ? (raw[field as CandidateField] as unknown[]).length : 0;
+    const kept = (candidate[field as CandidateField] as unknown[]).length;
+    return found > kept && kept > 0 ? [`Kept ${kept} of ${found} ${label}; the rest were dropped`] : [];
+  });
+}
+
+// AI resume parsing. Short resumes are parsed in one call; long ones (academic CVs with
+// pages of publications) section by section, merged into one record.
+async function parseResumeWithAI(text: string, customFields: CustomFieldDefinition[]): Promise<ParsedCandidate> {
+  if (!text || text.length < 20) {
+    throw new Error('Insufficient text for AI parsing');
+  }
+
+  const warnings: string[] = [];
+  const truncatedText = text.substring(0, MAX_TEXT_LENGTH);
+  if (text.length > MAX_TEXT_LENGTH) {
+    warnings.push(`Only the first ${MAX_TEXT_LENGTH.toLocaleString('en-US')} of ${text.length.toLocaleString('en-US')} characters were parsed`);
+  }
+
+  const passes = planPasses(truncatedText);
+  console.log(`Parsing text of length ${truncatedText.length} in ${passes.length} pass(es)`);
+
+  try {
+    const llm = getLLMProvider();
+    console.log(`Sending parsing request to ${llm.name}...`);
+    const { results, failures } = await runPasses(passes, llm, customFields);
+
+    // Transient provider failures must surface so the job queue can retry the whole parse
+    const transient = failures.find(({ error }) => error instanceof LLMError && error.isTransient);
+    if (transient) throw transient.error;
+    if (results.length === 0) throw failures[0].error;
+
+    for (const { pass, error } of failures) {
+      console.error(`Parsing the ${pass.subject} failed:`, error.message);
+      warnings.push(`Could not parse the ${pass.subject}; its content is missing`);
+    }
+    console.log('Successfully parsed AI result.');
+
+    const raw = passes.length === 1 ? results[0].parsed : mergePasses(results);
+    const candidate = normalizeCandidate(raw);
+    return {
+      candidate,
+      fieldConfidence: buildFieldConfidence(candidate, 'ai', raw?.confidence),
+      provider: llm.name,
+      model: llm.model,
+      warnings: [...warnings, ...truncationWarnings(raw, candidate)],
+      customFields: coerceCustomFields(raw?.custom_fields, customFields),
+    };
+    
+  } catch (error) {
+    console.error('AI parsing failed:', error.message);
+    throw error;
+  }
+}
+
+// Enhanced regex-based extraction as fallback
+function extractBasicInfoWithRegex(text: string): ParsedCandidate {
+  console.log('Using regex fallback extraction...');
+  const emailMatch = text.match(/\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/);
+  const phoneMatch = text.match(/(?:\+?\d{1,3}[-.\s]?)?\(?\d{3}\)?[-.\s]?\d{3}[-.\s]?\d{4}/);
+  
+  const lines = text.split(/[\n\r]+/).filter(line => line.trim().length > 2);
+  let name = null;
+  if (lines.length > 0) {
+    const firstLine = lines[0].trim();
+    if (firstLine.length > 3 && firstLine.length < 50 && /^[A-Z][a-zA-Z\s.'-]+$/.test(firstLine)) {
+        name = firstLine;
+    }
+  }
+
+  const candidate = normalizeCandidate({
+    full_name: name,
+    email: emailMatch ? emailMatch[0] : null,
+    phone: phoneMatch ? phoneMatch[0] : null,
+  });
+  return {
+    candidate,
+    fieldConfidence: buildFieldConfidence(candidate, 'regex'),
+    provider: 'regex',
+    model: null,
+    warnings: [],
+    customFields: {},
+  };
+}
+
+export async function parseResume(
+  serviceClient: SupabaseClient,
+  resumeId: string,
+  filePath: string,
+  options: ParseResumeOptions = {},
+) {
+  await options.onStage?.('extracting');
+
+  const { data: resumeData, error: resumeError } = await serviceClient
+    .from('resumes')
+    .select('user_id, file_name')
+    .eq('id', resumeId)
+    .single();
+  if (resumeError || !resumeData) throw new Error(`Resume with ID ${resumeId} not found: ${resumeError?.message}`);
+
+  const { data: fileData, error: downloadError } = await serviceClient.storage
+    .from('resumes')
+    .download(filePath);
+  if (downloadError) throw new ParseError('storage_error', `Failed to download file: ${downloadError.message}`);
+
+  console.log(`File downloaded successfully: ${filePath}, type: ${fileData.type}, size: ${fileData.size}`);
+
+  // Step 0: Never hand unvalidated bytes to the extractors or the LLM
+  await validateStoredFile(new Uint8Array(await fileData.arrayBuffer()), resumeData.file_name || filePath);
+
+  // Step 1: Extract text locally, escalating to AI only for scans/images
+  let extraction: ExtractionResult | null = null;
+  let extractionFailure: string | null = null;
+  try {
+    extraction = await extractResumeText(fileData, filePath);
+    console.log(`Text extracted with ${extraction.extractor} extractor`, extraction.warnings);
+  } catch (extractionError) {
+    // Transient provider failures (429/5xx) must surface so the job queue can retry
+    if (extractionError instanceof LLMError && extractionError.isTransient) throw extractionError;
+    console.error(`Text extraction failed: ${extractionError.message}. The file might be corrupted or unsupported.`);
+    extractionFailure = extractionError.message;
+  }
+  
+  // Hidden text never reaches the model or the stored text; injected instructions are cut out
+  const screened = screenResumeText(extraction?.text ?? '', extraction?.hiddenText ?? []);
+  if (screened.flags.length > 0) {
+    console.warn(`Resume ${resumeId} has ${screened.flags.length} security flag(s):`, screened.flags.map(flag => flag.type));
+  }
+  const cleanText = cleanTextForDatabase(screened.text);
+  const parseText = cleanTextForParsing(screened.text);
+  console.log(`Text extracted and cleaned, final length: ${cleanText.length} characters`);
+  if (!cleanText) {
+    throw new ParseError(
+      'extraction_empty',
+      extractionFailure ? `No text could be extracted: ${extractionFailure}` : 'The file contains no readable text',
+    );
+  }
+
+  // The owner's workspace adds custom fields to the prompt and skill aliases to the taxonomy
+  const workspaceId = await loadWorkspaceId(serviceClient, resumeData.user_id);
+  const [customFields, taxonomy] = await Promise.all([
+    loadCustomFields(serviceClient, workspaceId),
+    loadSkillTaxonomy(serviceClient, workspaceId),
+  ]);
+
+  let parsedContent: ParsedCandidate;
+
+  // Step 2: Parse the extracted text with AI
+  await options.onStage?.('parsing');
+  if (cleanText.length > 30) {
+    console.log(`Attempting AI parsing for resume ${resumeId}...`);
+    try {
+      parsedContent = await parseResumeWithAI(parseText, customFields);
+      console.log(`AI parsing successful for resume ${resumeId}`);
+    } catch (aiError) {
+      if (aiError instanceof LLMError && aiError.isTransient) throw aiError;
+      console.error(`AI parsing failed: ${aiError.message}. Falling back to regex.`);
+      parsedContent = extractBasicInfoWithRegex(parseText);
+      parsedContent.warnings.push('AI parsing failed; only contact details were extracted');
+      // A fallback that found no name or email is not worth storing
+      const { code } = classifyParseError(aiError);
+      if (code === 'ai_invalid_json' && !parsedContent.candidate.full_name && !parsedContent.candidate.email) {
+        throw new ParseError(code, aiError.message);
+      }
+    }
+  } else {
+    console.log(`Text too short for AI parsing, using regex extraction.`);
+    parsedContent = extractBasicInfoWithRegex(parseText);
+  }
+
+  // "JS", "Javascript" and "javascript (ES6)" are stored as one canonical skill, and each
+  // role records the skills used in it so years per skill can be derived
+  const { skills, experience } = parsedContent.candidate;
+  parsedContent.candidate = {
+    ...parsedContent.candidate,
+    skills: taxonomy.canonicalize(skills),
+    experience: experience.map(entry => ({ ...entry, skills: attributeRoleSkills(entry, skills, taxonomy) })),
+  };
+
+  const ocrConfidence = extraction?.ocrConfidence ?? null;
+  const fieldConfidence = capFieldConfidence(parsedContent.fieldConfidence, ocrConfidence);
+  const finalData = {
+    resume_id: resumeId,
+    user_id: resumeData.user_id,
+    raw_text_content: cleanText,
+    extraction_method: extraction?.extractor ?? null,
+    ocr_confidence: ocrConfidence,
+    ...toParsedDetailsColumns(parsedContent.candidate),
+    field_confidence: fieldConfidence,
+    parse_warnings: parsedContent.warnings,
+    security_flags: screened.flags,
+    // Every defined field is stored, null when the resume does not say
+    custom_fields: coerceCustomFields(parsedContent.customFields, customFields),
+    // Low-confidence and tampered-with parses stay out of search until a recruiter confirms them
+    review_status: screened.flags.length > 0 ? 'pending' : reviewStatusFor(parsedContent.candidate, fieldConfidence),
+    reviewed_at: null,
+    reviewed_by: null,
+  };
+
+  console.log('Final parsed content summary:', JSON.stringify({
+    name: finalData.full_name,
+    email: finalData.email,
+    phone: finalData.phone,
+    skills: finalData.skills_json.length,
+    experience: finalData.experience_json.length,
+    review: finalData.review_status,
+    ocr: ocrConfidence,
+    warnings: finalData.parse_warnings,
+    securityFlags: screened.flags.length
+  }, null, 2));
+
+  // Step 3: Store the result. Re-parsing replaces the current details (the revisions trigger keeps
+  // what it overwrote) and appends a new entry to the resume's parse history, in one transaction.
+  const { error: storeError } = await serviceClient.rpc('store_parse_result', {
+    p_details: finalData,
+    p_version: {
+      resume_id: resumeId,
+      user_id: resumeData.user_id,
+      provider: parsedContent.provider,
+      model: parsedContent.model,
+      prompt_version: PARSE_PROMPT_VERSION,
+      extraction_method: finalData.extraction_method,
+      ocr_confidence: ocrConfidence,
+      candidate: parsedContent.candidate,
+      field_confidence: fieldConfidence,
+    },
+  });
+  if (storeError) throw new Error(`Failed to store parsed details: ${storeError.message}`);
+
+  // Step 4: Attach the resume to its candidate (matched by email, or a new one)
+  const { error: linkError } = await serviceClient.rpc('link_resume_candidate', { target_resume_id: resumeId });
+  if (linkError) throw new Error(`Failed to link candidate: ${linkError.message}`);
+
+  console.log(`Successfully parsed and stored details for resume ${resumeId}`);
+  return { name: finalData.full_name, email: finalData.email };
+}
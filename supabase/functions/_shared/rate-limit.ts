@@ -0,0 +1,56 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+
+// Token-bucket limits kept in Postgres (see consume_rate_limit), so every isolate of every
+// function draws from the same per-user and per-workspace buckets. A new action only
+// needs rows in rate_limit_policies.
+
+export type RateLimitAction = 'parse_resume' | 'screening_questions';
+
+export class RateLimitError extends Error {
+  constructor(readonly scope: string, readonly retryAfterSeconds: number) {
+    super(
+      scope === 'workspace'
+        ? 'Your workspace has reached its usage limit. Please try again later.'
+        : scope === 'email'
+          ? 'Too many failed sign-in attempts.'
+          : 'Rate limit exceeded. Please try again later.'
+    );
+    this.name = 'RateLimitError';
+  }
+}
+
+// Spends `cost` tokens for the user and their workspace, or throws RateLimitError.
+// The service-role client is required: the RPC is not exposed to app users.
+export async function consumeRateLimit(
+  serviceClient: SupabaseClient,
+  action: RateLimitAction,
+  userId: string,
+  cost = 1
+): Promise<void> {
+  const { data, error } = await serviceClient.rpc('consume_rate_limit', {
+    p_action: action,
+    p_user_id: userId,
+    p_cost: cost,
+  });
+
+  // Fail open: an unavailable limiter should not take parsing down with it
+  if (error) {
+    console.error(`Rate limit check failed for ${action}:`, error.message);
+    return;
+  }
+
+  const result = Array.isArray(data) ? data[0] : data;
+  if (result && !result.allowed) {
+    throw new RateLimitError(result.limited_scope, Math.max(1, result.retry_after_seconds));
+  }
+}
+
+export function rateLimitResponse(error: RateLimitError, headers: Record<string, string>): Response {
+  return new Response(
+    JSON.stringify({ error: error.message, scope: error.scope, retryAfterSeconds: error.retryAfterSeconds }),
+    {
+      status: 429,
+      headers: { ...headers, 'Content-Type': 'application/json', 'Retry-After': String(error.retryAfterSeconds) },
+    }
+  );
+}
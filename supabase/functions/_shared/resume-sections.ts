@@ -0,0 +1,94 @@
+// Splits resume text into its sections by their headings, so long resumes can be parsed
+// one section at a time instead of in a single call whose JSON output gets cut off.
+// Works on the extracted text before whitespace is collapsed: headings are found per line.
+
+export type SectionKind = 'contact' | 'experience' | 'education' | 'skills' | 'publications' | 'projects' | 'languages' | 'other';
+
+export interface ResumeSection {
+  kind: SectionKind;
+  heading: string | null;
+  text: string;
+}
+
+const HEADING_PATTERNS: [SectionKind, RegExp][] = [
+  ['experience', /^(professional |work |employment |relevant |research |teaching )?(experience|history|employment|career)( history)?$/],
+  ['experience', /^(positions|appointments|academic appointments|professional positions)( held)?$/],
+  ['education', /^(education|academic background|qualifications|academic qualifications|degrees)( and training)?$/],
+  ['skills', /^((technical |core |key )?skills|competencies|core competencies|technologies|tools|expertise|technical proficiencies|programming languages)( and (tools|technologies|expertise))?$/],
+  ['publications', /^((selected |peer[- ]reviewed |refereed )?publications|papers|journal articles|conference papers|conference proceedings|bibliography|books and articles|patents and publications|publications and presentations)$/],
+  ['projects', /^((selected |personal |key |academic |side |open[- ]source )?projects|project experience|portfolio)$/],
+  ['languages', /^((spoken |foreign )?languages|language skills|language proficiency)$/],
+  // Known headings that feed none of the dedicated passes
+  ['other', /^(summary|profile|professional summary|objective|about me|awards|honou?rs|honou?rs and awards|awards and honou?rs|grants|funding|interests|hobbies|references|volunteer(ing)?|volunteer experience|presentations|talks|invited talks|memberships|professional memberships|service|certifications|licenses|courses|training|activities|leadership|teaching)$/],
+];
+
+// Headings are short lines, optionally numbered or followed by a colon
+const MAX_HEADING_LENGTH = 60;
+
+export function classifyHeading(line: string): SectionKind | null {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.length > MAX_HEADING_LENGTH) return null;
+
+  const normalized = trimmed
+    .replace(/^[\d.)\s•\-–—#*]+/, '')
+    .replace(/[:\s]+$/, '')
+    .replace(/\s*&\s*/g, ' and ')
+    .replace(/\s+/g, ' ')
+    .toLowerCase();
+
+  for (const [kind, pattern] of HEADING_PATTERNS) {
+    if (pattern.test(normalized)) return kind;
+  }
+  return null;
+}
+
+// Everything before the first heading is the contact block (name, email, links...).
+// Repeated headings of one kind ("Publications" ... "Selected Publications") each keep their text.
+export function detectSections(text: string): ResumeSection[] {
+  const sections: ResumeSection[] = [];
+  let current: ResumeSection = { kind: 'contact', heading: null, text: '' };
+  const lines: string[] = [];
+
+  const flush = () => {
+    current.text = lines.join('\n').trim();
+    if (current.text || current.heading) sections.push(current);
+    lines.length = 0;
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    const kind = classifyHeading(line);
+    if (kind) {
+      flush();
+      current = { kind, heading: line.trim(), text: '' };
+    } else {
+      lines.push(line);
+    }
+  }
+  flush();
+
+  return sections;
+}
+
+// Splits text into chunks of at most maxLength characters at line boundaries
+// (falling back to hard cuts for absurdly long lines), so list entries stay whole.
+export function chunkText(text: string, maxLength: number): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const line of text.split('\n')) {
+    if (current && current.length + line.length + 1 > maxLength) {
+      chunks.push(current);
+      current = '';
+    }
+    if (line.length > maxLength) {
+      for (let start = 0; start < line.length; start += maxLength) {
+        chunks.push(line.slice(start, start + maxLength));
+      }
+      continue;
+    }
+    current = current ? `${current}\n${line}` : line;
+  }
+  if (current.trim()) chunks.push(current);
+
+  return chunks;
+}
@@ -0,0 +1,110 @@
+// Years of use, recency and self-declared proficiency per skill, derived from the roles a
+// skill was used in. The parser attributes skills to experience entries; the profile itself
+// is derived when read, so tenure in a current role keeps growing without a re-parse.
+import { ExperienceDates, monthIndex, totalExperienceMonths } from './experience-dates.ts';
+import { SkillTaxonomy } from './skill-taxonomy.ts';
+
+export const PROFICIENCY_LEVELS = ['beginner', 'intermediate', 'advanced', 'expert'] as const;
+
+export type ProficiencyLevel = (typeof PROFICIENCY_LEVELS)[number];
+
+export const PROFICIENCY_LABELS: Record<ProficiencyLevel, string> = {
+  beginner: 'Beginner',
+  intermediate: 'Intermediate',
+  advanced: 'Advanced',
+  expert: 'Expert',
+};
+
+// Loose wording on resumes ("fluent", "proficient", "basic knowledge") mapped onto the levels
+const PROFICIENCY_WORDS: [RegExp, ProficiencyLevel][] = [
+  [/expert|master|native|guru/i, 'expert'],
+  [/advanced|proficient|fluent|strong|senior/i, 'advanced'],
+  [/intermediate|working|good|competent/i, 'intermediate'],
+  [/beginner|basic|novice|elementary|learning|familiar|exposure/i, 'beginner'],
+];
+
+export function parseProficiency(value: unknown): ProficiencyLevel | null {
+  if (typeof value !== 'string') return null;
+  const lower = value.trim().toLowerCase();
+  if ((PROFICIENCY_LEVELS as readonly string[]).includes(lower)) return lower as ProficiencyLevel;
+  return PROFICIENCY_WORDS.find(([pattern]) => pattern.test(lower))?.[1] ?? null;
+}
+
+interface RoleEntry extends ExperienceDates {
+  title?: string | null;
+  description?: string | null;
+  skills?: string[];
+}
+
+interface ProfileSource {
+  skills: string[];
+  experience: RoleEntry[];
+  skill_levels: { skill: string; level: ProficiencyLevel }[];
+}
+
+export interface SkillExperience {
+  name: string;
+  months: number; // across the roles using it, overlapping roles counted once
+  roles: number;
+  last_used: string | null; // YYYY-MM the skill was last used; null when never dated
+  current: boolean; // used in a role that is still ongoing
+  level: ProficiencyLevel | null; // as declared on the resume
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// One- and two-letter names ("Go", "R", "C") are also ordinary words; they count as a
+// mention only when written with their own capitalisation, or through a longer alias ("Golang")
+function isMention(skill: string, text: string) {
+  if (skill.length > 2) return true;
+  const word = `(^|[^A-Za-z])${escapeRegExp(skill)}([^A-Za-z]|$)`;
+  return new RegExp(word).test(text) || !new RegExp(word, 'i').test(text);
+}
+
+// Skills used in one role: the ones the parser attributed to it, plus skills the candidate
+// lists that the title or description mentions
+export function attributeRoleSkills(entry: RoleEntry, candidateSkills: string[], taxonomy: SkillTaxonomy): string[] {
+  const listed = new Set(taxonomy.canonicalize(candidateSkills));
+  const text = `${entry.title ?? ''}\n${entry.description ?? ''}`;
+  const mentioned = taxonomy
+    .findInText(text)
+    .filter(skill => listed.has(skill) && isMention(skill, text));
+  return taxonomy.canonicalize([...(entry.skills ?? []), ...mentioned]);
+}
+
+export function buildSkillProfile(candidate: ProfileSource, taxonomy: SkillTaxonomy, now = new Date()): SkillExperience[] {
+  const rolesBySkill = new Map<string, RoleEntry[]>();
+  for (const entry of candidate.experience) {
+    for (const skill of attributeRoleSkills(entry, candidate.skills, taxonomy)) {
+      rolesBySkill.set(skill, [...(rolesBySkill.get(skill) ?? []), entry]);
+    }
+  }
+
+  const levels = new Map(candidate.skill_levels.map(({ skill, level }) => [taxonomy.resolve(skill).name, level]));
+  const names = taxonomy.canonicalize([...candidate.skills, ...rolesBySkill.keys(), ...levels.keys()]);
+
+  return names
+    .map(name => {
+      const roles = rolesBySkill.get(name) ?? [];
+      const dated = roles.filter(role => role.start_date);
+      const current = dated.some(role => !role.end_date);
+      const lastUsed = dated
+        .map(role => role.end_date ?? role.start_date!)
+        .reduce<string | null>((latest, month) => (!latest || monthIndex(month) > monthIndex(latest) ? month : latest), null);
+      return {
+        name,
+        months: totalExperienceMonths(roles, now),
+        roles: roles.length,
+        last_used: current ? `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}` : lastUsed,
+        current,
+        level: levels.get(name) ?? null,
+      };
+    })
+    .sort((a, b) => b.months - a.months || b.roles - a.roles);
+}
+
+// Whole months since the skill was last used; null when never dated
+export function monthsSinceUsed(skill: SkillExperience, now = new Date()): number | null {
+  if (!skill.last_used) return null;
+  return Math.max(0, now.getFullYear() * 12 + now.getMonth() - monthIndex(skill.last_used));
+}
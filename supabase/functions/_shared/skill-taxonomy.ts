@@ -0,0 +1,350 @@
+// Canonical skill names, so "JS", "Javascript" and "javascript (ES6)" are one skill.
+// The bundled taxonomy covers common technical and soft skills; workspaces extend it with
+// their own aliases (public.skill_aliases). Shared by the parser, which stores canonical
+// names, and the app, which canonicalizes again at query time so older parses and newly
+// added aliases are covered too.
+
+export const SKILL_CATEGORIES = [
+  'language',
+  'framework',
+  'database',
+  'cloud',
+  'devops',
+  'data',
+  'tool',
+  'methodology',
+  'soft_skill',
+] as const;
+
+export type SkillCategory = (typeof SKILL_CATEGORIES)[number];
+
+export const SKILL_CATEGORY_LABELS: Record<SkillCategory, string> = {
+  language: 'Language',
+  framework: 'Framework / library',
+  database: 'Database',
+  cloud: 'Cloud',
+  devops: 'DevOps',
+  data: 'Data & ML',
+  tool: 'Tool',
+  methodology: 'Methodology',
+  soft_skill: 'Soft skill',
+};
+
+export interface SkillDefinition {
+  name: string;
+  category: SkillCategory | null;
+  aliases?: string[];
+  parent?: string; // broader skill this one implies, e.g. React -> JavaScript
+}
+
+// Row shape of public.skill_aliases
+export interface CustomSkillAlias {
+  alias: string;
+  canonical_name: string;
+  category: string | null;
+  parent_name: string | null;
+}
+
+const BUNDLED_SKILLS: SkillDefinition[] = [
+  // Languages
+  { name: 'JavaScript', category: 'language', aliases: ['JS', 'ECMAScript', 'ES6', 'ES2015', 'Vanilla JS'] },
+  { name: 'TypeScript', category: 'language', aliases: ['TS'], parent: 'JavaScript' },
+  { name: 'Python', category: 'language', aliases: ['Python3', 'Py'] },
+  { name: 'Java', category: 'language', aliases: ['Core Java', 'J2SE'] },
+  { name: 'Kotlin', category: 'language' },
+  { name: 'Scala', category: 'language' },
+  { name: 'C', category: 'language', aliases: ['ANSI C', 'C language'] },
+  { name: 'C++', category: 'language', aliases: ['CPP', 'C plus plus'] },
+  { name: 'C#', category: 'language', aliases: ['C Sharp', 'CSharp'] },
+  { name: 'Go', category: 'language', aliases: ['Golang'] },
+  { name: 'Rust', category: 'language' },
+  { name: 'Ruby', category: 'language' },
+  { name: 'PHP', category: 'language' },
+  { name: 'Swift', category: 'language' },
+  { name: 'Objective-C', category: 'language', aliases: ['ObjC'] },
+  { name: 'R', category: 'language', aliases: ['R language', 'R programming'] },
+  { name: 'MATLAB', category: 'language' },
+  { name: 'Perl', category: 'language' },
+  { name: 'Dart', category: 'language' },
+  { name: 'Elixir', category: 'language' },
+  { name: 'Haskell', category: 'language' },
+  { name: 'SQL', category: 'language', aliases: ['Structured Query Language', 'T-SQL', 'PL/SQL'] },
+  { name: 'Bash', category: 'language', aliases: ['Shell scripting', 'Shell', 'Unix shell'] },
+  { name: 'PowerShell', category: 'language' },
+  { name: 'HTML', category: 'language', aliases: ['HTML5'] },
+  { name: 'CSS', category: 'language', aliases: ['CSS3'] },
+  { name: 'Sass', category: 'language', aliases: ['SCSS'], parent: 'CSS' },
+  { name: 'GraphQL', category: 'language' },
+  { name: 'Solidity', category: 'language' },
+
+  // Frameworks and libraries
+  { name: 'React', category: 'framework', aliases: ['ReactJS', 'React.js'], parent: 'JavaScript' },
+  { name: 'React Native', category: 'framework', parent: 'React' },
+  { name: 'Next.js', category: 'framework', aliases: ['NextJS'], parent: 'React' },
+  { name: 'Redux', category: 'framework', parent: 'React' },
+  { name: 'Angular', category: 'framework', aliases: ['AngularJS', 'Angular.js'], parent: 'TypeScript' },
+  { name: 'Vue.js', category: 'framework', aliases: ['Vue', 'VueJS'], parent: 'JavaScript' },
+  { name: 'Nuxt', category: 'framework', aliases: ['Nuxt.js', 'NuxtJS'], parent: 'Vue.js' },
+  { name: 'Svelte', category: 'framework', aliases: ['SvelteKit'], parent: 'JavaScript' },
+  { name: 'jQuery', category: 'framework', parent: 'JavaScript' },
+  { name: 'Node.js', category: 'framework', aliases: ['Node', 'NodeJS'], parent: 'JavaScript' },
+  { name: 'Express', category: 'framework', aliases: ['Express.js', 'ExpressJS'], parent: 'Node.js' },
+  { name: 'NestJS', category: 'framework', aliases: ['Nest.js'], parent: 'Node.js' },
+  { name: 'Tailwind CSS', category: 'framework', aliases: ['Tailwind', 'TailwindCSS'], parent: 'CSS' },
+  { name: 'Bootstrap', category: 'framework', parent: 'CSS' },
+  { name: 'Django', category: 'framework', parent: 'Python' },
+  { name: 'Flask', category: 'framework', parent: 'Python' },
+  { name: 'FastAPI', category: 'framework', parent: 'Python' },
+  { name: 'Spring', category: 'framework', aliases: ['Spring Framework'], parent: 'Java' },
+  { name: 'Spring Boot', category: 'framework', aliases: ['SpringBoot'], parent: 'Spring' },
+  { name: 'Hibernate', category: 'framework', parent: 'Java' },
+  { name: '.NET', category: 'framework', aliases: ['DotNet', '.NET Core', 'ASP.NET', 'ASP.NET Core', '.NET Framework'], parent: 'C#' },
+  { name: 'Ruby on Rails', category: 'framework', aliases: ['Rails', 'RoR'], parent: 'Ruby' },
+  { name: 'Laravel', category: 'framework', parent: 'PHP' },
+  { name: 'Flutter', category: 'framework', parent: 'Dart' },
+  { name: 'SwiftUI', category: 'framework', parent: 'Swift' },
+  { name: 'Android', category: 'framework', aliases: ['Android SDK', 'Android development'] },
+  { name: 'iOS', category: 'framework', aliases: ['iOS development'] },
+  { name: 'Pandas', category: 'data', parent: 'Python' },
+  { name: 'NumPy', category: 'data', parent: 'Python' },
+  { name: 'scikit-learn', category: 'data', aliases: ['sklearn', 'scikit learn'], parent: 'Machine Learning' },
+  { name: 'TensorFlow', category: 'data', parent: 'Deep Learning' },
+  { name: 'PyTorch', category: 'data', aliases: ['Torch'], parent: 'Deep Learning' },
+  { name: 'Keras', category: 'data', parent: 'Deep Learning' },
+
+  // Data and ML
+  { name: 'Machine Learning', category: 'data', aliases: ['ML'] },
+  { name: 'Deep Learning', category: 'data', aliases: ['DL', 'Neural Networks'], parent: 'Machine Learning' },
+  { name: 'Natural Language Processing', category: 'data', aliases: ['NLP'], parent: 'Machine Learning' },
+  { name: 'Computer Vision', category: 'data', parent: 'Machine Learning' },
+  { name: 'Large Language Models', category: 'data', aliases: ['LLM', 'LLMs', 'Generative AI', 'GenAI'], parent: 'Machine Learning' },
+  { name: 'Artificial Intelligence', category: 'data', aliases: ['AI'] },
+  { name: 'Data Science', category: 'data' },
+  { name: 'Data Analysis', category: 'data', aliases: ['Data Analytics', 'Analytics'] },
+  { name: 'Data Engineering', category: 'data' },
+  { name: 'Statistics', category: 'data', aliases: ['Statistical Analysis'] },
+  { name: 'Apache Spark', category: 'data', aliases: ['Spark', 'PySpark'] },
+  { name: 'Hadoop', category: 'data', aliases: ['Apache Hadoop'] },
+  { name: 'Apache Kafka', category: 'data', aliases: ['Kafka'] },
+  { name: 'Apache Airflow', category: 'data', aliases: ['Airflow'] },
+  { name: 'dbt', category: 'data', aliases: ['data build tool'] },
+  { name: 'Tableau', category: 'data' },
+  { name: 'Power BI', category: 'data', aliases: ['PowerBI'] },
+  { name: 'Excel', category: 'tool', aliases: ['Microsoft Excel', 'MS Excel', 'Advanced Excel'] },
+
+  // Databases
+  { name: 'PostgreSQL', category: 'database', aliases: ['Postgres', 'PSQL'], parent: 'SQL' },
+  { name: 'MySQL', category: 'database', parent: 'SQL' },
+  { name: 'Microsoft SQL Server', category: 'database', aliases: ['SQL Server', 'MSSQL', 'MS SQL'], parent: 'SQL' },
+  { name: 'Oracle Database', category: 'database', aliases: ['Oracle', 'Oracle DB'], parent: 'SQL' },
+  { name: 'SQLite', category: 'database', parent: 'SQL' },
+  { name: 'MongoDB', category: 'database', aliases: ['Mongo'] },
+  { name: 'Redis', category: 'database' },
+  { name: 'Elasticsearch', category: 'database', aliases: ['Elastic Search', 'ELK'] },
+  { name: 'Cassandra', category: 'database', aliases: ['Apache Cassandra'] },
+  { name: 'DynamoDB', category: 'database', aliases: ['Amazon DynamoDB'], parent: 'AWS' },
+  { name: 'Snowflake', category: 'database' },
+  { name: 'BigQuery', category: 'database', aliases: ['Google BigQuery'], parent: 'Google Cloud' },
+  { name: 'Supabase', category: 'database', parent: 'PostgreSQL' },
+  { name: 'Firebase', category: 'database', parent: 'Google Cloud' },
+
+  // Cloud
+  { name: 'AWS', category: 'cloud', aliases: ['Amazon Web Services', 'Amazon AWS'] },
+  { name: 'AWS Lambda', category: 'cloud', aliases: ['Lambda'], parent: 'AWS' },
+  { name: 'Amazon S3', category: 'cloud', aliases: ['S3', 'AWS S3'], parent: 'AWS' },
+  { name: 'Amazon EC2', category: 'cloud', aliases: ['EC2', 'AWS EC2'], parent: 'AWS' },
+  { name: 'Microsoft Azure', category: 'cloud', aliases: ['Azure'] },
+  { name: 'Google Cloud', category: 'cloud', aliases: ['GCP', 'Google Cloud Platform'] },
+  { name: 'Heroku', category: 'cloud' },
+  { name: 'Vercel', category: 'cloud' },
+  { name: 'Serverless', category: 'cloud', aliases: ['Serverless Architecture'] },
+
+  // DevOps
+  { name: 'Docker', category: 'devops', aliases: ['Containerization'] },
+  { name: 'Kubernetes', category: 'devops', aliases: ['K8s', 'K8S'] },
+  { name: 'Terraform', category: 'devops', aliases: ['HashiCorp Terraform'] },
+  { name: 'Ansible', category: 'devops' },
+  { name: 'Jenkins', category: 'devops' },
+  { name: 'GitHub Actions', category: 'devops' },
+  { name: 'GitLab CI', category: 'devops', aliases: ['GitLab CI/CD'] },
+  { name: 'CI/CD', category: 'devops', aliases: ['Continuous Integration', 'Continuous Delivery', 'Continuous Deployment'] },
+  { name: 'Linux', category: 'devops', aliases: ['Unix', 'Ubuntu', 'RHEL'] },
+  { name: 'Nginx', category: 'devops' },
+  { name: 'Prometheus', category: 'devops' },
+  { name: 'Grafana', category: 'devops' },
+  { name: 'Microservices', category: 'devops', aliases: ['Microservice Architecture'] },
+  { name: 'REST APIs', category: 'devops', aliases: ['REST', 'RESTful APIs', 'RESTful', 'REST API', 'RESTful Web Services'] },
+
+  // Tools
+  { name: 'Git', category: 'tool', aliases: ['Version Control'] },
+  { name: 'GitHub', category: 'tool', parent: 'Git' },
+  { name: 'GitLab', category: 'tool', parent: 'Git' },
+  { name: 'Jira', category: 'tool', aliases: ['Atlassian Jira'] },
+  { name: 'Confluence', category: 'tool' },
+  { name: 'Figma', category: 'tool' },
+  { name: 'Adobe Photoshop', category: 'tool', aliases: ['Photoshop'] },
+  { name: 'Salesforce', category: 'tool', aliases: ['SFDC'] },
+  { name: 'SAP', category: 'tool' },
+  { name: 'Postman', category: 'tool' },
+  { name: 'Selenium', category: 'tool' },
+  { name: 'Jest', category: 'tool', parent: 'JavaScript' },
+  { name: 'Cypress', category: 'tool' },
+
+  // Methodologies
+  { name: 'Agile', category: 'methodology', aliases: ['Agile Methodologies', 'Agile Development'] },
+  { name: 'Scrum', category: 'methodology', parent: 'Agile' },
+  { name: 'Kanban', category: 'methodology', parent: 'Agile' },
+  { name: 'Test-Driven Development', category: 'methodology', aliases: ['TDD'] },
+  { name: 'DevOps', category: 'methodology' },
+  { name: 'Object-Oriented Programming', category: 'methodology', aliases: ['OOP', 'OOPS', 'Object Oriented Design'] },
+  { name: 'System Design', category: 'methodology', aliases: ['Software Architecture', 'Distributed Systems'] },
+  { name: 'Product Management', category: 'methodology', aliases: ['Product Strategy'] },
+  { name: 'Project Management', category: 'methodology', aliases: ['PMP'] },
+  { name: 'UX Design', category: 'methodology', aliases: ['UX', 'User Experience', 'UI/UX', 'UI/UX Design'] },
+
+  // Soft skills
+  { name: 'Communication', category: 'soft_skill', aliases: ['Communication Skills', 'Verbal Communication', 'Written Communication'] },
+  { name: 'Leadership', category: 'soft_skill', aliases: ['Team Leadership', 'People Management'] },
+  { name: 'Teamwork', category: 'soft_skill', aliases: ['Collaboration', 'Team Player'] },
+  { name: 'Problem Solving', category: 'soft_skill', aliases: ['Problem-Solving', 'Analytical Thinking', 'Critical Thinking'] },
+  { name: 'Time Management', category: 'soft_skill' },
+  { name: 'Mentoring', category: 'soft_skill', aliases: ['Coaching'] },
+  { name: 'Stakeholder Management', category: 'soft_skill' },
+  { name: 'Public Speaking', category: 'soft_skill', aliases: ['Presentation Skills'] },
+];
+
+// Case, punctuation, parenthesised notes and trailing versions do not make a different
+// skill: "Node.js", "NodeJS" and "node js (v18)" share a key, while C, C++ and C# do not
+export function skillKey(raw: string) {
+  return raw
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(/\s+v?\d{1,2}(\.\d+)*(\.x|\+)?\s*$/, '')
+    .replace(/[^a-z0-9+#]+/g, '');
+}
+
+export interface ResolvedSkill {
+  name: string;
+  category: SkillCategory | null;
+  parent: string | null;
+  known: boolean; // in the bundled taxonomy or a workspace alias
+}
+
+export interface SkillTaxonomy {
+  resolve(raw: string): ResolvedSkill;
+  canonicalize(skills: string[]): string[];
+  // The skill and every skill below it, e.g. JavaScript -> React, Next.js, Node.js...
+  withDescendants(name: string): string[];
+  // Known skills mentioned in free text such as a search query, longest phrases first
+  findInText(text: string): string[];
+  skills(): ResolvedSkill[];
+}
+
+const isCategory = (value: string | null): value is SkillCategory =>
+  !!value && (SKILL_CATEGORIES as readonly string[]).includes(value);
+
+const cleanDisplayName = (raw: string) => raw.replace(/\s+/g, ' ').trim();
+
+const MAX_PHRASE_WORDS = 4;
+
+export function createSkillTaxonomy(customAliases: CustomSkillAlias[] = []): SkillTaxonomy {
+  const definitions = new Map<string, ResolvedSkill>();
+  const lookup = new Map<string, string>(); // key -> key of the canonical skill
+
+  const define = (name: string, category: SkillCategory | null, parent: string | null) => {
+    const key = skillKey(name);
+    const existing = definitions.get(key);
+    definitions.set(key, {
+      name: existing?.name ?? name,
+      category: category ?? existing?.category ?? null,
+      parent: parent ?? existing?.parent ?? null,
+      known: true,
+    });
+    lookup.set(key, key);
+    return key;
+  };
+
+  for (const skill of BUNDLED_SKILLS) {
+    const key = define(skill.name, skill.category, skill.parent ?? null);
+    for (const alias of skill.aliases ?? []) lookup.set(skillKey(alias), key);
+  }
+
+  // Workspace aliases win over bundled ones, and may introduce skills of their own
+  for (const custom of customAliases) {
+    const aliasKey = skillKey(custom.alias);
+    const canonicalKey = lookup.get(skillKey(custom.canonical_name));
+    const targetKey = canonicalKey && !custom.category && !custom.parent_name
+      ? canonicalKey
+      : define(
+          canonicalKey ? definitions.get(canonicalKey)!.name : cleanDisplayName(custom.canonical_name),
+          isCategory(custom.category) ? custom.category : null,
+          custom.parent_name ? cleanDisplayName(custom.parent_name) : null,
+        );
+    if (aliasKey) lookup.set(aliasKey, targetKey);
+  }
+
+  const resolve = (raw: string): ResolvedSkill => {
+    const key = lookup.get(skillKey(raw));
+    return key
+      ? definitions.get(key)!
+      : { name: cleanDisplayName(raw), category: null, parent: null, known: false };
+  };
+
+  const children = new Map<string, string[]>();
+  for (const skill of definitions.values()) {
+    if (!skill.parent) continue;
+    const parentName = resolve(skill.parent).name;
+    children.set(parentName, [...(children.get(parentName) ?? []), skill.name]);
+  }
+
+  return {
+    resolve,
+
+    canonicalize(skills) {
+      const seen = new Set<string>();
+      const result: string[] = [];
+      for (const raw of skills) {
+        const { name } = resolve(raw);
+        const key = skillKey(name);
+        if (!key || seen.has(key)) continue;
+        seen.add(key);
+        result.push(name);
+      }
+      return result;
+    },
+
+    withDescendants(name) {
+      const root = resolve(name).name;
+      const result: string[] = [];
+      const queue = [root];
+      while (queue.length > 0) {
+        const current = queue.shift()!;
+        if (result.includes(current)) continue;
+        result.push(current);
+        queue.push(...(children.get(current) ?? []));
+      }
+      return result;
+    },
+
+    findInText(text) {
+      const words = text.split(/[\s,;/]+/).filter(Boolean);
+      const found: string[] = [];
+      for (let start = 0; start < words.length;) {
+        let matched = 0;
+        for (let length = Math.min(MAX_PHRASE_WORDS, words.length - start); length > 0; length--) {
+          const key = lookup.get(skillKey(words.slice(start, start + length).join(' ')));
+          if (key) {
+            const { name } = definitions.get(key)!;
+            if (!found.includes(name)) found.push(name);
+            matched = length;
+            break;
+          }
+        }
+        start += matched || 1;
+      }
+      return found;
+    },
+
+    skills: () => [...definitions.values()],
+  };
+}
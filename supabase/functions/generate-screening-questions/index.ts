@@ -1,66 +1,73 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { delimitUntrusted, isInjectionLike, stripInvisibleCharacters } from '../_shared/content-safety.ts';
+import { getLLMProvider } from '../_shared/llm/index.ts';
+import { consumeRateLimit, RateLimitError, rateLimitResponse } from '../_shared/rate-limit.ts';
+
+const MAX_SKILLS = 50;
+const MAX_VALUE_LENGTH = 100;
+
+// Skills and titles come from parsed resumes, so they get the same screening as resume text
+function sanitizeProfileValue(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const clean = stripInvisibleCharacters(value).text.replace(/\s+/g, ' ').trim().slice(0, MAX_VALUE_LENGTH);
+  return clean && !isInjectionLike(clean) ? clean : null;
+}
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-async function getGeminiCompletion(prompt: string) {
-  const apiKey = Deno.env.get('GOOGLE_AI_API_KEY');
-  if (!apiKey) throw new Error('Google AI API key not found');
-
-  const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${apiKey}`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      contents: [{ parts: [{ text: prompt }] }],
-      generationConfig: {
-        temperature: 0.4,
-        maxOutputTokens: 2048,
-        responseMimeType: "application/json"
-      }
-    })
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('Gemini error:', errorText);
-    throw new Error(`Gemini API failed: ${response.status} - ${errorText}`);
-  }
-
-  const data = await response.json();
-  if (!data.candidates || !data.candidates[0] || !data.candidates[0].content) {
-    console.error('Unexpected Gemini response structure:', JSON.stringify(data));
-    throw new Error('Invalid response from Gemini API');
-  }
-  
-  return data.candidates[0].content.parts[0].text;
-}
-
-
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { skills, title } = await req.json();
+    const serviceClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Get user from JWT token; limits are tracked per user and workspace
+    const authHeader = req.headers.get('authorization');
+    const { data: { user } } = await serviceClient.auth.getUser(authHeader?.replace('Bearer ', '') ?? '');
+    if (!user) {
+      return new Response(JSON.stringify({ error: 'Authentication failed' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
 
-    if (!skills || !Array.isArray(skills) || skills.length === 0) {
+    const body = await req.json();
+    const skills = Array.isArray(body.skills)
+      ? body.skills.map(sanitizeProfileValue).filter((skill: string | null): skill is string => skill !== null).slice(0, MAX_SKILLS)
+      : [];
+    const title = sanitizeProfileValue(body.title);
+
+    if (skills.length === 0) {
       throw new Error("Skills are required and must be a non-empty array.");
     }
+
+    await consumeRateLimit(serviceClient, 'screening_questions', user.id);
     
     console.log(`Generating questions for title: ${title}, skills: ${skills.join(', ')}`);
 
+    const profile = delimitUntrusted('candidate profile', [
+      `Job Title Consideration: ${title || 'a relevant technical role'}`,
+      `Key Skills: ${skills.join(', ')}`,
+    ].join('\n'));
+
     const prompt = `
       You are an expert technical recruiter and hiring manager.
       Based on the following candidate profile, generate 5 insightful and distinct screening questions to assess their expertise for the given job title.
       The questions should be practical and aim to understand the candidate's depth of knowledge and real-world application of their skills. Avoid generic or easily searchable questions.
+      ${profile.instructions}
 
       Candidate Profile:
-      - Job Title Consideration: "${title || 'a relevant technical role'}"
-      - Key Skills: ${skills.join(', ')}
+${profile.block}
 
       Return ONLY a valid JSON object with a single key "questions" which is an array of 5 strings.
       Example format:
@@ -75,17 +82,11 @@ serve(async (req) => {
       }
     `;
     
-    const aiResult = await getGeminiCompletion(prompt);
-    console.log('Raw Gemini response:', aiResult);
-    
-    let cleanedResult = aiResult.trim();
-    if (cleanedResult.startsWith('```json')) {
-      cleanedResult = cleanedResult.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-    } else if (cleanedResult.startsWith('```')) {
-      cleanedResult = cleanedResult.replace(/^```\s*/, '').replace(/\s*```$/, '');
-    }
-
-    const parsed = JSON.parse(cleanedResult);
+    const parsed = await getLLMProvider().completeJSON<{ questions?: unknown }>(prompt, {
+      task: 'screening-questions',
+      temperature: 0.4,
+      maxOutputTokens: 2048,
+    });
 
     if (!parsed.questions || !Array.isArray(parsed.questions)) {
       throw new Error("AI response did not contain a valid 'questions' array.");
@@ -98,6 +99,10 @@ serve(async (req) => {
     });
 
   } catch (error) {
+    if (error instanceof RateLimitError) {
+      return rateLimitResponse(error, corsHeaders);
+    }
+
     console.error('Error generating questions:', error.message);
     return new Response(JSON.stringify({ error: error.message }), {
       status: 500,
@@ -1,318 +1,169 @@
-
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
-
-// Helper Function to Call Google AI (Gemini) for structured JSON parsing
-async function getGeminiJSONCompletion(prompt: string) {
-  const apiKey = Deno.env.get('GOOGLE_AI_API_KEY');
-  if (!apiKey) throw new Error('Google AI API key not found');
-
-  const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${apiKey}`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      contents: [{ parts: [{ text: prompt }] }],
-      generationConfig: {
-        temperature: 0.1,
-        maxOutputTokens: 8192,
-        responseMimeType: "application/json"
-      }
-    })
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('Gemini JSON parsing error:', errorText);
-    throw new Error(`Gemini JSON API failed: ${response.status} - ${errorText}`);
+import { consumeRateLimit, RateLimitError, rateLimitResponse } from '../_shared/rate-limit.ts';
+
+// The app's single entry point for parsing. Verifies the caller's JWT, validates input,
+// checks that every resume belongs to the caller and only then queues parse jobs.
+// The parse-worker runs the shared pipeline (local + multimodal extraction, AI parse,
+// regex fallback) on those jobs. Storage paths come from the database, never the request.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Max-Age': '86400',
+  'X-Content-Type-Options': 'nosniff',
+  'X-Frame-Options': 'DENY',
+  'X-XSS-Protection': '1; mode=block',
+  'Strict-Transport-Security': 'max-age=31536000; includeSubDomains',
+};
+
+const MAX_RESUMES_PER_REQUEST = 100;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Postgres unique_violation: the resume already has a queued or running job
+const UNIQUE_VIOLATION = '23505';
+
+// Job statuses covered by parse_jobs_active_resume_idx
+const IN_FLIGHT_STATUSES = ['queued', 'extracting', 'parsing'];
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string, readonly details?: string[]) {
+    super(message);
+    this.name = 'HttpError';
   }
-
-  const data = await response.json();
-  if (!data.candidates || !data.candidates[0] || !data.candidates[0].content) {
-    console.error('Unexpected Gemini JSON response structure:', JSON.stringify(data));
-    throw new Error('Invalid response from Gemini JSON API');
-  }
-
-  return data.candidates[0].content.parts[0].text;
 }
 
-// New AI-based text extraction for any file type Gemini supports (PDF, images, etc.)
-async function extractTextWithAI(fileBlob: Blob) {
-  console.log(`Extracting text from ${fileBlob.type} with Gemini...`);
-  const apiKey = Deno.env.get('GOOGLE_AI_API_KEY');
-  if (!apiKey) throw new Error('Google AI API key not found for text extraction');
-
-  const arrayBuffer = await fileBlob.arrayBuffer();
-  const uint8Array = new Uint8Array(arrayBuffer);
-  let binary = '';
-  for (let i = 0; i < uint8Array.byteLength; i++) {
-    binary += String.fromCharCode(uint8Array[i]);
-  }
-  const base64Data = btoa(binary);
-
-  const prompt = `Extract all text from the provided file. Be as accurate as possible, preserving paragraphs and lists. Return ONLY the raw extracted text.`;
-
-  const requestBody = {
-    contents: [{
-      parts: [
-        { text: prompt },
-        { inline_data: { mime_type: fileBlob.type, data: base64Data } },
-      ],
-    }],
-    generationConfig: {
-      temperature: 0.0,
-      maxOutputTokens: 8192,
-      responseMimeType: "text/plain"
-    }
-  };
-
-  const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${apiKey}`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(requestBody)
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
   });
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('Gemini text extraction error:', errorText);
-    throw new Error(`Gemini text extraction failed: ${response.status} - ${errorText}`);
-  }
+// Input validation
+const validateInput = (input: unknown): string[] => {
+  const resumeIds = (input as { resumeIds?: unknown })?.resumeIds;
+  const errors: string[] = [];
 
-  const data = await response.json();
-  if (!data.candidates || !data.candidates[0] || !data.candidates[0].content || !data.candidates[0].content.parts[0].text) {
-    if (data.promptFeedback?.blockReason) {
-      const reason = `Text extraction blocked by safety settings: ${data.promptFeedback.blockReason}`;
-      console.error(reason);
-      throw new Error(reason);
+  if (!Array.isArray(resumeIds) || resumeIds.length === 0) {
+    errors.push('resumeIds must be a non-empty array');
+  } else {
+    if (resumeIds.length > MAX_RESUMES_PER_REQUEST) {
+      errors.push(`At most ${MAX_RESUMES_PER_REQUEST} resumes can be queued per request`);
     }
-    console.error('Unexpected Gemini text extraction response:', JSON.stringify(data));
-    throw new Error('Invalid response from Gemini text extraction API');
-  }
-
-  const extractedText = data.candidates[0].content.parts[0].text;
-  console.log(`AI successfully extracted ${extractedText.length} characters.`);
-  return extractedText;
-}
-
-// Clean text for database storage
-function cleanTextForDatabase(text: string) {
-  if (!text) return '';
-  return text
-    .replace(/[\x00-\x1F\x7F-\x9F]/g, ' ') // Remove non-printable characters
-    .replace(/\s+/g, ' ')
-    .trim();
-}
-
-// AI resume parsing with a more robust prompt
-async function parseResumeWithAI(text: string) {
-  const MAX_TEXT_LENGTH = 200000; // Generous limit for Gemini
-  if (!text || text.length < 20) {
-    throw new Error('Insufficient text for AI parsing');
-  }
-  
-  const truncatedText = text.substring(0, MAX_TEXT_LENGTH);
-  console.log(`Parsing text of length: ${truncatedText.length}`);
-
-  const aiPrompt = `
-Extract information from this resume text and return ONLY a valid JSON object with this exact structure:
-{
-  "full_name": "string",
-  "email": "string", 
-  "phone": "string",
-  "location": "string",
-  "skills": ["string"],
-  "experience": [{"title": "string", "company": "string", "duration": "string", "description": "string"}],
-  "education": [{"degree": "string", "institution": "string", "year": "string"}]
-}
-
-Extraction Rules:
-- Extract information accurately from the text.
-- If a value isn't found, use null for strings and empty arrays [] for lists.
-- DO NOT invent or fabricate any information.
-- The resume text might be messy or from an OCR process; do your best to interpret it.
-- For "experience" and "education", extract every entry you can find.
-- For "description" in experience, capture the key responsibilities and achievements.
-
-Resume text to parse:
----
-${truncatedText}
----
-`;
-
-  try {
-    console.log('Sending parsing request to Gemini AI...');
-    const aiResult = await getGeminiJSONCompletion(aiPrompt);
-    console.log('Raw Gemini response received.');
-    
-    let cleanedResult = aiResult.trim();
-    if (cleanedResult.startsWith('```json')) {
-      cleanedResult = cleanedResult.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-    } else if (cleanedResult.startsWith('```')) {
-      cleanedResult = cleanedResult.replace(/^```\s*/, '').replace(/\s*```$/, '');
+    if (resumeIds.some(id => typeof id !== 'string' || !UUID_PATTERN.test(id))) {
+      errors.push('Invalid resume ID');
     }
-    
-    const parsed = JSON.parse(cleanedResult);
-    console.log('Successfully parsed AI result.');
-    
-    return {
-      full_name: parsed.full_name || null,
-      email: parsed.email || null,
-      phone: parsed.phone || null,
-      location: parsed.location || null,
-      skills_json: Array.isArray(parsed.skills) ? parsed.skills : [],
-      experience_json: Array.isArray(parsed.experience) ? parsed.experience : [],
-      education_json: Array.isArray(parsed.education) ? parsed.education : [],
-    };
-    
-  } catch (error) {
-    console.error('AI parsing failed:', error.message);
-    throw error;
   }
-}
 
-// Enhanced regex-based extraction as fallback
-function extractBasicInfoWithRegex(text: string) {
-  console.log('Using regex fallback extraction...');
-  const emailMatch = text.match(/\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/);
-  const phoneMatch = text.match(/(?:\+?\d{1,3}[-.\s]?)?\(?\d{3}\)?[-.\s]?\d{3}[-.\s]?\d{4}/);
-  
-  const lines = text.split(/[\n\r]+/).filter(line => line.trim().length > 2);
-  let name = null;
-  if (lines.length > 0) {
-    const firstLine = lines[0].trim();
-    if (firstLine.length > 3 && firstLine.length < 50 && /^[A-Z][a-zA-Z\s.'-]+$/.test(firstLine)) {
-        name = firstLine;
-    }
-  }
+  if (errors.length > 0) throw new HttpError(400, 'Input validation failed', errors);
+  return [...new Set(resumeIds as string[])];
+};
 
-  return {
-    full_name: name,
-    email: emailMatch ? emailMatch[0] : null,
-    phone: phoneMatch ? phoneMatch[0] : null,
-    location: null,
-    skills_json: [],
-    experience_json: [],
-    education_json: [],
-  };
-}
+// A stored path must live in the owner's folder; anything else was not written by the app
+const isValidStoragePath = (path: string | null, userId: string) =>
+  !!path && path.startsWith(`${userId}/`) && !path.includes('..') && !path.includes('//') && path.length <= 500;
 
-// Main Server Logic
 serve(async (req) => {
+  // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
-    return new Response(null, { 
-      headers: { 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type' } 
-    });
+    return new Response('ok', { headers: corsHeaders });
   }
 
-  let resumeId;
   try {
-    const body = await req.json();
-    resumeId = body.resumeId;
-    const filePath = body.filePath;
-    
-    if (!resumeId || !filePath) throw new Error(`Missing resumeId or filePath`);
-    
-    console.log(`Starting parsing for resume ${resumeId} with file path: ${filePath}`);
-    
+    if (req.method !== 'POST') throw new HttpError(405, 'Method not allowed');
+
     const serviceClient = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '', 
+      Deno.env.get('SUPABASE_URL') ?? '',
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
-    const { data: fileData, error: downloadError } = await serviceClient.storage
-      .from('resumes')
-      .download(filePath);
-    if (downloadError) throw new Error(`Failed to download file: ${downloadError.message}`);
+    // Get user from JWT token
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) throw new HttpError(401, 'No authorization header');
 
-    console.log(`File downloaded successfully: ${filePath}, type: ${fileData.type}, size: ${fileData.size}`);
+    const { data: { user }, error: authError } = await serviceClient.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    );
+    if (authError || !user) throw new HttpError(401, 'Authentication failed');
 
-    // Step 1: Extract text using AI for robustness
-    let rawText = '';
+    // Parse and validate request body
+    let requestBody: unknown;
     try {
-        rawText = await extractTextWithAI(fileData);
-    } catch(extractionError) {
-        console.error(`AI text extraction failed: ${extractionError.message}. The file might be corrupted or unsupported.`);
-        // Continue with empty text, so it gets marked as failed with context.
+      requestBody = await req.json();
+    } catch {
+      throw new HttpError(400, 'Invalid JSON in request body');
     }
-    
-    let cleanText = cleanTextForDatabase(rawText);
-    console.log(`Text extracted and cleaned, final length: ${cleanText.length} characters`);
+    const resumeIds = validateInput(requestBody);
 
-    const { data: resumeData, error: resumeError } = await serviceClient
+    // Verify the user owns every resume
+    const { data: resumes, error: resumesError } = await serviceClient
       .from('resumes')
-      .select('user_id')
-      .eq('id', resumeId)
-      .single();
-    if (resumeError || !resumeData) throw new Error(`Resume with ID ${resumeId} not found: ${resumeError?.message}`);
-
-    let parsedContent;
+      .select('id, supabase_storage_path, document_type')
+      .in('id', resumeIds)
+      .eq('user_id', user.id);
+    if (resumesError) throw new Error(`Failed to load resumes: ${resumesError.message}`);
+
+    const owned = new Map((resumes ?? []).map(resume => [resume.id, resume]));
+    const notFound = resumeIds.filter(id => !owned.has(id));
+    if (notFound.length > 0) {
+      throw new HttpError(404, 'Resume not found or access denied', notFound);
+    }
 
-    // Step 2: Parse the extracted text with AI
-    if (cleanText.length > 30) {
-      console.log(`Attempting AI parsing for resume ${resumeId}...`);
-      try {
-        parsedContent = await parseResumeWithAI(cleanText);
-        console.log(`AI parsing successful for resume ${resumeId}`);
-      } catch (aiError) {
-        console.error(`AI parsing failed: ${aiError.message}. Falling back to regex.`);
-        parsedContent = extractBasicInfoWithRegex(cleanText);
-      }
-    } else {
-      console.log(`Text too short for AI parsing, using regex extraction.`);
-      parsedContent = extractBasicInfoWithRegex(cleanText);
+    const invalid = resumeIds.filter(id => {
+      const resume = owned.get(id)!;
+      return resume.document_type !== 'resume' || !isValidStoragePath(resume.supabase_storage_path, user.id);
+    });
+    if (invalid.length > 0) {
+      throw new HttpError(400, 'Only uploaded resumes can be parsed', invalid);
     }
 
-    const finalData = {
-        resume_id: resumeId,
-        user_id: resumeData.user_id,
-        raw_text_content: cleanText,
-        ...parsedContent
-    };
+    // Resumes already queued or being parsed are left alone, and not charged for
+    const { data: inFlightJobs, error: jobsError } = await serviceClient
+      .from('parse_jobs')
+      .select('resume_id')
+      .in('resume_id', resumeIds)
+      .in('status', IN_FLIGHT_STATUSES);
+    if (jobsError) throw new Error(`Failed to load parse jobs: ${jobsError.message}`);
 
-    console.log('Final parsed content summary:', JSON.stringify({
-      name: finalData.full_name,
-      email: finalData.email,
-      phone: finalData.phone,
-      skills: finalData.skills_json.length,
-      experience: finalData.experience_json.length
-    }, null, 2));
+    const alreadyQueued = [...new Set((inFlightJobs ?? []).map(job => job.resume_id as string))];
+    const toQueue = resumeIds.filter(id => !alreadyQueued.includes(id));
 
-    const { error: insertError } = await serviceClient
-      .from('parsed_resume_details')
-      .insert(finalData);
-    if (insertError) throw new Error(`Failed to insert parsed details: ${insertError.message}`);
+    // Charged per resume, so one ZIP batch costs the same as its files uploaded one by one
+    if (toQueue.length > 0) {
+      await consumeRateLimit(serviceClient, 'parse_resume', user.id, toQueue.length);
+    }
 
-    await serviceClient
-      .from('resumes')
-      .update({ parsing_status: 'completed' })
-      .eq('id', resumeId);
+    const queued: string[] = [];
+    for (const resumeId of toQueue) {
+      const { error: insertError } = await serviceClient
+        .from('parse_jobs')
+        .insert({ resume_id: resumeId, user_id: user.id });
+
+      if (!insertError) {
+        queued.push(resumeId);
+      } else if (insertError.code === UNIQUE_VIOLATION) {
+        alreadyQueued.push(resumeId);
+      } else {
+        throw new Error(`Failed to queue resume ${resumeId}: ${insertError.message}`);
+      }
+    }
 
-    console.log(`Successfully parsed and stored details for resume ${resumeId}`);
-    
-    return new Response(JSON.stringify({ success: true, parsed: { name: finalData.full_name, email: finalData.email } }), { 
-      headers: { 'Access-Control-Allow-Origin': '*', 'Content-Type': 'application/json' } 
+    await serviceClient.rpc('log_auth_event', {
+      event_type: 'resume_parse_requested',
+      user_email: user.email
     });
 
+    console.log(`Queued ${queued.length} resume(s) for user ${user.id}, ${alreadyQueued.length} already in flight`);
+    return jsonResponse({ success: true, queued, alreadyQueued });
   } catch (error) {
-    console.error(`Error processing resume ${resumeId || 'unknown'}:`, error.message);
-    
-    if (resumeId) {
-      try {
-        const serviceClient = createClient(
-          Deno.env.get('SUPABASE_URL') ?? '', 
-          Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-        );
-        await serviceClient
-          .from('resumes')
-          .update({ parsing_status: 'failed', parsing_error: error.message })
-          .eq('id', resumeId);
-      } catch (e) { 
-        console.error('Failed to update status to failed:', e.message); 
-      }
+    if (error instanceof RateLimitError) {
+      return rateLimitResponse(error, corsHeaders);
     }
-    
-    return new Response(JSON.stringify({ error: error.message }), { 
-      status: 500, 
-      headers: { 'Access-Control-Allow-Origin': '*', 'Content-Type': 'application/json' } 
-    });
+    if (error instanceof HttpError) {
+      return jsonResponse({ error: error.message, details: error.details }, error.status);
+    }
+
+    console.error('Parse request error:', error);
+    return jsonResponse({ error: 'Failed to queue resumes for parsing' }, 500);
   }
 });
@@ -0,0 +1,141 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { LLMError } from '../_shared/llm/index.ts';
+import { classifyParseError, FileRejectedError, ParseError } from '../_shared/parse-errors.ts';
+import { parseResume } from '../_shared/parse-pipeline.ts';
+
+// Drains the parse_jobs queue. Invoked by the app right after enqueueing and on a schedule
+// (the drain-parse-jobs pg_cron job) so queued resumes keep moving even after the uploading tab is closed.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const BATCH_SIZE = 3;
+const TIME_BUDGET_MS = 100 * 1000; // stay well inside the edge function wall-clock limit
+const BASE_RETRY_DELAY_SECONDS = 30;
+const MAX_RETRY_DELAY_SECONDS = 60 * 60;
+
+interface ParseJob {
+  id: string;
+  resume_id: string;
+  attempts: number;
+  max_attempts: number;
+}
+
+// Exponential backoff with +/-20% jitter so a burst of 429s doesn't retry in lockstep
+function retryDelaySeconds(attempts: number) {
+  const delay = Math.min(BASE_RETRY_DELAY_SECONDS * 2 ** (attempts - 1), MAX_RETRY_DELAY_SECONDS);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+function isRetryable(error: unknown) {
+  if (error instanceof LLMError) return error.isTransient;
+  // Network failures surface as TypeErrors from fetch
+  if (error instanceof TypeError) return true;
+  return error instanceof ParseError && error.code === 'storage_error';
+}
+
+async function updateJob(serviceClient: SupabaseClient, jobId: string, changes: Record<string, unknown>) {
+  const { error } = await serviceClient
+    .from('parse_jobs')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', jobId);
+  if (error) console.error(`Failed to update parse job ${jobId}:`, error.message);
+}
+
+// The failure reason lives on the resume, where the app reads it
+async function updateResume(serviceClient: SupabaseClient, resumeId: string, changes: Record<string, unknown>) {
+  const { error } = await serviceClient
+    .from('resumes')
+    .update(changes)
+    .eq('id', resumeId);
+  if (error) console.error(`Failed to update resume ${resumeId}:`, error.message);
+}
+
+async function processJob(serviceClient: SupabaseClient, job: ParseJob) {
+  console.log(`Processing parse job ${job.id} for resume ${job.resume_id} (attempt ${job.attempts}/${job.max_attempts})`);
+
+  try {
+    const { data: resume, error: resumeError } = await serviceClient
+      .from('resumes')
+      .select('supabase_storage_path')
+      .eq('id', job.resume_id)
+      .single();
+    if (resumeError || !resume?.supabase_storage_path) {
+      throw new Error(`Resume ${job.resume_id} has no stored file: ${resumeError?.message ?? 'missing path'}`);
+    }
+
+    await parseResume(serviceClient, job.resume_id, resume.supabase_storage_path, {
+      onStage: (stage) => updateJob(serviceClient, job.id, { status: stage }),
+    });
+
+    await updateResume(serviceClient, job.resume_id, { parsing_error: null, parsing_error_code: null, rejection_reason: null });
+    await updateJob(serviceClient, job.id, { status: 'completed', last_error: null, locked_at: null });
+  } catch (error) {
+    const { code, message } = classifyParseError(error);
+    console.error(`Parse job ${job.id} failed (${code}):`, message);
+
+    await updateResume(serviceClient, job.resume_id, {
+      parsing_error: message,
+      parsing_error_code: code,
+      rejection_reason: error instanceof FileRejectedError ? message : null,
+    });
+
+    if (error instanceof FileRejectedError) {
+      await updateJob(serviceClient, job.id, { status: 'rejected', last_error: message, locked_at: null });
+    } else if (!isRetryable(error)) {
+      await updateJob(serviceClient, job.id, { status: 'failed', last_error: message, locked_at: null });
+    } else if (job.attempts >= job.max_attempts) {
+      await updateJob(serviceClient, job.id, { status: 'dead_lettered', last_error: message, locked_at: null });
+    } else {
+      const delay = retryDelaySeconds(job.attempts);
+      console.log(`Retrying parse job ${job.id} in ${delay}s`);
+      await updateJob(serviceClient, job.id, {
+        status: 'queued',
+        last_error: message,
+        locked_at: null,
+        next_attempt_at: new Date(Date.now() + delay * 1000).toISOString(),
+      });
+    }
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const serviceClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  const startedAt = Date.now();
+  let processed = 0;
+
+  try {
+    while (Date.now() - startedAt < TIME_BUDGET_MS) {
+      const { data: jobs, error } = await serviceClient.rpc('claim_parse_jobs', { batch_size: BATCH_SIZE });
+      if (error) throw new Error(`Failed to claim parse jobs: ${error.message}`);
+      if (!jobs || jobs.length === 0) break;
+
+      for (const job of jobs as ParseJob[]) {
+        await processJob(serviceClient, job);
+        processed++;
+      }
+    }
+
+    console.log(`Parse worker finished, processed ${processed} job(s)`);
+    return new Response(JSON.stringify({ processed }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Parse worker error:', error.message);
+    return new Response(JSON.stringify({ error: error.message, processed }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,87 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { RateLimitError, rateLimitResponse } from '../_shared/rate-limit.ts';
+
+// Password sign-in for the app, with the per-email lockout enforced here. Where the Auth
+// password verification hook is enabled (AUTH_PASSWORD_HOOK=enabled) it also covers direct
+// Auth API calls and records the attempts itself; otherwise this function records them.
+// The lockout check fails closed: no sign-in while it cannot be checked.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MAX_EMAIL_LENGTH = 254;
+const MAX_PASSWORD_LENGTH = 128;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== 'POST') return jsonResponse({ error: 'Method not allowed' }, 405);
+
+    let body: { email?: unknown; password?: unknown };
+    try {
+      body = await req.json();
+    } catch {
+      return jsonResponse({ error: 'Invalid JSON in request body' }, 400);
+    }
+    if (
+      typeof body.email !== 'string' || body.email.length > MAX_EMAIL_LENGTH ||
+      typeof body.password !== 'string' || body.password.length > MAX_PASSWORD_LENGTH
+    ) {
+      return jsonResponse({ error: 'Invalid login credentials' }, 400);
+    }
+    const email = body.email.trim().toLowerCase();
+
+    const serviceClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+    const hookRecordsAttempts = Deno.env.get('AUTH_PASSWORD_HOOK') === 'enabled';
+
+    const { data: retryAfter, error: checkError } = await serviceClient.rpc('check_sign_in_allowed', { p_email: email });
+    if (checkError) throw new Error(`Sign-in lockout check failed: ${checkError.message}`);
+    if (retryAfter > 0) throw new RateLimitError('email', retryAfter);
+
+    const authClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { auth: { persistSession: false, autoRefreshToken: false } }
+    );
+    const { data, error: signInError } = await authClient.auth.signInWithPassword({ email, password: body.password });
+
+    if (signInError || !data.session) {
+      if (!hookRecordsAttempts) {
+        const { error: recordError } = await serviceClient.rpc('record_failed_sign_in', { p_email: email });
+        if (recordError) console.error('Failed to record sign-in attempt:', recordError.message);
+      }
+      return jsonResponse({ error: signInError?.message ?? 'Invalid login credentials' }, 400);
+    }
+
+    if (!hookRecordsAttempts) {
+      const { error: clearError } = await serviceClient.rpc('clear_failed_sign_ins', { p_email: email });
+      if (clearError) console.error('Failed to clear sign-in attempts:', clearError.message);
+    }
+
+    return jsonResponse({
+      session: { access_token: data.session.access_token, refresh_token: data.session.refresh_token },
+    });
+  } catch (error) {
+    if (error instanceof RateLimitError) {
+      return rateLimitResponse(error, corsHeaders);
+    }
+
+    console.error('Sign-in error:', error);
+    return jsonResponse({ error: 'Sign in is unavailable right now. Please try again later.' }, 503);
+  }
+});
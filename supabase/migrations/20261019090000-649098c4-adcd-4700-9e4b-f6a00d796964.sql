@@ -0,0 +1,4 @@
+-- Record which extractor produced the raw text of a parsed resume
+-- (pdf, docx, odt, rtf, html, text, or ai for the multimodal fallback)
+ALTER TABLE public.parsed_resume_details
+  ADD COLUMN IF NOT EXISTS extraction_method TEXT;
@@ -0,0 +1,125 @@
+-- Durable resume parsing queue
+
+-- 1. Real status state machine for resumes.parsing_status
+CREATE TYPE public.parsing_status AS ENUM (
+  'queued',
+  'extracting',
+  'parsing',
+  'completed',
+  'failed',
+  'dead_lettered'
+);
+
+ALTER TABLE public.resumes ALTER COLUMN parsing_status DROP DEFAULT;
+
+UPDATE public.resumes
+SET parsing_status = CASE parsing_status
+  WHEN 'completed' THEN 'completed'
+  WHEN 'failed' THEN 'failed'
+  WHEN 'processing' THEN 'parsing'
+  ELSE 'queued'
+END;
+
+ALTER TABLE public.resumes
+  ALTER COLUMN parsing_status TYPE public.parsing_status
+  USING parsing_status::public.parsing_status;
+
+ALTER TABLE public.resumes ALTER COLUMN parsing_status SET DEFAULT 'queued';
+
+-- 2. Jobs table
+CREATE TABLE public.parse_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  resume_id UUID NOT NULL REFERENCES public.resumes(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  status public.parsing_status NOT NULL DEFAULT 'queued',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- At most one in-flight job per resume
+CREATE UNIQUE INDEX parse_jobs_active_resume_idx ON public.parse_jobs (resume_id)
+  WHERE status IN ('queued', 'extracting', 'parsing');
+
+CREATE INDEX parse_jobs_due_idx ON public.parse_jobs (next_attempt_at)
+  WHERE status = 'queued';
+
+ALTER TABLE public.parse_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "parse_jobs_select_own" ON public.parse_jobs
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Clients may only enqueue fresh jobs; state transitions belong to the worker (service role)
+CREATE POLICY "parse_jobs_insert_own" ON public.parse_jobs
+  FOR INSERT WITH CHECK (auth.uid() = user_id AND status = 'queued' AND attempts = 0);
+
+-- 3. Keep resumes.parsing_status in sync with its latest job
+CREATE OR REPLACE FUNCTION public.sync_resume_parsing_status()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE public.resumes SET parsing_status = NEW.status WHERE id = NEW.resume_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER parse_jobs_sync_resume_status
+  AFTER INSERT OR UPDATE OF status ON public.parse_jobs
+  FOR EACH ROW EXECUTE FUNCTION public.sync_resume_parsing_status();
+
+-- 4. Atomically claim due jobs for a worker. Jobs stuck mid-flight longer than
+-- lock_timeout (crashed or timed-out worker) are reclaimed.
+CREATE OR REPLACE FUNCTION public.claim_parse_jobs(
+  batch_size INTEGER DEFAULT 3,
+  lock_timeout INTERVAL DEFAULT '10 minutes'
+)
+RETURNS SETOF public.parse_jobs AS $$
+  UPDATE public.parse_jobs AS jobs
+  SET status = 'extracting',
+      attempts = jobs.attempts + 1,
+      locked_at = now(),
+      updated_at = now()
+  WHERE jobs.id IN (
+    SELECT id FROM public.parse_jobs
+    WHERE (status = 'queued' AND next_attempt_at <= now())
+       OR (status IN ('extracting', 'parsing') AND locked_at < now() - lock_timeout)
+    ORDER BY next_attempt_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING jobs.*;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.claim_parse_jobs(INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
+
+-- 5. Drain the queue every minute, so retries and reclaimed jobs run after the uploading tab
+-- is closed. The worker is called with the project URL and service role key stored in Vault
+-- as 'project_url' and 'service_role_key'; nothing is sent while they are missing or no job is due.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'drain-parse-jobs',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := project_url.decrypted_secret || '/functions/v1/parse-worker',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || service_role_key.decrypted_secret
+    ),
+    body := '{}'::jsonb
+  )
+  FROM vault.decrypted_secrets AS project_url, vault.decrypted_secrets AS service_role_key
+  WHERE project_url.name = 'project_url'
+    AND service_role_key.name = 'service_role_key'
+    AND EXISTS (
+      SELECT 1 FROM public.parse_jobs
+      WHERE (status = 'queued' AND next_attempt_at <= now())
+         OR (status IN ('extracting', 'parsing') AND locked_at < now() - INTERVAL '10 minutes')
+    );
+  $$
+);
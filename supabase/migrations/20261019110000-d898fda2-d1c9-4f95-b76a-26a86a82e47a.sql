@@ -0,0 +1,47 @@
+-- Canonical candidate schema v1 (see supabase/functions/_shared/candidate-schema.ts)
+
+ALTER TABLE public.parsed_resume_details
+  ADD COLUMN IF NOT EXISTS links_json JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS certifications_json JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS schema_version INTEGER NOT NULL DEFAULT 1;
+
+-- Rewrite rows produced by earlier parsers into the canonical shape:
+-- experience uses "title" (older rows used "position"), education carries "field" and "grade",
+-- skills are plain strings, and every list is a JSON array.
+CREATE OR REPLACE FUNCTION pg_temp.json_array_or_empty(value JSONB)
+RETURNS JSONB AS $$
+  SELECT CASE WHEN jsonb_typeof(value) = 'array' THEN value ELSE '[]'::jsonb END;
+$$ LANGUAGE sql IMMUTABLE;
+
+UPDATE public.parsed_resume_details
+SET
+  skills_json = (
+    SELECT COALESCE(jsonb_agg(btrim(skill #>> '{}')), '[]'::jsonb)
+    FROM jsonb_array_elements(pg_temp.json_array_or_empty(skills_json::jsonb)) AS skill
+    WHERE jsonb_typeof(skill) = 'string' AND btrim(skill #>> '{}') <> ''
+  ),
+  experience_json = (
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'title', COALESCE(entry->>'title', entry->>'position', entry->>'role', entry->>'job_title'),
+      'company', COALESCE(entry->>'company', entry->>'employer', entry->>'organization'),
+      'location', entry->>'location',
+      'start_date', entry->>'start_date',
+      'end_date', entry->>'end_date',
+      'duration', COALESCE(entry->>'duration', entry->>'dates', entry->>'period'),
+      'description', entry->>'description'
+    )), '[]'::jsonb)
+    FROM jsonb_array_elements(pg_temp.json_array_or_empty(experience_json::jsonb)) AS entry
+    WHERE jsonb_typeof(entry) = 'object'
+  ),
+  education_json = (
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'degree', entry->>'degree',
+      'field', COALESCE(entry->>'field', entry->>'field_of_study', entry->>'major'),
+      'institution', COALESCE(entry->>'institution', entry->>'school', entry->>'university', entry->>'college'),
+      'year', COALESCE(entry->>'year', entry->>'graduation_year', entry->>'dates'),
+      'grade', entry->>'grade'
+    )), '[]'::jsonb)
+    FROM jsonb_array_elements(pg_temp.json_array_or_empty(education_json::jsonb)) AS entry
+    WHERE jsonb_typeof(entry) = 'object'
+  ),
+  schema_version = 1;
@@ -0,0 +1,26 @@
+-- Per-field confidence and the human review queue (see supabase/functions/_shared/field-confidence.ts)
+
+CREATE TYPE public.parse_review_status AS ENUM (
+  'not_required',
+  'pending',
+  'confirmed'
+);
+
+ALTER TABLE public.parsed_resume_details
+  ADD COLUMN IF NOT EXISTS field_confidence JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS review_status public.parse_review_status NOT NULL DEFAULT 'not_required',
+  ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS reviewed_by UUID;
+
+-- Existing rows carry no confidence; send the obviously incomplete ones to review
+UPDATE public.parsed_resume_details
+SET review_status = 'pending'
+WHERE full_name IS NULL OR email IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_parsed_resume_details_review
+  ON public.parsed_resume_details (user_id, review_status)
+  WHERE review_status = 'pending';
+
+-- Recruiters confirm or fix their own parsed details
+CREATE POLICY "parsed_details_update_own" ON public.parsed_resume_details
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
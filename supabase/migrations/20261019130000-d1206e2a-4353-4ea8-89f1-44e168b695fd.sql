@@ -0,0 +1,63 @@
+-- Edit history for parsed resume details.
+-- Recruiters edit parsed_resume_details directly (parsed_details_update_own, added with the
+-- review queue); every change to a candidate field is recorded here so it can be reverted.
+
+CREATE TABLE public.parsed_resume_detail_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  parsed_detail_id UUID NOT NULL REFERENCES public.parsed_resume_details(id) ON DELETE CASCADE,
+  resume_id UUID NOT NULL,
+  user_id UUID NOT NULL,
+  changed_by UUID, -- NULL when the change came from the parser (service role)
+  changed_fields TEXT[] NOT NULL,
+  old_values JSONB NOT NULL,
+  new_values JSONB NOT NULL,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_parsed_resume_detail_revisions_detail
+  ON public.parsed_resume_detail_revisions (parsed_detail_id, changed_at DESC);
+
+ALTER TABLE public.parsed_resume_detail_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are written by the trigger only, so clients just read them
+CREATE POLICY "parsed_detail_revisions_select_own" ON public.parsed_resume_detail_revisions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.record_parsed_detail_revision()
+RETURNS trigger AS $$
+DECLARE
+  -- Every column is a candidate field except these parser and review bookkeeping ones
+  -- (some are added by later migrations), so new candidate fields are tracked as they appear
+  untracked TEXT[] := ARRAY[
+    'id', 'resume_id', 'user_id', 'created_at', 'updated_at',
+    'raw_text_content', 'extraction_method', 'ocr_confidence', 'field_confidence',
+    'parse_warnings', 'security_flags', 'schema_version',
+    'review_status', 'reviewed_at', 'reviewed_by'
+  ];
+  old_row JSONB := to_jsonb(OLD) - untracked;
+  new_row JSONB := to_jsonb(NEW) - untracked;
+  old_values JSONB := '{}'::jsonb;
+  new_values JSONB := '{}'::jsonb;
+  column_name TEXT;
+BEGIN
+  FOR column_name IN SELECT jsonb_object_keys(new_row) LOOP
+    IF old_row -> column_name IS DISTINCT FROM new_row -> column_name THEN
+      old_values := old_values || jsonb_build_object(column_name, old_row -> column_name);
+      new_values := new_values || jsonb_build_object(column_name, new_row -> column_name);
+    END IF;
+  END LOOP;
+
+  IF old_values <> '{}'::jsonb THEN
+    INSERT INTO public.parsed_resume_detail_revisions
+      (parsed_detail_id, resume_id, user_id, changed_by, changed_fields, old_values, new_values)
+    VALUES
+      (NEW.id, NEW.resume_id, NEW.user_id, auth.uid(), ARRAY(SELECT jsonb_object_keys(old_values)), old_values, new_values);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER parsed_resume_details_record_revision
+  AFTER UPDATE ON public.parsed_resume_details
+  FOR EACH ROW EXECUTE FUNCTION public.record_parsed_detail_revision();
@@ -0,0 +1,104 @@
+-- Idempotent re-parsing with a per-resume parse history
+
+-- 1. One current parse per resume. Earlier parse-resume calls could insert duplicates;
+-- keep the newest row for each resume.
+DELETE FROM public.parsed_resume_details AS details
+USING public.parsed_resume_details AS newer
+WHERE details.resume_id = newer.resume_id
+  AND (details.created_at, details.id) < (newer.created_at, newer.id);
+
+ALTER TABLE public.parsed_resume_details
+  ADD CONSTRAINT parsed_resume_details_resume_id_key UNIQUE (resume_id);
+
+-- 2. Every parse result, with the provider/model/prompt that produced it
+CREATE TABLE public.parsed_resume_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  resume_id UUID NOT NULL REFERENCES public.resumes(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  version INTEGER NOT NULL,
+  provider TEXT, -- LLM provider, 'regex' for the fallback parser, NULL for pre-history parses
+  model TEXT,
+  prompt_version TEXT,
+  extraction_method TEXT,
+  candidate JSONB NOT NULL, -- canonical candidate (see _shared/candidate-schema.ts)
+  field_confidence JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (resume_id, version)
+);
+
+ALTER TABLE public.parsed_resume_versions ENABLE ROW LEVEL SECURITY;
+
+-- Versions are written by the parser (service role) only
+CREATE POLICY "parsed_resume_versions_select_own" ON public.parsed_resume_versions
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- 3. Seed the history with the current parses
+INSERT INTO public.parsed_resume_versions
+  (resume_id, user_id, version, extraction_method, candidate, field_confidence, created_at)
+SELECT
+  resume_id,
+  user_id,
+  1,
+  extraction_method,
+  jsonb_build_object(
+    'full_name', full_name,
+    'email', email,
+    'phone', phone,
+    'location', location,
+    'skills', COALESCE(skills_json::jsonb, '[]'::jsonb),
+    'experience', COALESCE(experience_json::jsonb, '[]'::jsonb),
+    'education', COALESCE(education_json::jsonb, '[]'::jsonb),
+    'links', links_json,
+    'certifications', certifications_json
+  ),
+  field_confidence,
+  created_at
+FROM public.parsed_resume_details;
+
+-- 4. Stores a parse result: replaces the current details and appends the next history version
+-- in one transaction. Both arguments map column names to values. The version number is
+-- allocated here, so a re-parse racing a worker retry of the same resume takes the next one.
+CREATE OR REPLACE FUNCTION public.store_parse_result(p_details JSONB, p_version JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+  v_resume_id UUID := (p_details ->> 'resume_id')::UUID;
+  v_columns TEXT;
+  v_updates TEXT;
+  v_version INTEGER;
+BEGIN
+  SELECT string_agg(quote_ident(key), ', '), string_agg(format('%1$I = EXCLUDED.%1$I', key), ', ')
+  INTO v_columns, v_updates
+  FROM jsonb_object_keys(p_details) AS key;
+
+  EXECUTE format(
+    'INSERT INTO public.parsed_resume_details (%1$s)
+     SELECT %1$s FROM jsonb_populate_record(NULL::public.parsed_resume_details, $1)
+     ON CONFLICT (resume_id) DO UPDATE SET %2$s',
+    v_columns, v_updates
+  ) USING p_details;
+
+  SELECT string_agg(quote_ident(key), ', ')
+  INTO v_columns
+  FROM jsonb_object_keys(p_version - 'resume_id' - 'version') AS key;
+
+  FOR attempt IN 1..5 LOOP
+    BEGIN
+      EXECUTE format(
+        'INSERT INTO public.parsed_resume_versions (resume_id, version, %1$s)
+         SELECT $2, COALESCE((SELECT max(version) FROM public.parsed_resume_versions WHERE resume_id = $2), 0) + 1, %1$s
+         FROM jsonb_populate_record(NULL::public.parsed_resume_versions, $1)
+         RETURNING version',
+        v_columns
+      ) INTO v_version USING p_version, v_resume_id;
+      RETURN v_version;
+    EXCEPTION WHEN unique_violation THEN
+      -- A concurrent parse committed the same number first; the next attempt sees it
+      IF attempt = 5 THEN
+        RAISE;
+      END IF;
+    END;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.store_parse_result(JSONB, JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,168 @@
+-- Candidates own identity and contact data; resumes, cover letters and portfolios attach to them
+
+-- 1. Candidates
+CREATE TABLE public.candidates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  full_name TEXT,
+  email TEXT,
+  phone TEXT,
+  location TEXT,
+  latest_resume_id UUID REFERENCES public.resumes(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_candidates_user_email ON public.candidates (user_id, lower(email));
+
+ALTER TABLE public.candidates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "candidates_select_own" ON public.candidates
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "candidates_insert_own" ON public.candidates
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "candidates_update_own" ON public.candidates
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "candidates_delete_own" ON public.candidates
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- 2. Documents: every file in resumes belongs to (at most) one candidate
+CREATE TYPE public.document_type AS ENUM (
+  'resume',
+  'cover_letter',
+  'portfolio',
+  'other'
+);
+
+ALTER TABLE public.resumes
+  ADD COLUMN IF NOT EXISTS candidate_id UUID REFERENCES public.candidates(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS document_type public.document_type NOT NULL DEFAULT 'resume';
+
+CREATE INDEX idx_resumes_candidate ON public.resumes (candidate_id);
+
+-- A document can only be attached to a candidate of the same owner
+CREATE OR REPLACE FUNCTION public.check_resume_candidate_owner()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.candidate_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.candidates WHERE id = NEW.candidate_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Candidate % does not belong to the owner of resume %', NEW.candidate_id, NEW.id
+      USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER resumes_check_candidate_owner
+  BEFORE INSERT OR UPDATE OF candidate_id, user_id ON public.resumes
+  FOR EACH ROW EXECUTE FUNCTION public.check_resume_candidate_owner();
+
+-- 3. Attach a parsed resume to its candidate: keep an explicit link, otherwise match on
+-- email within the owner's pool, otherwise create a new candidate. The newest resume
+-- becomes the candidate's latest resume and supplies the contact details.
+CREATE OR REPLACE FUNCTION public.link_resume_candidate(target_resume_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  resume_row public.resumes%ROWTYPE;
+  details public.parsed_resume_details%ROWTYPE;
+  linked_candidate_id UUID;
+BEGIN
+  SELECT * INTO resume_row FROM public.resumes WHERE id = target_resume_id;
+  SELECT * INTO details FROM public.parsed_resume_details WHERE resume_id = target_resume_id;
+  IF resume_row.id IS NULL OR details.id IS NULL OR resume_row.document_type <> 'resume' THEN
+    RETURN resume_row.candidate_id;
+  END IF;
+
+  -- An existing link only counts when the candidate is the resume owner's
+  SELECT id INTO linked_candidate_id
+  FROM public.candidates
+  WHERE id = resume_row.candidate_id AND user_id = resume_row.user_id;
+
+  IF linked_candidate_id IS NULL AND details.email IS NOT NULL THEN
+    SELECT id INTO linked_candidate_id
+    FROM public.candidates
+    WHERE user_id = resume_row.user_id AND lower(email) = lower(details.email)
+    ORDER BY created_at
+    LIMIT 1;
+  END IF;
+
+  IF linked_candidate_id IS NULL THEN
+    INSERT INTO public.candidates (user_id, full_name, email, phone, location)
+    VALUES (resume_row.user_id, details.full_name, details.email, details.phone, details.location)
+    RETURNING id INTO linked_candidate_id;
+  END IF;
+
+  UPDATE public.resumes SET candidate_id = linked_candidate_id WHERE id = target_resume_id;
+
+  -- Re-parses of the latest resume leave contact details to sync_candidate_contact, which
+  -- keeps what a recruiter chose or edited on the candidate
+  UPDATE public.candidates AS candidate
+  SET latest_resume_id = target_resume_id,
+      full_name = CASE WHEN candidate.latest_resume_id IS DISTINCT FROM target_resume_id
+        THEN COALESCE(details.full_name, candidate.full_name) ELSE candidate.full_name END,
+      email = CASE WHEN candidate.latest_resume_id IS DISTINCT FROM target_resume_id
+        THEN COALESCE(details.email, candidate.email) ELSE candidate.email END,
+      phone = CASE WHEN candidate.latest_resume_id IS DISTINCT FROM target_resume_id
+        THEN COALESCE(details.phone, candidate.phone) ELSE candidate.phone END,
+      location = CASE WHEN candidate.latest_resume_id IS DISTINCT FROM target_resume_id
+        THEN COALESCE(details.location, candidate.location) ELSE candidate.location END,
+      updated_at = now()
+  WHERE candidate.id = linked_candidate_id
+    AND (
+      candidate.latest_resume_id IS NULL
+      OR candidate.latest_resume_id = target_resume_id
+      OR (SELECT uploaded_at FROM public.resumes WHERE id = candidate.latest_resume_id) <= resume_row.uploaded_at
+    );
+
+  RETURN linked_candidate_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.link_resume_candidate(UUID) FROM PUBLIC, anon, authenticated;
+
+-- 4. Corrections to the latest resume's contact details flow through to the candidate.
+-- A field only follows while the candidate still has the resume's previous value (or none),
+-- so values picked when merging or edited on the candidate survive re-parses.
+CREATE OR REPLACE FUNCTION public.sync_candidate_contact()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE public.candidates
+  SET full_name = CASE WHEN full_name IS NULL OR full_name IS NOT DISTINCT FROM OLD.full_name
+        THEN NEW.full_name ELSE full_name END,
+      email = CASE WHEN email IS NULL OR email IS NOT DISTINCT FROM OLD.email
+        THEN NEW.email ELSE email END,
+      phone = CASE WHEN phone IS NULL OR phone IS NOT DISTINCT FROM OLD.phone
+        THEN NEW.phone ELSE phone END,
+      location = CASE WHEN location IS NULL OR location IS NOT DISTINCT FROM OLD.location
+        THEN NEW.location ELSE location END,
+      updated_at = now()
+  WHERE latest_resume_id = NEW.resume_id
+    AND (NEW.full_name, NEW.email, NEW.phone, NEW.location)
+      IS DISTINCT FROM (OLD.full_name, OLD.email, OLD.phone, OLD.location);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER parsed_resume_details_sync_candidate
+  AFTER UPDATE OF full_name, email, phone, location ON public.parsed_resume_details
+  FOR EACH ROW EXECUTE FUNCTION public.sync_candidate_contact();
+
+-- 5. Backfill: link every parsed resume, oldest first so the newest ends up as latest
+DO $$
+DECLARE
+  parsed_resume RECORD;
+BEGIN
+  FOR parsed_resume IN
+    SELECT resumes.id
+    FROM public.resumes
+    JOIN public.parsed_resume_details details ON details.resume_id = resumes.id
+    ORDER BY resumes.uploaded_at
+  LOOP
+    PERFORM public.link_resume_candidate(parsed_resume.id);
+  END LOOP;
+END;
+$$;
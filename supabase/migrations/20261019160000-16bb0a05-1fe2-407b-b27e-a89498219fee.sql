@@ -0,0 +1,97 @@
+-- Candidate notes and merging duplicate candidates
+
+-- 1. Recruiter notes on a candidate
+CREATE TABLE public.candidate_notes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  candidate_id UUID NOT NULL REFERENCES public.candidates(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  body TEXT NOT NULL CHECK (length(btrim(body)) > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_candidate_notes_candidate ON public.candidate_notes (candidate_id, created_at DESC);
+
+ALTER TABLE public.candidate_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "candidate_notes_select_own" ON public.candidate_notes
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "candidate_notes_insert_own" ON public.candidate_notes
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "candidate_notes_delete_own" ON public.candidate_notes
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- 2. Audit trail of merges, including a snapshot of the candidate that was merged away
+CREATE TABLE public.candidate_merges (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  primary_candidate_id UUID NOT NULL REFERENCES public.candidates(id) ON DELETE CASCADE,
+  merged_candidate_id UUID NOT NULL, -- the row no longer exists after the merge
+  merged_snapshot JSONB NOT NULL,
+  field_choices JSONB NOT NULL DEFAULT '{}'::jsonb,
+  merged_by UUID,
+  merged_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.candidate_merges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "candidate_merges_select_own" ON public.candidate_merges
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- 3. Merge duplicate_id into primary_id.
+-- field_choices maps full_name/email/phone/location to 'primary' or 'duplicate' (default 'primary').
+-- Documents, notes and earlier merge history move to the primary; the duplicate is deleted.
+CREATE OR REPLACE FUNCTION public.merge_candidates(
+  primary_id UUID,
+  duplicate_id UUID,
+  field_choices JSONB DEFAULT '{}'::jsonb
+)
+RETURNS public.candidates AS $$
+DECLARE
+  primary_row public.candidates%ROWTYPE;
+  duplicate_row public.candidates%ROWTYPE;
+  merged public.candidates%ROWTYPE;
+BEGIN
+  IF primary_id = duplicate_id THEN
+    RAISE EXCEPTION 'Cannot merge a candidate into itself';
+  END IF;
+
+  SELECT * INTO primary_row FROM public.candidates WHERE id = primary_id AND user_id = auth.uid() FOR UPDATE;
+  SELECT * INTO duplicate_row FROM public.candidates WHERE id = duplicate_id AND user_id = auth.uid() FOR UPDATE;
+  IF primary_row.id IS NULL OR duplicate_row.id IS NULL THEN
+    RAISE EXCEPTION 'Candidate not found';
+  END IF;
+
+  UPDATE public.resumes SET candidate_id = primary_id WHERE candidate_id = duplicate_id;
+  UPDATE public.candidate_notes SET candidate_id = primary_id WHERE candidate_id = duplicate_id;
+  UPDATE public.candidate_merges SET primary_candidate_id = primary_id WHERE primary_candidate_id = duplicate_id;
+
+  UPDATE public.candidates
+  SET full_name = CASE WHEN field_choices->>'full_name' = 'duplicate' THEN duplicate_row.full_name ELSE primary_row.full_name END,
+      email = CASE WHEN field_choices->>'email' = 'duplicate' THEN duplicate_row.email ELSE primary_row.email END,
+      phone = CASE WHEN field_choices->>'phone' = 'duplicate' THEN duplicate_row.phone ELSE primary_row.phone END,
+      location = CASE WHEN field_choices->>'location' = 'duplicate' THEN duplicate_row.location ELSE primary_row.location END,
+      latest_resume_id = (
+        SELECT id FROM public.resumes
+        WHERE candidate_id = primary_id AND document_type = 'resume'
+        ORDER BY uploaded_at DESC
+        LIMIT 1
+      ),
+      updated_at = now()
+  WHERE id = primary_id
+  RETURNING * INTO merged;
+
+  INSERT INTO public.candidate_merges
+    (user_id, primary_candidate_id, merged_candidate_id, merged_snapshot, field_choices, merged_by)
+  VALUES
+    (primary_row.user_id, primary_id, duplicate_id, to_jsonb(duplicate_row), field_choices, auth.uid());
+
+  DELETE FROM public.candidates WHERE id = duplicate_id;
+
+  RETURN merged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.merge_candidates(UUID, UUID, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.merge_candidates(UUID, UUID, JSONB) TO authenticated;
@@ -0,0 +1,13 @@
+-- Content hashes let uploads detect a file that is already in the user's library
+
+-- 1. SHA-256 of the uploaded bytes (hex), computed client-side before upload.
+--    Keeping an identical file "as a new version" bumps content_version instead of
+--    relaxing uniqueness, so each (owner, hash, version) stays unique.
+ALTER TABLE public.resumes
+  ADD COLUMN content_sha256 TEXT CHECK (content_sha256 ~ '^[0-9a-f]{64}$'),
+  ADD COLUMN content_version INTEGER NOT NULL DEFAULT 1 CHECK (content_version > 0);
+
+-- 2. One row per owner, hash and version; rows uploaded before hashing existed are exempt
+CREATE UNIQUE INDEX idx_resumes_user_content_sha256
+  ON public.resumes (user_id, content_sha256, content_version)
+  WHERE content_sha256 IS NOT NULL;
@@ -0,0 +1,8 @@
+-- Uploads that fail content validation (executables, macros, encryption, limits) are
+-- rejected rather than failed, and say why
+
+-- 1. Terminal status for files the pipeline refuses to parse
+ALTER TYPE public.parsing_status ADD VALUE IF NOT EXISTS 'rejected';
+
+-- 2. Why the file was rejected, shown to the user next to the file
+ALTER TABLE public.resumes ADD COLUMN rejection_reason TEXT;
@@ -0,0 +1,11 @@
+-- Stream resume and parse changes to the app over Supabase Realtime.
+-- Tables keep their default replica identity (the primary key): subscribers only need to know
+-- that a row changed and refetch what they show, so events carry no previous values.
+
+-- 1. Resumes carry the parsing status the upload screen and the header indicator follow
+ALTER PUBLICATION supabase_realtime ADD TABLE public.resumes;
+
+-- 2. Parsed details are published without their content (resume text, contact details and
+-- JSON fields); an edit or a new parse only tells subscribers which resume to refetch.
+-- RLS still limits each subscriber to their own rows.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.parsed_resume_details (id, resume_id, user_id, review_status);
@@ -0,0 +1,29 @@
+-- Keep the reason a parse failed instead of a bare "failed" status
+
+-- 1. Failure categories the app can explain and offer a retry for
+CREATE TYPE public.parse_error_code AS ENUM (
+  'unsupported_file',
+  'extraction_empty',
+  'ai_quota',
+  'ai_invalid_json',
+  'storage_error',
+  'unknown'
+);
+
+-- 2. parse-resume has written parsing_error all along; the column now actually exists
+ALTER TABLE public.resumes
+  ADD COLUMN parsing_error TEXT,
+  ADD COLUMN parsing_error_code public.parse_error_code;
+
+-- 3. Backfill from the latest job of resumes that already failed
+UPDATE public.resumes r
+SET parsing_error = j.last_error,
+    parsing_error_code = 'unknown'
+FROM (
+  SELECT DISTINCT ON (resume_id) resume_id, last_error
+  FROM public.parse_jobs
+  ORDER BY resume_id, created_at DESC
+) j
+WHERE j.resume_id = r.id
+  AND r.parsing_status IN ('failed', 'dead_lettered')
+  AND j.last_error IS NOT NULL;
@@ -0,0 +1,6 @@
+-- Parse jobs are only queued through the parse-resume function, which checks that the
+-- caller owns each resume. The client insert policy only checked user_id, so anyone
+-- could queue (and have the service role parse) another user's resume.
+
+-- 1. Clients can still watch their jobs but no longer insert them
+DROP POLICY IF EXISTS "parse_jobs_insert_own" ON public.parse_jobs;
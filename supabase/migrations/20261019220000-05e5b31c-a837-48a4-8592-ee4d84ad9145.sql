@@ -0,0 +1,311 @@
+-- Postgres-backed token-bucket rate limiting shared by every edge function, with limits
+-- per user and per workspace, plus sign-in lockouts that survive reloads and new tabs
+
+-- 1. Workspaces. Every user gets a personal workspace; workspace limits apply to all
+-- of its members together.
+CREATE TABLE public.workspaces (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.workspace_members (
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (workspace_id, user_id)
+);
+
+CREATE INDEX idx_workspace_members_user_id ON public.workspace_members (user_id, created_at);
+
+ALTER TABLE public.workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "workspaces_select_member" ON public.workspaces
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.workspace_members
+            WHERE workspace_id = workspaces.id AND user_id = auth.uid())
+  );
+
+CREATE POLICY "workspace_members_select_own" ON public.workspace_members
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- The workspace a user's usage is billed to: their oldest membership
+CREATE OR REPLACE FUNCTION public.user_workspace_id(p_user_id UUID)
+RETURNS UUID AS $$
+  SELECT workspace_id FROM public.workspace_members
+  WHERE user_id = p_user_id
+  ORDER BY created_at
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.create_personal_workspace()
+RETURNS trigger AS $$
+DECLARE
+  v_workspace_id UUID;
+BEGIN
+  INSERT INTO public.workspaces (name, created_by)
+  VALUES (COALESCE(NEW.raw_user_meta_data ->> 'full_name', NEW.email, 'My workspace'), NEW.id)
+  RETURNING id INTO v_workspace_id;
+
+  INSERT INTO public.workspace_members (workspace_id, user_id, role)
+  VALUES (v_workspace_id, NEW.id, 'owner');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_auth_user_created_workspace
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION public.create_personal_workspace();
+
+-- Backfill personal workspaces for existing users
+DO $$
+DECLARE
+  v_user RECORD;
+  v_workspace_id UUID;
+BEGIN
+  FOR v_user IN
+    SELECT id, email, raw_user_meta_data FROM auth.users u
+    WHERE NOT EXISTS (SELECT 1 FROM public.workspace_members m WHERE m.user_id = u.id)
+  LOOP
+    INSERT INTO public.workspaces (name, created_by)
+    VALUES (COALESCE(v_user.raw_user_meta_data ->> 'full_name', v_user.email, 'My workspace'), v_user.id)
+    RETURNING id INTO v_workspace_id;
+
+    INSERT INTO public.workspace_members (workspace_id, user_id, role)
+    VALUES (v_workspace_id, v_user.id, 'owner');
+  END LOOP;
+END $$;
+
+-- 2. Limits per action and scope. A bucket holds up to `capacity` tokens and refills
+-- completely over `refill_seconds`; each request spends `cost` tokens.
+CREATE TABLE public.rate_limit_policies (
+  action TEXT NOT NULL,
+  scope TEXT NOT NULL CHECK (scope IN ('user', 'workspace', 'email')),
+  capacity INTEGER NOT NULL CHECK (capacity > 0),
+  refill_seconds INTEGER NOT NULL CHECK (refill_seconds > 0),
+  description TEXT,
+  PRIMARY KEY (action, scope)
+);
+
+ALTER TABLE public.rate_limit_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "rate_limit_policies_select_authenticated" ON public.rate_limit_policies
+  FOR SELECT TO authenticated USING (true);
+
+INSERT INTO public.rate_limit_policies (action, scope, capacity, refill_seconds, description) VALUES
+  ('parse_resume', 'user', 500, 3600, 'Resumes queued for parsing'),
+  ('parse_resume', 'workspace', 2000, 3600, 'Resumes queued for parsing'),
+  ('screening_questions', 'user', 60, 3600, 'Screening question sets generated'),
+  ('screening_questions', 'workspace', 300, 3600, 'Screening question sets generated'),
+  ('sign_in', 'email', 5, 900, 'Failed sign-in attempts');
+
+-- 3. Bucket state. Subjects are user ids, workspace ids or hashed emails, depending on scope.
+CREATE TABLE public.rate_limit_buckets (
+  action TEXT NOT NULL,
+  scope TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  tokens DOUBLE PRECISION NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (action, scope, subject),
+  FOREIGN KEY (action, scope) REFERENCES public.rate_limit_policies (action, scope) ON DELETE CASCADE
+);
+
+-- Only the functions below touch buckets
+ALTER TABLE public.rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+-- Tokens in a bucket right now, after refilling for the time since it was last updated
+CREATE OR REPLACE FUNCTION public.rate_limit_tokens(
+  p_policy public.rate_limit_policies,
+  p_tokens DOUBLE PRECISION,
+  p_updated_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS DOUBLE PRECISION AS $$
+  SELECT LEAST(
+    p_policy.capacity::DOUBLE PRECISION,
+    COALESCE(p_tokens, p_policy.capacity)
+      + EXTRACT(EPOCH FROM now() - COALESCE(p_updated_at, now())) * p_policy.capacity / p_policy.refill_seconds
+  );
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Spends `cost` tokens from every bucket the action has for this subject, or from none.
+-- Returns allowed = false with the scope that ran out and how long until it can pay.
+CREATE OR REPLACE FUNCTION public.consume_rate_limit_subjects(
+  p_action TEXT,
+  p_subjects JSONB,
+  p_cost INTEGER DEFAULT 1
+)
+RETURNS TABLE (allowed BOOLEAN, limited_scope TEXT, remaining INTEGER, retry_after_seconds INTEGER) AS $$
+DECLARE
+  v_policy public.rate_limit_policies;
+  v_subject TEXT;
+  v_bucket public.rate_limit_buckets;
+  v_tokens DOUBLE PRECISION;
+  v_remaining DOUBLE PRECISION := NULL;
+BEGIN
+  -- Lock every bucket first so concurrent requests cannot both spend the last token
+  FOR v_policy IN
+    SELECT * FROM public.rate_limit_policies WHERE action = p_action ORDER BY scope
+  LOOP
+    v_subject := p_subjects ->> v_policy.scope;
+    CONTINUE WHEN v_subject IS NULL;
+
+    INSERT INTO public.rate_limit_buckets (action, scope, subject, tokens)
+    VALUES (p_action, v_policy.scope, v_subject, v_policy.capacity)
+    ON CONFLICT DO NOTHING;
+
+    SELECT * INTO v_bucket FROM public.rate_limit_buckets
+    WHERE action = p_action AND scope = v_policy.scope AND subject = v_subject
+    FOR UPDATE;
+
+    v_tokens := public.rate_limit_tokens(v_policy, v_bucket.tokens, v_bucket.updated_at);
+    IF v_tokens < p_cost THEN
+      RETURN QUERY SELECT
+        false,
+        v_policy.scope,
+        FLOOR(v_tokens)::INTEGER,
+        -- A cost above capacity can never be paid; report a full refill
+        CEIL(LEAST(p_cost - v_tokens, v_policy.capacity) * v_policy.refill_seconds / v_policy.capacity)::INTEGER;
+      RETURN;
+    END IF;
+  END LOOP;
+
+  FOR v_policy IN
+    SELECT * FROM public.rate_limit_policies WHERE action = p_action ORDER BY scope
+  LOOP
+    v_subject := p_subjects ->> v_policy.scope;
+    CONTINUE WHEN v_subject IS NULL;
+
+    UPDATE public.rate_limit_buckets
+    SET tokens = public.rate_limit_tokens(v_policy, tokens, updated_at) - p_cost,
+        updated_at = now()
+    WHERE action = p_action AND scope = v_policy.scope AND subject = v_subject
+    RETURNING tokens INTO v_tokens;
+
+    v_remaining := LEAST(COALESCE(v_remaining, v_tokens), v_tokens);
+  END LOOP;
+
+  RETURN QUERY SELECT true, NULL::TEXT, FLOOR(COALESCE(v_remaining, 0))::INTEGER, 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Edge functions call this with the user they authenticated
+CREATE OR REPLACE FUNCTION public.consume_rate_limit(
+  p_action TEXT,
+  p_user_id UUID,
+  p_cost INTEGER DEFAULT 1
+)
+RETURNS TABLE (allowed BOOLEAN, limited_scope TEXT, remaining INTEGER, retry_after_seconds INTEGER) AS $$
+  SELECT * FROM public.consume_rate_limit_subjects(
+    p_action,
+    jsonb_strip_nulls(jsonb_build_object(
+      'user', p_user_id::TEXT,
+      'workspace', public.user_workspace_id(p_user_id)::TEXT
+    )),
+    p_cost
+  );
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.consume_rate_limit_subjects(TEXT, JSONB, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.consume_rate_limit(TEXT, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- 4. Current usage of the caller and their workspace, for the Settings screen
+CREATE OR REPLACE FUNCTION public.get_rate_limit_usage()
+RETURNS TABLE (
+  action TEXT,
+  scope TEXT,
+  description TEXT,
+  capacity INTEGER,
+  refill_seconds INTEGER,
+  remaining INTEGER
+) AS $$
+  SELECT
+    p.action,
+    p.scope,
+    p.description,
+    p.capacity,
+    p.refill_seconds,
+    FLOOR(public.rate_limit_tokens(p, b.tokens, b.updated_at))::INTEGER
+  FROM public.rate_limit_policies p
+  LEFT JOIN public.rate_limit_buckets b
+    ON b.action = p.action AND b.scope = p.scope
+   AND b.subject = CASE p.scope
+     WHEN 'user' THEN auth.uid()::TEXT
+     WHEN 'workspace' THEN public.user_workspace_id(auth.uid())::TEXT
+   END
+  WHERE p.scope IN ('user', 'workspace')
+  ORDER BY p.action, p.scope DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 5. Sign-in lockout. Failed attempts spend from a per-email bucket (emails are stored
+-- hashed); while it is empty, even a correct password is refused. The app signs in through
+-- the sign-in edge function, which enforces it. Where the Auth password verification hook
+-- is available (enabled in supabase/config.toml) it enforces it for direct Auth API calls
+-- too and records the attempts instead. Clients cannot call any of these functions.
+CREATE OR REPLACE FUNCTION public.check_sign_in_allowed(p_email TEXT)
+RETURNS INTEGER AS $$
+  SELECT CASE
+    WHEN public.rate_limit_tokens(p, b.tokens, b.updated_at) >= 1 THEN 0
+    ELSE CEIL((1 - public.rate_limit_tokens(p, b.tokens, b.updated_at)) * p.refill_seconds / p.capacity)::INTEGER
+  END
+  FROM public.rate_limit_policies p
+  LEFT JOIN public.rate_limit_buckets b
+    ON b.action = p.action AND b.scope = p.scope AND b.subject = md5(lower(trim(p_email)))
+  WHERE p.action = 'sign_in' AND p.scope = 'email';
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.record_failed_sign_in(p_email TEXT)
+RETURNS INTEGER AS $$
+  SELECT retry_after_seconds FROM public.consume_rate_limit_subjects(
+    'sign_in',
+    jsonb_build_object('email', md5(lower(trim(p_email)))),
+    1
+  );
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.clear_failed_sign_ins(p_email TEXT)
+RETURNS void AS $$
+  DELETE FROM public.rate_limit_buckets
+  WHERE action = 'sign_in' AND scope = 'email' AND subject = md5(lower(trim(p_email)));
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.check_sign_in_allowed(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_failed_sign_in(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.clear_failed_sign_ins(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Called by Supabase Auth with { user_id, valid } after each password check
+CREATE OR REPLACE FUNCTION public.hook_password_verification_attempt(event JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_email TEXT;
+  v_retry_after INTEGER;
+BEGIN
+  SELECT email INTO v_email FROM auth.users WHERE id = (event ->> 'user_id')::UUID;
+  IF v_email IS NULL THEN
+    RETURN jsonb_build_object('decision', 'continue');
+  END IF;
+
+  v_retry_after := public.check_sign_in_allowed(v_email);
+  IF v_retry_after > 0 THEN
+    RETURN jsonb_build_object(
+      'decision', 'reject',
+      'message', format('Too many failed sign-in attempts. Please try again in %s minute(s).', CEIL(v_retry_after / 60.0)),
+      'should_logout_user', false
+    );
+  END IF;
+
+  IF (event ->> 'valid')::BOOLEAN THEN
+    PERFORM public.clear_failed_sign_ins(v_email);
+  ELSE
+    PERFORM public.record_failed_sign_in(v_email);
+  END IF;
+
+  RETURN jsonb_build_object('decision', 'continue');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT USAGE ON SCHEMA public TO supabase_auth_admin;
+REVOKE EXECUTE ON FUNCTION public.hook_password_verification_attempt(JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.hook_password_verification_attempt(JSONB) TO supabase_auth_admin;
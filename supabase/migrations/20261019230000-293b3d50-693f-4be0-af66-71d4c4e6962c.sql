@@ -0,0 +1,10 @@
+-- Candidate schema v2 (see supabase/functions/_shared/candidate-schema.ts): publications,
+-- and the warnings the parser records when it had to drop content from a long resume
+
+-- 1. New columns
+ALTER TABLE public.parsed_resume_details
+  ADD COLUMN IF NOT EXISTS publications_json JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS parse_warnings TEXT[] NOT NULL DEFAULT '{}';
+
+-- Existing rows are valid v2 candidates without publications
+UPDATE public.parsed_resume_details SET schema_version = 2;
@@ -0,0 +1,10 @@
+-- Local OCR for scanned and photographed resumes: how sure the OCR was of the text the
+-- parse is based on, so reviewers know to double-check shaky scans
+
+ALTER TABLE public.parsed_resume_details
+  ADD COLUMN IF NOT EXISTS ocr_confidence NUMERIC(4, 3)
+    CHECK (ocr_confidence IS NULL OR ocr_confidence BETWEEN 0 AND 1);
+
+ALTER TABLE public.parsed_resume_versions
+  ADD COLUMN IF NOT EXISTS ocr_confidence NUMERIC(4, 3)
+    CHECK (ocr_confidence IS NULL OR ocr_confidence BETWEEN 0 AND 1);
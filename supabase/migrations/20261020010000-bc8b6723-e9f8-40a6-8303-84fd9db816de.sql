@@ -0,0 +1,7 @@
+-- Prompt-injection and hidden-text defenses: what the parser removed from a resume before
+-- the model saw it (hidden text, invisible characters, instructions aimed at the AI).
+-- Flagged resumes are held for review, which keeps them out of search until confirmed.
+
+ALTER TABLE public.parsed_resume_details
+  ADD COLUMN IF NOT EXISTS security_flags JSONB NOT NULL DEFAULT '[]'::jsonb
+    CHECK (jsonb_typeof(security_flags) = 'array');
@@ -0,0 +1,47 @@
+-- Workspace skill aliases on top of the bundled skill taxonomy
+-- (supabase/functions/_shared/skill-taxonomy.ts): map a domain-specific spelling onto a
+-- canonical skill, or introduce a skill the taxonomy does not know
+
+-- 1. Aliases. An alias may point at a bundled skill or name a new one, optionally with
+-- its category and a broader parent skill.
+CREATE TABLE public.skill_aliases (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  alias TEXT NOT NULL CHECK (length(btrim(alias)) BETWEEN 1 AND 100),
+  canonical_name TEXT NOT NULL CHECK (length(btrim(canonical_name)) BETWEEN 1 AND 100),
+  category TEXT CHECK (category IN (
+    'language', 'framework', 'database', 'cloud', 'devops', 'data', 'tool', 'methodology', 'soft_skill'
+  )),
+  parent_name TEXT CHECK (parent_name IS NULL OR length(btrim(parent_name)) BETWEEN 1 AND 100),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_skill_aliases_workspace_alias ON public.skill_aliases (workspace_id, lower(btrim(alias)));
+
+-- 2. Every member uses the workspace's aliases; owners and admins maintain them
+ALTER TABLE public.skill_aliases ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.is_workspace_admin(p_workspace_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.workspace_members
+    WHERE workspace_id = p_workspace_id AND user_id = auth.uid() AND role IN ('owner', 'admin')
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE POLICY "skill_aliases_select_member" ON public.skill_aliases
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.workspace_members
+            WHERE workspace_id = skill_aliases.workspace_id AND user_id = auth.uid())
+  );
+
+CREATE POLICY "skill_aliases_insert_admin" ON public.skill_aliases
+  FOR INSERT WITH CHECK (public.is_workspace_admin(workspace_id) AND created_by = auth.uid());
+
+CREATE POLICY "skill_aliases_update_admin" ON public.skill_aliases
+  FOR UPDATE USING (public.is_workspace_admin(workspace_id))
+  WITH CHECK (public.is_workspace_admin(workspace_id));
+
+CREATE POLICY "skill_aliases_delete_admin" ON public.skill_aliases
+  FOR DELETE USING (public.is_workspace_admin(workspace_id));
@@ -0,0 +1,11 @@
+-- Candidate schema v3 (see supabase/functions/_shared/candidate-schema.ts): experience
+-- entries list the skills used in each role, and skill levels hold proficiency the candidate
+-- declared. Years per skill and recency are derived from these when read.
+
+-- 1. New column
+ALTER TABLE public.parsed_resume_details
+  ADD COLUMN IF NOT EXISTS skill_levels_json JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Existing rows are valid v3 candidates: experience entries without skills read as [],
+-- and the app attributes listed skills mentioned in each role's description instead
+UPDATE public.parsed_resume_details SET schema_version = 3;
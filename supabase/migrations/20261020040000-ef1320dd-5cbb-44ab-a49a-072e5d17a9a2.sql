@@ -0,0 +1,11 @@
+-- Candidate schema v4 (see supabase/functions/_shared/candidate-schema.ts): projects and
+-- spoken languages, next to the links, certifications and publications added earlier
+
+-- 1. New columns
+ALTER TABLE public.parsed_resume_details
+  ADD COLUMN IF NOT EXISTS projects_json JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS languages_json JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Existing rows are valid v4 candidates without projects or languages; re-parsing a
+-- resume fills them in from raw_text_content
+UPDATE public.parsed_resume_details SET schema_version = 4;
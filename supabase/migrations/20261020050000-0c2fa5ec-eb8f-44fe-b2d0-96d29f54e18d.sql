@@ -0,0 +1,44 @@
+-- Workspace-defined extraction fields (see supabase/functions/_shared/custom-fields.ts):
+-- admins describe the data their hiring teams need, the parser extracts it next to the
+-- candidate schema and stores the typed values per parse
+
+-- 1. Field definitions. The key is what the model answers with and what custom_fields
+-- is keyed by, so it is unique per workspace and never changes after creation.
+CREATE TABLE public.custom_field_definitions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  key TEXT NOT NULL CHECK (key ~ '^[a-z0-9][a-z0-9_]{0,49}$'),
+  name TEXT NOT NULL CHECK (length(btrim(name)) BETWEEN 1 AND 100),
+  field_type TEXT NOT NULL CHECK (field_type IN ('text', 'number', 'boolean', 'date', 'select', 'multi_select')),
+  description TEXT CHECK (description IS NULL OR length(description) <= 1000),
+  allowed_values TEXT[] NOT NULL DEFAULT '{}',
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (workspace_id, key),
+  -- Lists need their options; other types have none
+  CHECK ((field_type IN ('select', 'multi_select')) = (cardinality(allowed_values) > 0))
+);
+
+-- 2. Every member parses and filters with the workspace's fields; owners and admins define them
+ALTER TABLE public.custom_field_definitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "custom_field_definitions_select_member" ON public.custom_field_definitions
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.workspace_members
+            WHERE workspace_id = custom_field_definitions.workspace_id AND user_id = auth.uid())
+  );
+
+CREATE POLICY "custom_field_definitions_insert_admin" ON public.custom_field_definitions
+  FOR INSERT WITH CHECK (public.is_workspace_admin(workspace_id) AND created_by = auth.uid());
+
+CREATE POLICY "custom_field_definitions_update_admin" ON public.custom_field_definitions
+  FOR UPDATE USING (public.is_workspace_admin(workspace_id))
+  WITH CHECK (public.is_workspace_admin(workspace_id));
+
+CREATE POLICY "custom_field_definitions_delete_admin" ON public.custom_field_definitions
+  FOR DELETE USING (public.is_workspace_admin(workspace_id));
+
+-- 3. Extracted values, keyed by definition key
+ALTER TABLE public.parsed_resume_details
+  ADD COLUMN IF NOT EXISTS custom_fields JSONB NOT NULL DEFAULT '{}'::jsonb;